@@ -1,524 +1,341 @@
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { processStatement, extractTextFromContent } from './services/geminiService';
-import type { AccountInfo, Transaction, GeminiResponse } from './types';
-import { UploadIcon, ProcessIcon, DownloadIcon, CopyIcon, OpenHtmlIcon, MicrophoneIcon } from './components/Icons';
+import { categorizeWithAI, ocrPageOnServer, parseStatementOnServer } from './services/apiClient';
+import { ocrPages, retryOcrPage, stitchPages, replacePageMarker } from './services/ocrPipeline';
+import type { OcrPage } from './services/ocrPipeline';
+import type { WorkspaceStatement } from './services/workspace';
+import { createStatement, getStatementKey, getStatementLabel, getBalanceMismatchWarning, getSourcePages } from './services/workspace';
+import { findDuplicates } from './services/duplicates';
+import { withSources } from './services/provenance';
+import type { BalanceFix } from './services/balanceChain';
+import { applyOperation, validateOperation } from './services/transactionEdits';
+import { applyPatch, coalesceKeyFor, describeOperation, diffTransactions, originalTransactions, recordChange, revertChange, revertPatch } from './services/changeHistory';
+import { categorizeTransactions, getCategories, learnCategory, loadCategoryRules, saveCategoryRules } from './services/categorizer';
+import { assignCounterparties, loadCounterpartyDirectory, saveCounterpartyDirectory } from './services/counterparty';
+import { importInvoiceFile } from './services/invoiceImport';
+import { matchInvoices } from './services/invoiceMatching';
+import { importLedgerFile } from './services/ledgerImport';
+import { BASE_CURRENCY, convertStatement, isForeignCurrency } from './services/currency';
+import { importExchangeRateFile } from './services/exchangeRateImport';
+import { buildBatchArchive, createBatchItem, getReviewReasons, isBatchRunning, nextReviewItem, type BatchItem, type PendingDuplicates } from './services/batch';
+import { runQueue } from './services/jobQueue';
+import { downloadFile } from './utils/download';
+import { getProject, saveProject } from './services/projectStorage';
+import type { Transaction, ChatMessage, ConfidenceField, GeminiResponse, CategoryRule, CounterpartyEntry, InvoiceKind, TransactionOperation, ChangeRecord, ChangeSource } from './types';
+import { UploadIcon, ProcessIcon } from './components/Icons';
 import ChatAssistant from './components/ChatAssistant';
+import ResultTable from './components/ResultTable';
+import StatementSidebar from './components/StatementSidebar';
+import ProjectList from './components/ProjectList';
+import JournalView from './components/JournalView';
+import SourceViewer from './components/SourceViewer';
+import DuplicateReviewDialog from './components/DuplicateReviewDialog';
+import CounterpartyDirectory from './components/CounterpartyDirectory';
+import InvoicePanel from './components/InvoicePanel';
+import BankReconciliationView from './components/BankReconciliationView';
+import ChangeLog from './components/ChangeLog';
+import ReportDiffView from './components/ReportDiffView';
+import AmountInput from './components/AmountInput';
+import { extractDocument, type ExtractedDocument } from './core/extract';
+import ExchangeRatePanel from './components/ExchangeRatePanel';
+import BatchPanel from './components/BatchPanel';
+import AISettingsPanel from './components/AISettingsPanel';
+
+// Browser files go through the same extraction as the CLI
+const extractFromFile = async (file: File): Promise<ExtractedDocument> =>
+    extractDocument({ name: file.name, type: file.type, data: await file.arrayBuffer() });
 
-// Helper to extract text or images from various file types
-const extractFromFile = async (file: File): Promise<{ text: string | null; images: { mimeType: string; data: string }[] }> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-            try {
-                const content = e.target?.result as ArrayBuffer;
-                if (!content) {
-                    return reject(new Error('File content is empty.'));
-                }
 
-                if (file.type === 'application/pdf') {
-                    const pdf = await (window as any).pdfjsLib.getDocument({ data: content }).promise;
-                    const pageImages: { mimeType: string, data: string }[] = [];
-                    
-                    for (let i = 1; i <= pdf.numPages; i++) {
-                        const page = await pdf.getPage(i);
-                        const viewport = page.getViewport({ scale: 10.0 }); // Increased scale dramatically for maximum OCR accuracy as per user request.
-                        const canvas = document.createElement('canvas');
-                        const context = canvas.getContext('2d');
-                        if (!context) throw new Error('Could not get canvas context');
-                        canvas.height = viewport.height;
-                        canvas.width = viewport.width;
-
-                        await page.render({ canvasContext: context, viewport: viewport }).promise;
-                        
-                        // Use PNG for lossless image quality
-                        const dataUrl = canvas.toDataURL('image/png'); 
-                        const base64Data = dataUrl.split(',')[1];
-                        pageImages.push({ mimeType: 'image/png', data: base64Data });
-                    }
-                    resolve({ text: null, images: pageImages });
-                } else if (file.type.startsWith('image/')) {
-                    const base64Data = btoa(new Uint8Array(content).reduce((data, byte) => data + String.fromCharCode(byte), ''));
-                    resolve({ text: null, images: [{ mimeType: file.type, data: base64Data }] });
-                } else { // Text-based files
-                    let extractedText = '';
-                    if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-                        const result = await (window as any).mammoth.extractRawText({ arrayBuffer: content });
-                        extractedText = result.value;
-                    } else if (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
-                        const workbook = (window as any).XLSX.read(content, { type: 'array' });
-                        workbook.SheetNames.forEach((sheetName: string) => {
-                            const worksheet = workbook.Sheets[sheetName];
-                            extractedText += (window as any).XLSX.utils.sheet_to_csv(worksheet);
-                        });
-                    } else { // Plain text
-                        extractedText = new TextDecoder().decode(content);
-                    }
-                    resolve({ text: extractedText, images: [] });
-                }
-            } catch (error) {
-                console.error("Error during file extraction:", error);
-                reject(error);
-            }
-        };
-        reader.onerror = (error) => reject(error);
-        reader.readAsArrayBuffer(file);
-    });
-};
-
-
-const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('vi-VN').format(value);
-};
+type LoadingState = 'idle' | 'extracting' | 'processing';
+type View = 'workspace' | 'projects' | 'settings';
+type ReportView = 'ledger' | 'journal' | 'reconciliation' | 'comparison';
 
-interface ResultTableProps {
-    accountInfo: AccountInfo;
-    transactions: Transaction[];
-    openingBalance: number;
-    onUpdateTransaction: (index: number, field: 'debit' | 'credit' | 'fee' | 'vat', value: number) => void;
-    balanceMismatchWarning: string | null;
+interface OpenProject {
+    id: string;
+    name: string;
+    createdAt: number;
 }
 
-const ResultTable: React.FC<ResultTableProps> = ({ accountInfo, transactions, openingBalance, onUpdateTransaction, balanceMismatchWarning }) => {
-    const [copySuccess, setCopySuccess] = useState('');
-    const [listeningFor, setListeningFor] = useState<{ index: number; field: 'debit' | 'credit' | 'fee' | 'vat' } | null>(null);
-    const recognitionRef = useRef<any>(null);
-
-    useEffect(() => {
-        const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-        if (!SpeechRecognition) {
-            console.warn("Speech Recognition not supported in this browser.");
-            return;
-        }
-        const recognition = new SpeechRecognition();
-        recognition.continuous = false;
-        recognition.interimResults = false;
-        recognition.lang = 'vi-VN';
-
-        recognition.onresult = (event: any) => {
-            const last = event.results.length - 1;
-            const transcript = event.results[last][0].transcript;
-            
-            // Basic Vietnamese number parsing
-            let numericValue = parseFloat(transcript.replace(/,/g, '').replace(/\./g, '').replace(/\s/g, ''));
-            if (!isNaN(numericValue) && listeningFor) {
-                 if (transcript.toLowerCase().includes('triệu')) {
-                    numericValue *= 1000000;
-                } else if (transcript.toLowerCase().includes('nghìn') || transcript.toLowerCase().includes('ngàn')) {
-                    numericValue *= 1000;
-                }
-                onUpdateTransaction(listeningFor.index, listeningFor.field, numericValue);
-            }
-        };
-
-        recognition.onerror = (event: any) => {
-            console.error("Speech recognition error:", event.error);
-            let errorMessage = `Đã xảy ra lỗi nhận dạng giọng nói: ${event.error}.`;
-            if (event.error === 'no-speech') {
-                errorMessage = "Không nghe thấy giọng nói. Vui lòng đảm bảo micrô của bạn đang hoạt động và thử nói lại.";
-            } else if (event.error === 'audio-capture') {
-                errorMessage = "Không tìm thấy micrô. Vui lòng kiểm tra xem micrô đã được kết nối và cấp quyền trong trình duyệt.";
-            } else if (event.error === 'not-allowed') {
-                errorMessage = "Quyền truy cập micrô đã bị từ chối. Vui lòng vào cài đặt trình duyệt để cấp quyền.";
-            }
-            alert(errorMessage);
-        };
-
-
-        recognition.onend = () => {
-            setListeningFor(null);
-        };
-        
-        recognitionRef.current = recognition;
+// A processed statement waiting for the user to resolve likely duplicates
+interface PendingReview extends PendingDuplicates {
+    statementId: string;
+}
 
-    }, [onUpdateTransaction, listeningFor]);
-    
-    const handleVoiceInput = (index: number, field: 'debit' | 'credit' | 'fee' | 'vat') => {
-        if (recognitionRef.current) {
-            if (listeningFor) {
-                recognitionRef.current.stop();
-                setListeningFor(null);
-            } else {
-                setListeningFor({ index, field });
-                recognitionRef.current.start();
-            }
-        } else {
-             alert("Trình duyệt không hỗ trợ nhận dạng giọng nói.");
-        }
-    };
+// Each file becomes its own statement so different accounts never share a ledger
+const statementFromSource = (file: File, text: string | null, pages: OcrPage[]): WorkspaceStatement => {
+    const content = [text || '', stitchPages(pages)].filter(Boolean).join('\n\n');
+    return createStatement(file.name, content.trim(), [{ name: file.name, type: file.type, blob: file }], pages);
+};
 
+/**
+ * Turns a statement's text into rows on the API server. Structured exports
+ * (Excel/CSV) with a known column layout skip the AI entirely. Rows read twice, or overlapping
+ * other statements of the same account, come back as duplicate candidates;
+ * statements with the same account and period are about to be replaced, so
+ * they are not compared.
+ */
+const analyzeStatement = async (statement: WorkspaceStatement, others: WorkspaceStatement[]): Promise<PendingDuplicates> => {
+    const { data: parsed, parsedWithProfile } = await parseStatementOnServer(statement.fileName, statement.content);
+    // The server only saw the stitched text; record the OCR page and line each transaction was read from
+    const transactions = parsed.transactions.map(({ source: _source, ...tx }) => tx);
+    const data = { ...parsed, transactions: withSources(transactions, getSourcePages(statement).map(page => page.text)) };
+
+    const accountNumber = data.accountInfo.accountNumber.replace(/\s/g, '');
+    const key = getStatementKey({ ...statement, result: data });
+    const sources = others
+        .filter(s => s.id !== statement.id && s.result && getStatementKey(s) !== key
+            && s.result.accountInfo.accountNumber.replace(/\s/g, '') === accountNumber)
+        .map(s => ({ label: getStatementLabel(s).title + (s.fileName ? ` (${s.fileName})` : ''), transactions: s.result!.transactions }));
+    return { data, parsedWithProfile, candidates: findDuplicates(data.transactions, sources) };
+};
 
-    const { totalDebit, totalCredit, totalFee, totalVat, calculatedEndingBalance } = useMemo(() => {
-        const totals = transactions.reduce((acc, tx) => {
-            acc.totalDebit += tx.debit;
-            acc.totalCredit += tx.credit;
-            acc.totalFee += tx.fee || 0;
-            acc.totalVat += tx.vat || 0;
-            return acc;
-        }, { totalDebit: 0, totalCredit: 0, totalFee: 0, totalVat: 0 });
-        
-        const calculatedEndingBalance = openingBalance + totals.totalDebit - totals.totalCredit - totals.totalFee - totals.totalVat;
-        return { ...totals, calculatedEndingBalance };
-    }, [transactions, openingBalance]);
-
-
-    const generateTableData = useCallback(() => {
-        const headers = ["Tên tài khoản", "Số tài khoản", "Tên ngân hàng", "Chi nhánh", "Mã GD", "Ngày giá trị", "Nội dung thanh toán", "Phát Sinh Nợ", "Phát Sinh Có", "Phí", "Thuế VAT", "Số dư"];
-        let runningBalance = openingBalance;
-        
-        const rows = transactions.map(tx => {
-            runningBalance = runningBalance + tx.debit - tx.credit - (tx.fee || 0) - (tx.vat || 0);
-            return [
-                accountInfo.accountName,
-                accountInfo.accountNumber,
-                accountInfo.bankName,
-                accountInfo.branch,
-                tx.transactionCode || '',
-                tx.date,
-                tx.description,
-                tx.debit,
-                tx.credit,
-                tx.fee || 0,
-                tx.vat || 0,
-                runningBalance
-            ];
-        });
+// Only the source text is kept between reloads; processed results are recomputed
+const loadStoredStatements = (): WorkspaceStatement[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem('workspaceStatements') || '[]') as { id: string; fileName: string; content: string }[];
+        return stored.map(s => ({ ...createStatement(s.fileName, s.content), id: s.id }));
+    } catch {
+        return [];
+    }
+};
 
-        const initialRow = [
-            accountInfo.accountName,
-            accountInfo.accountNumber,
-            accountInfo.bankName,
-            accountInfo.branch,
-            '', '', 'Số dư đầu kỳ', '', '', '', '', openingBalance
-        ];
-        
-        const totalRow = ['', '', '', '', '', '', 'Cộng phát sinh', totalDebit, totalCredit, totalFee, totalVat, calculatedEndingBalance];
-
-        return { headers, rows: [initialRow, ...rows, totalRow] };
-    }, [accountInfo, transactions, openingBalance, totalDebit, totalCredit, totalFee, totalVat, calculatedEndingBalance]);
-
-
-    const handleDownload = () => {
-        const { headers, rows } = generateTableData();
-        const csvContent = "data:text/csv;charset=utf-8," 
-            + [headers.join(','), ...rows.map(row => row.map(item => `"${String(item).replace(/"/g, '""')}"`).join(','))].join('\n');
-        
-        const encodedUri = encodeURI(csvContent);
-        const link = document.createElement("a");
-        link.setAttribute("href", encodedUri);
-        link.setAttribute("download", "so_ke_ke_toan.csv");
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    };
-
-    const handleCopy = () => {
-        const { headers, rows } = generateTableData();
-        const tsvContent = [headers.join('\t'), ...rows.map(row => row.join('\t'))].join('\n');
-        
-        navigator.clipboard.writeText(tsvContent).then(() => {
-            setCopySuccess('Đã sao chép vào clipboard!');
-            setTimeout(() => setCopySuccess(''), 2000);
-        }, () => {
-            setCopySuccess('Sao chép thất bại.');
-            setTimeout(() => setCopySuccess(''), 2000);
-        });
+// Replaces the statement's rows and logs the difference as one undoable change
+const withChange = (statement: WorkspaceStatement, transactions: Transaction[], details: Pick<ChangeRecord, 'source' | 'label' | 'coalesceKey' | 'reverts'>): WorkspaceStatement => {
+    if (!statement.result) return statement;
+    const patch = diffTransactions(statement.result.transactions, transactions);
+    if (!patch) return statement;
+    return {
+        ...statement,
+        result: { ...statement.result, transactions },
+        changes: recordChange(statement.changes, patch, details),
+        redoStack: [], // A new change starts a new branch
     };
-
-    const handleOpenHtml = () => {
-        let currentBalance = openingBalance;
-        const tableRowsHtml = transactions.map(tx => {
-            currentBalance += tx.debit - tx.credit - (tx.fee || 0) - (tx.vat || 0);
-            return `
-                <tr>
-                    <td>${accountInfo.accountName || 'N/A'}</td>
-                    <td>${accountInfo.accountNumber || 'N/A'}</td>
-                    <td>${accountInfo.bankName || 'N/A'}</td>
-                    <td>${accountInfo.branch || 'N/A'}</td>
-                    <td>${tx.transactionCode || ''}</td>
-                    <td>${tx.date}</td>
-                    <td>${tx.description}</td>
-                    <td style="color: green;">${tx.debit > 0 ? formatCurrency(tx.debit) : ''}</td>
-                    <td style="color: red;">${tx.credit > 0 ? formatCurrency(tx.credit) : ''}</td>
-                    <td>${(tx.fee || 0) > 0 ? formatCurrency(tx.fee!) : ''}</td>
-                    <td>${(tx.vat || 0) > 0 ? formatCurrency(tx.vat!) : ''}</td>
-                    <td>${formatCurrency(currentBalance)}</td>
-                </tr>
-            `;
-        }).join('');
-
-        const htmlContent = `
-            <!DOCTYPE html>
-            <html lang="vi">
-            <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                <title>Sổ Kế Toán</title>
-                <style>
-                    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; margin: 2em; color: #333; }
-                    h1, h3 { color: #1a202c; }
-                    table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
-                    th, td { border: 1px solid #ddd; padding: 12px; text-align: left; }
-                    th { background-color: #f2f2f2; font-weight: bold; }
-                    tr:nth-child(even) { background-color: #f9f9f9; }
-                    tr:hover { background-color: #f1f1f1; }
-                    td:nth-child(8), td:nth-child(9), td:nth-child(10), td:nth-child(11), td:nth-child(12) { text-align: right; font-family: monospace; }
-                    tfoot tr { background-color: #f8fafc; font-weight: bold; }
-                </style>
-            </head>
-            <body>
-                <h1>Bảng Kê Kế Toán</h1>
-                <h3>Thông tin tài khoản</h3>
-                <p><strong>Tên tài khoản:</strong> ${accountInfo.accountName || 'N/A'}</p>
-                <p><strong>Số tài khoản:</strong> ${accountInfo.accountNumber || 'N/A'}</p>
-                <p><strong>Ngân hàng:</strong> ${accountInfo.bankName || 'N/A'}</p>
-                <p><strong>Chi nhánh:</strong> ${accountInfo.branch || 'N/A'}</p>
-                
-                <table>
-                    <thead>
-                        <tr>
-                            <th>Tên TK</th>
-                            <th>Số TK</th>
-                            <th>Ngân hàng</th>
-                            <th>Chi nhánh</th>
-                            <th>Mã GD</th>
-                            <th>Ngày</th>
-                            <th>Nội dung</th>
-                            <th>PS Nợ</th>
-                            <th>PS Có</th>
-                            <th>Phí</th>
-                            <th>Thuế VAT</th>
-                            <th>Số dư</th>
-                        </tr>
-                    </thead>
-                    <tbody>
-                        <tr style="font-weight: bold;">
-                            <td>${accountInfo.accountName || 'N/A'}</td>
-                            <td>${accountInfo.accountNumber || 'N/A'}</td>
-                            <td>${accountInfo.bankName || 'N/A'}</td>
-                            <td>${accountInfo.branch || 'N/A'}</td>
-                            <td colspan="7" style="text-align: center;">Số dư đầu kỳ</td>
-                            <td>${formatCurrency(openingBalance)}</td>
-                        </tr>
-                        ${tableRowsHtml}
-                    </tbody>
-                     <tfoot>
-                        <tr style="font-weight: bold; border-top: 2px solid #e2e8f0;">
-                            <td colspan="7" style="text-align: center;">Cộng phát sinh</td>
-                            <td style="text-align: right; color: green;">${formatCurrency(totalDebit)}</td>
-                            <td style="text-align: right; color: red;">${formatCurrency(totalCredit)}</td>
-                            <td style="text-align: right;">${formatCurrency(totalFee)}</td>
-                            <td style="text-align: right;">${formatCurrency(totalVat)}</td>
-                            <td style="text-align: right;">${formatCurrency(calculatedEndingBalance)}</td>
-                        </tr>
-                    </tfoot>
-                </table>
-            </body>
-            </html>
-        `;
-
-        const blob = new Blob([htmlContent], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        window.open(url, '_blank');
-    };
-
-
-    let currentBalance = openingBalance;
-    const editableCellClass = "px-1 py-1 bg-transparent text-right w-full focus:bg-white dark:focus:bg-gray-900 focus:ring-1 focus:ring-indigo-500 rounded";
-
-    return (
-        <div className="mt-8">
-            <h2 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-200">KẾT QUẢ ĐẦU RA</h2>
-            {balanceMismatchWarning && (
-                <div className="my-4 p-4 bg-yellow-100 dark:bg-yellow-900 border-l-4 border-yellow-500 text-yellow-700 dark:text-yellow-200 rounded-lg shadow-md">
-                    <p className="font-bold">Cảnh báo đối chiếu!</p>
-                    <p>{balanceMismatchWarning}</p>
-                </div>
-            )}
-            <div className="flex justify-end my-4 space-x-2">
-                <button onClick={handleCopy} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors">
-                    <CopyIcon /> {copySuccess || 'Copy Bảng'}
-                </button>
-                <button onClick={handleDownload} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
-                    <DownloadIcon /> Download CSV
-                </button>
-                <button onClick={handleOpenHtml} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors">
-                    <OpenHtmlIcon /> Mở HTML
-                </button>
-            </div>
-            <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow">
-                <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
-                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
-                        <tr>
-                            {["Tên TK", "Số TK", "Ngân hàng", "Chi nhánh", "Mã GD", "Ngày", "Nội dung", "PS Nợ", "PS Có", "Phí", "Thuế VAT", "Số dư"].map(header => (
-                                <th key={header} scope="col" className="px-6 py-3">{header}</th>
-                            ))}
-                        </tr>
-                    </thead>
-                    <tbody>
-                        <tr className="bg-white border-b dark:bg-gray-800 dark:border-gray-700 font-semibold">
-                            <td className="px-6 py-4">{accountInfo.accountName || 'N/A'}</td>
-                            <td className="px-6 py-4">{accountInfo.accountNumber || 'N/A'}</td>
-                            <td className="px-6 py-4">{accountInfo.bankName || 'N/A'}</td>
-                            <td className="px-6 py-4">{accountInfo.branch || 'N/A'}</td>
-                            <td colSpan={7} className="px-6 py-4 text-center">Số dư đầu kỳ</td>
-                            <td className="px-6 py-4 text-right">{formatCurrency(openingBalance)}</td>
-                        </tr>
-                        {transactions.map((tx, index) => {
-                            currentBalance = openingBalance + transactions.slice(0, index + 1).reduce((acc, currentTx) => acc + currentTx.debit - currentTx.credit - (currentTx.fee || 0) - (currentTx.vat || 0), 0);
-                            const isListening = (field: 'debit' | 'credit' | 'fee' | 'vat') => listeningFor?.index === index && listeningFor?.field === field;
-
-                            return (
-                                <tr key={index} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
-                                    <td className="px-6 py-4">{accountInfo.accountName || 'N/A'}</td>
-                                    <td className="px-6 py-4">{accountInfo.accountNumber || 'N/A'}</td>
-                                    <td className="px-6 py-4">{accountInfo.bankName || 'N/A'}</td>
-                                    <td className="px-6 py-4">{accountInfo.branch || 'N/A'}</td>
-                                    <td className="px-6 py-4">{tx.transactionCode || ''}</td>
-                                    <td className="px-6 py-4">{tx.date}</td>
-                                    <td className="px-6 py-4 max-w-xs truncate">{tx.description}</td>
-                                    <td className="px-6 py-4 text-right text-green-600 dark:text-green-400">
-                                        <div className="flex items-center justify-end space-x-2">
-                                            <input
-                                                type="text"
-                                                value={new Intl.NumberFormat('vi-VN').format(tx.debit)}
-                                                onChange={(e) => {
-                                                     const value = parseFloat(e.target.value.replace(/\./g, ''));
-                                                     onUpdateTransaction(index, 'debit', isNaN(value) ? 0 : value)
-                                                }}
-                                                className={editableCellClass}
-                                            />
-                                            <MicrophoneIcon isListening={isListening('debit')} onClick={() => handleVoiceInput(index, 'debit')} />
-                                        </div>
-                                    </td>
-                                    <td className="px-6 py-4 text-right text-red-600 dark:text-red-400">
-                                         <div className="flex items-center justify-end space-x-2">
-                                            <input
-                                                type="text"
-                                                value={new Intl.NumberFormat('vi-VN').format(tx.credit)}
-                                                onChange={(e) => {
-                                                     const value = parseFloat(e.target.value.replace(/\./g, ''));
-                                                     onUpdateTransaction(index, 'credit', isNaN(value) ? 0 : value)
-                                                }}
-                                                className={editableCellClass}
-                                            />
-                                            <MicrophoneIcon isListening={isListening('credit')} onClick={() => handleVoiceInput(index, 'credit')} />
-                                        </div>
-                                    </td>
-                                     <td className="px-6 py-4 text-right">
-                                         <div className="flex items-center justify-end space-x-2">
-                                            <input
-                                                type="text"
-                                                value={new Intl.NumberFormat('vi-VN').format(tx.fee || 0)}
-                                                onChange={(e) => {
-                                                     const value = parseFloat(e.target.value.replace(/\./g, ''));
-                                                     onUpdateTransaction(index, 'fee', isNaN(value) ? 0 : value)
-                                                }}
-                                                className={editableCellClass}
-                                            />
-                                            <MicrophoneIcon isListening={isListening('fee')} onClick={() => handleVoiceInput(index, 'fee')} />
-                                        </div>
-                                    </td>
-                                     <td className="px-6 py-4 text-right">
-                                         <div className="flex items-center justify-end space-x-2">
-                                            <input
-                                                type="text"
-                                                value={new Intl.NumberFormat('vi-VN').format(tx.vat || 0)}
-                                                onChange={(e) => {
-                                                     const value = parseFloat(e.target.value.replace(/\./g, ''));
-                                                     onUpdateTransaction(index, 'vat', isNaN(value) ? 0 : value)
-                                                }}
-                                                className={editableCellClass}
-                                            />
-                                            <MicrophoneIcon isListening={isListening('vat')} onClick={() => handleVoiceInput(index, 'vat')} />
-                                        </div>
-                                    </td>
-                                    <td className="px-6 py-4 text-right font-medium">{formatCurrency(currentBalance)}</td>
-                                </tr>
-                            );
-                        })}
-                    </tbody>
-                     <tfoot className="bg-gray-50 dark:bg-gray-700">
-                        <tr className="font-semibold text-gray-900 dark:text-white">
-                            <td colSpan={7} className="px-6 py-3 text-center text-base">Cộng phát sinh</td>
-                            <td className="px-6 py-3 text-right text-base text-green-600 dark:text-green-400">{formatCurrency(totalDebit)}</td>
-                            <td className="px-6 py-3 text-right text-base text-red-600 dark:text-red-400">{formatCurrency(totalCredit)}</td>
-                            <td className="px-6 py-3 text-right text-base">{formatCurrency(totalFee)}</td>
-                            <td className="px-6 py-3 text-right text-base">{formatCurrency(totalVat)}</td>
-                            <td className="px-6 py-3 text-right text-base font-bold">{formatCurrency(calculatedEndingBalance)}</td>
-                        </tr>
-                    </tfoot>
-                </table>
-            </div>
-        </div>
-    );
 };
 
-type LoadingState = 'idle' | 'extracting' | 'processing';
-
 export default function App() {
-    const [openingBalance, setOpeningBalance] = useState('');
-    const [statementContent, setStatementContent] = useState<string>(() => localStorage.getItem('statementContent') || '');
-    const [fileName, setFileName] = useState<string>(() => localStorage.getItem('fileName') || '');
+    const [statements, setStatements] = useState<WorkspaceStatement[]>(loadStoredStatements);
+    const [activeId, setActiveId] = useState<string | null>(() => statements[0]?.id ?? null);
     const [loadingState, setLoadingState] = useState<LoadingState>('idle');
     const [progress, setProgress] = useState(0);
+    const [progressLabel, setProgressLabel] = useState('');
+    const [retryingPage, setRetryingPage] = useState<number | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [result, setResult] = useState<GeminiResponse | null>(null);
-    const [balanceMismatchWarning, setBalanceMismatchWarning] = useState<string | null>(null);
-    const [history, setHistory] = useState<GeminiResponse[]>([]);
+    const [view, setView] = useState<View>('workspace');
+    const [reportView, setReportView] = useState<ReportView>('ledger');
+    const [showSource, setShowSource] = useState(false);
+    const [selectedRow, setSelectedRow] = useState<number | null>(null);
+    const [currentProject, setCurrentProject] = useState<OpenProject | null>(null);
+    const [saveStatus, setSaveStatus] = useState<string>('');
+    const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+    const [categoryRules, setCategoryRules] = useState<CategoryRule[]>(loadCategoryRules);
+    const [isCategorizing, setIsCategorizing] = useState(false);
+    const [counterpartyDirectory, setCounterpartyDirectory] = useState<CounterpartyEntry[]>(loadCounterpartyDirectory);
+    const [showDirectory, setShowDirectory] = useState(false);
+    const [showInvoices, setShowInvoices] = useState(false);
+    const [showChangeLog, setShowChangeLog] = useState(false);
+    const [showExchangeRates, setShowExchangeRates] = useState(false);
+    const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
     const progressInterval = useRef<number | null>(null);
+    const saveTimeout = useRef<number | null>(null);
 
     const isLoading = loadingState !== 'idle';
-    
-    useEffect(() => {
-        localStorage.setItem('fileName', fileName);
-    }, [fileName]);
+    const activeStatement = statements.find(s => s.id === activeId) ?? null;
+    const statementContent = activeStatement?.content ?? '';
+    const openingBalance = activeStatement?.openingBalance ?? '';
+    const result = activeStatement?.result ?? null;
+    const changes = activeStatement?.changes ?? [];
+    const redoStack = activeStatement?.redoStack ?? [];
+    const invoices = activeStatement?.invoices ?? [];
+    const currency = result?.accountInfo.currency || BASE_CURRENCY;
+
+    const invoiceMatchResult = useMemo(
+        () => matchInvoices(result?.transactions ?? [], invoices),
+        [result, invoices]
+    );
+    // The rows as the AI parsed them, rebuilt by undoing every logged change
+    const extractedTransactions = useMemo(
+        () => originalTransactions(result?.transactions ?? [], changes),
+        [result, changes]
+    );
+
+    // Foreign-currency statements are converted to VND; VND statements have no conversion
+    const conversion = useMemo(
+        () => (result && activeStatement && isForeignCurrency(currency)
+            ? convertStatement(
+                result.transactions,
+                currency,
+                parseFloat(openingBalance) || 0,
+                activeStatement.exchangeRates,
+                parseFloat(activeStatement.openingExchangeRate) || undefined,
+                parseFloat(activeStatement.closingExchangeRate) || undefined,
+            )
+            : null),
+        [result, activeStatement, currency, openingBalance]
+    );
+
+    const balanceMismatchWarning = useMemo(
+        () => (result ? getBalanceMismatchWarning(result, parseFloat(openingBalance) || 0) : null),
+        [result, openingBalance]
+    );
 
     useEffect(() => {
-        localStorage.setItem('statementContent', statementContent);
-    }, [statementContent]);
+        const stored = statements.map(({ id, fileName, content }) => ({ id, fileName, content }));
+        localStorage.setItem('workspaceStatements', JSON.stringify(stored));
+    }, [statements]);
 
     useEffect(() => {
         return () => {
             if (progressInterval.current) {
                 clearInterval(progressInterval.current);
             }
+            if (saveTimeout.current) {
+                clearTimeout(saveTimeout.current);
+            }
         };
     }, []);
+
+    const persistProject = useCallback(async (project: OpenProject, projectStatements: WorkspaceStatement[], projectActiveId: string | null) => {
+        try {
+            await saveProject({ ...project, statements: projectStatements, activeId: projectActiveId });
+            setSaveStatus(`Đã lưu lúc ${new Date().toLocaleTimeString('vi-VN')}`);
+        } catch (err) {
+            console.error("Error saving project:", err);
+            setSaveStatus('Lưu dự án thất bại');
+        }
+    }, []);
+
+    // Auto-save the open project shortly after every change
+    useEffect(() => {
+        if (!currentProject) return;
+        if (saveTimeout.current) clearTimeout(saveTimeout.current);
+        saveTimeout.current = window.setTimeout(() => {
+            persistProject(currentProject, statements, activeId);
+        }, 1000);
+    }, [currentProject, statements, activeId, persistProject]);
+
+    const handleOpenProject = useCallback(async (id: string) => {
+        try {
+            const project = await getProject(id);
+            if (!project) {
+                localStorage.removeItem('currentProjectId');
+                return;
+            }
+            // Projects saved before a field existed get its default
+            setStatements(project.statements.map(statement => {
+                // Snapshot-based undo history from older versions is dropped
+                const { history: _history, ...rest } = statement as WorkspaceStatement & { history?: unknown };
+                return { ...createStatement('', ''), ...rest };
+            }));
+            setActiveId(project.activeId ?? project.statements[0]?.id ?? null);
+            setCurrentProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+            localStorage.setItem('currentProjectId', project.id);
+            setSaveStatus('');
+            setView('workspace');
+        } catch (err) {
+            console.error("Error opening project:", err);
+            setError('Không thể mở dự án đã lưu.');
+        }
+    }, []);
+
+    // Reopen the last project after a reload
+    useEffect(() => {
+        const lastProjectId = localStorage.getItem('currentProjectId');
+        if (lastProjectId) {
+            handleOpenProject(lastProjectId);
+        }
+    }, [handleOpenProject]);
+
+    const handleSaveProject = async () => {
+        if (currentProject) {
+            await persistProject(currentProject, statements, activeId);
+            return;
+        }
+        const name = window.prompt('Tên dự án:', `Sao kê ${new Date().toLocaleDateString('vi-VN')}`);
+        if (!name) return;
+        try {
+            const saved = await saveProject({ name, statements, activeId });
+            setCurrentProject({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+            localStorage.setItem('currentProjectId', saved.id);
+            setSaveStatus(`Đã lưu lúc ${new Date(saved.updatedAt).toLocaleTimeString('vi-VN')}`);
+        } catch (err) {
+            console.error("Error saving project:", err);
+            setError('Không thể lưu dự án.');
+        }
+    };
+
+    const handleCloseProject = async () => {
+        if (currentProject) {
+            if (saveTimeout.current) clearTimeout(saveTimeout.current);
+            await persistProject(currentProject, statements, activeId);
+        }
+        setCurrentProject(null);
+        localStorage.removeItem('currentProjectId');
+        setStatements([]);
+        setActiveId(null);
+        setSaveStatus('');
+        setError(null);
+    };
+
+    const handleProjectDeleted = (id: string) => {
+        if (currentProject?.id === id) {
+            if (saveTimeout.current) clearTimeout(saveTimeout.current);
+            setCurrentProject(null);
+            localStorage.removeItem('currentProjectId');
+            setSaveStatus('');
+        }
+    };
+
+    // Row selection belongs to the statement it was made in
+    useEffect(() => {
+        setSelectedRow(null);
+    }, [activeId]);
+
+    const updateStatement = useCallback((id: string, updater: (statement: WorkspaceStatement) => WorkspaceStatement) => {
+        setStatements(prev => prev.map(s => (s.id === id ? updater(s) : s)));
+    }, []);
+
+    const updateActiveStatement = (updater: (statement: WorkspaceStatement) => WorkspaceStatement) => {
+        if (activeId) updateStatement(activeId, updater);
+    };
     
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const files = event.target.files;
         if (files && files.length > 0) {
-            setResult(null);
-            setStatementContent('');
-            setOpeningBalance('');
-            setBalanceMismatchWarning(null);
             setLoadingState('extracting');
             setError(null);
-            startProgress("Đang trích xuất văn bản từ file...");
-
-            const fileNames = Array.from(files).map((f: File) => f.name);
-            if (fileNames.length <= 3) {
-                setFileName(fileNames.join(', '));
-            } else {
-                setFileName(`${fileNames.length} tệp đã chọn`);
-            }
+            setProgress(0);
+            setProgressLabel('Đang đọc file...');
 
             try {
-                const extractionPromises = Array.from(files).map((file: File) => extractFromFile(file));
-                const results = await Promise.all(extractionPromises);
-                
-                const allTexts = results.map(r => r.text).filter(Boolean);
-                const allImages = results.flatMap(r => r.images);
-
-                let combinedText = allTexts.join('\n\n--- TÁCH BIỆT SAO KÊ ---\n\n');
+                const fileList: File[] = Array.from(files);
+                const sources = await Promise.all(fileList.map((file: File) => extractFromFile(file)));
+
+                // OCR runs one page per request; progress is reported across all uploaded pages
+                const totalPages = sources.reduce((sum, source) => sum + source.images.length, 0);
+                let pagesDone = 0;
+                const extracted: WorkspaceStatement[] = [];
+
+                for (let i = 0; i < fileList.length; i++) {
+                    const file = fileList[i];
+                    const { text, images } = sources[i];
+                    const pages = images.length > 0
+                        ? await ocrPages(images, ocrPageOnServer, (completed) => {
+                            const current = pagesDone + completed;
+                            setProgress((current / totalPages) * 100);
+                            setProgressLabel(`Trang ${current}/${totalPages}`);
+                        })
+                        : [];
+                    pagesDone += images.length;
+                    extracted.push(statementFromSource(file, text, pages));
+                }
 
-                if(allImages.length > 0) {
-                    const textFromImages = await extractTextFromContent({ images: allImages });
-                    combinedText += '\n\n' + textFromImages;
+                const failedPages = extracted.reduce((sum, s) => sum + s.ocrPages.filter(p => p.status === 'failed').length, 0);
+                if (failedPages > 0) {
+                    setError(`Có ${failedPages} trang chưa đọc được. Vui lòng thử lại từng trang trong phần nội dung sao kê.`);
                 }
 
-                setStatementContent(combinedText.trim());
+                setStatements(prev => [...prev, ...extracted]);
+                setActiveId(extracted[0].id);
 
             } catch (err) {
                 if (err instanceof Error) {
@@ -526,14 +343,31 @@ export default function App() {
                 } else {
                      setError(`Lỗi đọc file: ${String(err)}`);
                 }
-                setFileName('');
             } finally {
+                setProgressLabel('');
                 finishProgress();
                 setLoadingState('idle');
+                event.target.value = '';
             }
         }
     };
 
+    const handleRetryPage = async (page: OcrPage) => {
+        if (!activeStatement) return;
+        const statementId = activeStatement.id;
+        setRetryingPage(page.pageNumber);
+        try {
+            const retried = await retryOcrPage(page, ocrPageOnServer);
+            updateStatement(statementId, statement => ({
+                ...statement,
+                ocrPages: statement.ocrPages.map(p => (p.pageNumber === page.pageNumber ? retried : p)),
+                content: replacePageMarker(statement.content, page, retried),
+            }));
+        } finally {
+            setRetryingPage(null);
+        }
+    };
+
     const startProgress = (message: string) => {
         setProgress(0);
         if (progressInterval.current) clearInterval(progressInterval.current);
@@ -560,42 +394,137 @@ export default function App() {
         } , 500);
     };
 
+    const finalizeStatement = (statementId: string, data: GeminiResponse, parsedWithProfile: string | null) => {
+        const categorized = { ...data, transactions: assignCounterparties(categorizeTransactions(data.transactions, categoryRules), counterpartyDirectory) };
+        setStatements(prev => {
+            const processed: WorkspaceStatement = {
+                ...prev.find(s => s.id === statementId)!,
+                openingBalance: data.openingBalance?.toString() ?? '0',
+                result: categorized,
+                changes: [],
+                redoStack: [],
+                parsedWithProfile,
+            };
+            // A re-processed statement replaces any other entry for the same account and period
+            const key = getStatementKey(processed);
+            return prev
+                .filter(s => s.id === statementId || getStatementKey(s) !== key)
+                .map(s => (s.id === statementId ? processed : s));
+        });
+    };
+
+    const handleDuplicateReview = (dropIndexes: number[]) => {
+        if (!pendingReview) return;
+        const { statementId, data, parsedWithProfile } = pendingReview;
+        const dropped = new Set(dropIndexes);
+        const kept = { ...data, transactions: data.transactions.filter((_, i) => !dropped.has(i)) };
+        finalizeStatement(statementId, kept, parsedWithProfile);
+        setPendingReview(null);
+        // A batch file held back for duplicates now waits for the rest of its review
+        setBatchItems(prev => prev.map(item => {
+            if (item.statementId !== statementId || !item.pending) return item;
+            const statement = statements.find(s => s.id === statementId);
+            const reviewReasons = statement ? getReviewReasons({ ...statement, openingBalance: String(kept.openingBalance ?? 0), result: kept }) : [];
+            return { ...item, pending: undefined, reviewReasons };
+        }));
+    };
+
+    const updateBatchItem = (id: string, changes: Partial<BatchItem>) => {
+        setBatchItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    };
+
+    /**
+     * Runs files through OCR and processing one at a time (OCR already works
+     * on several pages in parallel). Clean statements are done straight away;
+     * anything with duplicates, balance or OCR problems waits for review.
+     */
+    const runBatch = async (items: BatchItem[]) => {
+        // Statements processed earlier in the run are checked for overlap like the ones already in the workspace
+        const known = statements.filter(s => s.result && !items.some(item => item.statementId === s.id));
+        const results = await runQueue(items, async item => {
+            if (item.statementId) {
+                const previousId = item.statementId;
+                setStatements(prev => prev.filter(s => s.id !== previousId));
+            }
+            updateBatchItem(item.id, { status: 'ocr', statementId: null, error: undefined, pending: undefined, reviewReasons: [] });
+            const { text, images } = await extractFromFile(item.file);
+            const statement = statementFromSource(item.file, text, images.length > 0 ? await ocrPages(images, ocrPageOnServer) : []);
+            setStatements(prev => [...prev, statement]);
+            updateBatchItem(item.id, { status: 'parsing', statementId: statement.id });
+            if (!statement.content) throw new Error('Không đọc được nội dung sao kê.');
+
+            const analysis = await analyzeStatement(statement, known);
+            const processed = { ...statement, openingBalance: String(analysis.data.openingBalance ?? 0), result: analysis.data };
+            if (analysis.candidates.length > 0) {
+                updateBatchItem(item.id, { status: 'review', pending: analysis, reviewReasons: getReviewReasons(processed) });
+                return;
+            }
+            finalizeStatement(statement.id, analysis.data, analysis.parsedWithProfile);
+            known.push(processed);
+            const reviewReasons = getReviewReasons(processed);
+            updateBatchItem(item.id, { status: reviewReasons.length > 0 ? 'review' : 'done', reviewReasons });
+        }, { concurrency: 1, maxRetries: 0 });
+
+        results.forEach((result, i) => {
+            if (result.status === 'failed') updateBatchItem(items[i].id, { status: 'failed', error: result.error });
+        });
+    };
+
+    const handleBatchFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length === 0) return;
+        const items = files.map(createBatchItem);
+        setError(null);
+        setBatchItems(prev => [...prev, ...items]);
+        runBatch(items);
+    };
+
+    const handleRetryBatchItem = (id: string) => {
+        const item = batchItems.find(i => i.id === id);
+        if (!item) return;
+        updateBatchItem(id, { status: 'queued', error: undefined });
+        runBatch([item]);
+    };
+
+    const handleOpenBatchItem = (item: BatchItem) => {
+        if (!item.statementId) return;
+        setActiveId(item.statementId);
+        if (item.pending) setPendingReview({ statementId: item.statementId, ...item.pending });
+    };
+
+    const handleNextBatchReview = () => {
+        const current = batchItems.find(item => item.statementId !== null && item.statementId === activeId);
+        const next = nextReviewItem(batchItems, current?.id ?? null);
+        if (next) handleOpenBatchItem(next);
+    };
+
+    const handleExportBatch = () => {
+        try {
+            const archive = buildBatchArchive(statements, batchItems, localStorage.getItem('exportProfile') || 'generic');
+            downloadFile(`sao_ke_${new Date().toISOString().slice(0, 10)}.zip`, archive, 'application/zip');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
     const handleSubmit = async () => {
-        if (!statementContent) {
+        if (!activeStatement || !statementContent) {
             setError('Không có nội dung sao kê để xử lý. Vui lòng upload file hoặc dán nội dung.');
             return;
         }
+        const statementId = activeStatement.id;
         setLoadingState('processing');
         setError(null);
-        setResult(null);
-        setBalanceMismatchWarning(null);
-        setHistory([]); // Reset history on new processing
         startProgress("AI đang phân tích nghiệp vụ...");
 
         try {
-            const data = await processStatement({ text: statementContent });
-            
-            setOpeningBalance(data.openingBalance?.toString() ?? '0');
-            setResult(data);
-            setHistory([data]); // Set initial state for undo
-
-            // Balance Cross-Check Logic
-            if (data.endingBalance !== undefined && data.endingBalance !== 0) {
-                const { totalDebit, totalCredit, totalFee, totalVat } = data.transactions.reduce((acc, tx) => {
-                    acc.totalDebit += tx.debit;
-                    acc.totalCredit += tx.credit;
-                    acc.totalFee += tx.fee || 0;
-                    acc.totalVat += tx.vat || 0;
-                    return acc;
-                }, { totalDebit: 0, totalCredit: 0, totalFee: 0, totalVat: 0 });
-
-                const openingBal = data.openingBalance || 0;
-                const calculatedEndingBalance = openingBal + totalDebit - totalCredit - totalFee - totalVat;
-                
-                // Use a small tolerance for floating point comparison
-                if (Math.abs(calculatedEndingBalance - data.endingBalance) > 1) { // Tolerance of 1 unit (e.g., 1 VND)
-                    setBalanceMismatchWarning(`Số dư cuối kỳ tính toán (${formatCurrency(calculatedEndingBalance)}) không khớp với số dư trên sao kê (${formatCurrency(data.endingBalance)}). Chênh lệch: ${formatCurrency(calculatedEndingBalance - data.endingBalance)}. Vui lòng rà soát lại các giao dịch.`);
-                }
+            const { data, parsedWithProfile, candidates } = await analyzeStatement(activeStatement, statements);
+
+            if (candidates.length > 0) {
+                setPendingReview({ statementId, data, parsedWithProfile, candidates });
+            } else {
+                finalizeStatement(statementId, data, parsedWithProfile);
             }
 
         } catch (err) {
@@ -609,92 +538,267 @@ export default function App() {
         }
     };
     
-    const handleTransactionUpdate = (index: number, field: 'debit' | 'credit' | 'fee' | 'vat', value: number) => {
-        if (!result) return;
-        
-        setHistory(prev => [...prev, result]); // Save current state before updating
-
-        const updatedTransactions = [...result.transactions];
-        const transactionToUpdate = { ...updatedTransactions[index] };
-
-        if (field === 'fee' || field === 'vat') {
-            (transactionToUpdate as any)[field] = value;
-        } else {
-            transactionToUpdate[field] = value;
+    /**
+     * Applies one edit to the active statement as a single undoable step.
+     * Categories and counterparties are re-derived so edited descriptions and
+     * inserted rows are treated like freshly processed ones.
+     */
+    const handleApplyOperation = (operation: TransactionOperation, source: ChangeSource = 'manual') => {
+        if (!activeStatement?.result) return;
+        const problem = validateOperation(activeStatement.result.transactions, operation);
+        if (problem) {
+            setError(problem);
+            return;
         }
-        
-        updatedTransactions[index] = transactionToUpdate;
-
-        setResult({ ...result, transactions: updatedTransactions });
-    };
-
-    const handleTransactionAdd = (transaction: Transaction) => {
-        if (!result) return;
-        setHistory(prev => [...prev, result]); // Save current state before adding
-        
-        const newTransaction = {
-            transactionCode: transaction.transactionCode || '',
-            date: transaction.date || new Date().toLocaleDateString('vi-VN'),
-            description: transaction.description || 'Giao dịch mới',
-            debit: transaction.debit || 0,
-            credit: transaction.credit || 0,
-            fee: transaction.fee || 0,
-            vat: transaction.vat || 0,
+        updateStatement(activeStatement.id, statement => {
+            if (!statement.result) return statement;
+            const transactions = applyOperation(statement.result.transactions, operation);
+            return withChange(statement, assignCounterparties(categorizeTransactions(transactions, categoryRules), counterpartyDirectory), {
+                source,
+                label: describeOperation(operation, statement.result.transactions),
+                coalesceKey: coalesceKeyFor(operation, source),
+            });
+        });
+        if (operation.type === 'move') setSelectedRow(operation.to);
+    };
+
+    const handleConfirmField = (index: number, field: ConfidenceField) => {
+        handleApplyOperation({ type: 'verify', index, field });
+    };
+
+    const handleApplyFix = (index: number, changes: BalanceFix['changes']) => {
+        handleApplyOperation({ type: 'update', index, changes });
+    };
+
+    // Rows re-derived from edited rules are logged in every statement, so the edit can be undone there
+    const rederiveAll = (label: string, derive: (transactions: Transaction[]) => Transaction[]) => {
+        setStatements(prev => prev.map(statement => (statement.result
+            ? withChange(statement, derive(statement.result.transactions), { source: 'rules', label, coalesceKey: label })
+            : statement)));
+    };
+
+    // Rule edits re-run categorization everywhere; manual choices are kept
+    const handleCategoryRulesChange = (rules: CategoryRule[]) => {
+        setCategoryRules(rules);
+        saveCategoryRules(rules);
+        rederiveAll('Phân loại lại theo quy tắc nhóm', transactions => categorizeTransactions(transactions, rules));
+    };
+
+    // Directory edits re-assign customer/supplier codes in every statement
+    const handleDirectoryChange = (entries: CounterpartyEntry[]) => {
+        setCounterpartyDirectory(entries);
+        saveCounterpartyDirectory(entries);
+        rederiveAll('Cập nhật đối tượng theo danh bạ', transactions => assignCounterparties(transactions, entries));
+    };
+
+    // A manual choice is remembered and immediately applied to similar rows
+    const handleCategoryUpdate = (index: number, category: string) => {
+        const description = activeStatement?.result?.transactions[index]?.description;
+        if (category && description) learnCategory(description, category);
+        handleApplyOperation({ type: 'update', index, changes: { category } });
+    };
+
+    const handleCategorizeWithAI = async () => {
+        if (!activeStatement?.result) return;
+        const statementId = activeStatement.id;
+        const items = activeStatement.result.transactions
+            .map((tx, index) => ({ index, description: tx.description, direction: (tx.debit > 0 ? 'in' : 'out') as 'in' | 'out', category: tx.category }))
+            .filter(item => !item.category)
+            .map(({ category, ...item }) => item);
+
+        setIsCategorizing(true);
+        setError(null);
+        try {
+            const answers = await categorizeWithAI(items, getCategories(categoryRules));
+            updateStatement(statementId, statement => {
+                if (!statement.result) return statement;
+                const transactions = [...statement.result.transactions];
+                answers.forEach(({ index, category }) => {
+                    // Skip rows categorized in the meantime
+                    if (transactions[index] && !transactions[index].category) {
+                        transactions[index] = { ...transactions[index], category, categorySource: 'ai' };
+                    }
+                });
+                return withChange(statement, transactions, { source: 'ai', label: `Phân loại ${answers.length} giao dịch bằng AI` });
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsCategorizing(false);
+        }
+    };
+
+    // Invoices are kept per statement and added to the existing list
+    const handleInvoiceImport = async (files: File[], kind: InvoiceKind) => {
+        if (!activeStatement) return;
+        const statementId = activeStatement.id;
+        setError(null);
+        try {
+            const imported = (await Promise.all(files.map(file => importInvoiceFile(file, kind)))).flat();
+            if (imported.length === 0) {
+                setError('Không đọc được hóa đơn nào từ file đã chọn.');
+                return;
+            }
+            updateStatement(statementId, statement => ({ ...statement, invoices: [...statement.invoices, ...imported] }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleLedgerImport = async (file: File) => {
+        if (!activeStatement) return;
+        const statementId = activeStatement.id;
+        setError(null);
+        try {
+            const { entries, openingBalance: bookOpening } = await importLedgerFile(file);
+            if (entries.length === 0) {
+                setError('Không đọc được bút toán nào từ sổ TK 112 đã chọn.');
+                return;
+            }
+            updateStatement(statementId, statement => ({
+                ...statement,
+                ledgerEntries: entries,
+                bookOpeningBalance: bookOpening !== null ? String(bookOpening) : statement.bookOpeningBalance,
+            }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    // Imported rates replace the earlier table for the same currency
+    const handleExchangeRateImport = async (file: File) => {
+        if (!activeStatement) return;
+        const statementId = activeStatement.id;
+        setError(null);
+        try {
+            const imported = await importExchangeRateFile(file, currency);
+            if (imported.length === 0) {
+                setError('Không đọc được tỷ giá nào từ file đã chọn.');
+                return;
+            }
+            const importedCurrencies = new Set(imported.map(rate => rate.currency));
+            updateStatement(statementId, statement => ({
+                ...statement,
+                exchangeRates: [...statement.exchangeRates.filter(rate => !importedCurrencies.has(rate.currency)), ...imported],
+            }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleCurrencyChange = (value: string) => {
+        updateActiveStatement(statement => statement.result
+            ? { ...statement, result: { ...statement.result, accountInfo: { ...statement.result.accountInfo, currency: value } } }
+            : statement);
+    };
+
+    const handleUndo = () => {
+        updateActiveStatement(statement => {
+            const last = statement.changes[statement.changes.length - 1];
+            if (!statement.result || !last) return statement;
+            return {
+                ...statement,
+                result: { ...statement.result, transactions: revertPatch(statement.result.transactions, last.patch) },
+                changes: statement.changes.slice(0, -1),
+                redoStack: [...statement.redoStack, last],
+            };
+        });
+    };
+
+    const handleRedo = () => {
+        updateActiveStatement(statement => {
+            const next = statement.redoStack[statement.redoStack.length - 1];
+            if (!statement.result || !next) return statement;
+            return {
+                ...statement,
+                result: { ...statement.result, transactions: applyPatch(statement.result.transactions, next.patch) },
+                changes: [...statement.changes, next],
+                redoStack: statement.redoStack.slice(0, -1),
+            };
+        });
+    };
+
+    // Reverting an older change is itself logged, so it can be undone like any other
+    const handleRevertChange = (id: string) => {
+        const change = changes.find(c => c.id === id);
+        if (!activeStatement?.result || !change) return;
+        const reverted = revertChange(activeStatement.result.transactions, change);
+        if (!reverted) {
+            setError('Không thể hoàn tác riêng thay đổi này vì các dòng liên quan đã được sửa tiếp sau đó. Hãy hoàn tác các thay đổi sau trước.');
+            return;
+        }
+        updateActiveStatement(statement => withChange(statement, reverted, { source: 'manual', label: `Hoàn tác: ${change.label}`, reverts: change.id }));
+    };
+
+    // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z). Table cells save on every keystroke, so they use the
+    // app's undo; other text boxes keep the browser's own.
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+            const target = event.target as HTMLElement;
+            if (target.closest('input, textarea, [contenteditable="true"]') && !target.closest('[data-undo-scope]')) return;
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                handleUndo();
+            } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+                event.preventDefault();
+                handleRedo();
+            }
         };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [activeId]);
+
+    const handleRemoveStatement = (id: string) => {
+        const remaining = statements.filter(s => s.id !== id);
+        setStatements(remaining);
+        if (id === activeId) {
+            setActiveId(remaining[0]?.id ?? null);
+        }
+    };
 
-        const updatedTransactions = [...result.transactions, newTransaction];
-        setResult({ ...result, transactions: updatedTransactions });
+    const handleContentChange = (content: string) => {
+        if (activeStatement) {
+            updateActiveStatement(statement => ({ ...statement, content }));
+            return;
+        }
+        // Typing or pasting without an uploaded file starts a new statement
+        const statement = createStatement('', content);
+        setStatements(prev => [...prev, statement]);
+        setActiveId(statement.id);
     };
 
-    const handleUndoLastChange = () => {
-        if (history.length <= 1) return; // Don't undo the initial state
+    const setChatMessages = (statementId: string) => (updater: (prev: ChatMessage[]) => ChatMessage[]) => {
+        updateStatement(statementId, statement => ({ ...statement, chatMessages: updater(statement.chatMessages) }));
+    };
 
-        const lastState = history[history.length - 1];
-        setResult(lastState);
-        setHistory(prev => prev.slice(0, -1));
+    const handleNewStatement = () => {
+        const statement = createStatement('', '');
+        setStatements(prev => [...prev, statement]);
+        setActiveId(statement.id);
     };
 
 
     const getLoadingMessage = () => {
         switch(loadingState) {
-            case 'extracting': return `Đang trích xuất văn bản... ${Math.round(progress)}%`;
+            case 'extracting': return `Đang trích xuất văn bản... ${progressLabel || `${Math.round(progress)}%`}`;
             case 'processing': return `AI đang phân tích... ${Math.round(progress)}%`;
             default: return '';
         }
     }
-    
-    // Recalculate warning on data change
-    useEffect(() => {
-        if (!result) {
-            setBalanceMismatchWarning(null);
-            return;
-        };
-
-        const { openingBalance: openingBal, endingBalance: extractedEndingBalance, transactions } = result;
-        
-        if (extractedEndingBalance !== undefined && extractedEndingBalance !== 0) {
-            const { totalDebit, totalCredit, totalFee, totalVat } = transactions.reduce((acc, tx) => {
-                acc.totalDebit += tx.debit;
-                acc.totalCredit += tx.credit;
-                acc.totalFee += tx.fee || 0;
-                acc.totalVat += tx.vat || 0;
-                return acc;
-            }, { totalDebit: 0, totalCredit: 0, totalFee: 0, totalVat: 0 });
-
-            const calculatedEndingBalance = (parseFloat(openingBalance) || 0) + totalDebit - totalCredit - totalFee - totalVat;
-
-            if (Math.abs(calculatedEndingBalance - extractedEndingBalance) > 1) {
-                setBalanceMismatchWarning(`Số dư cuối kỳ tính toán (${formatCurrency(calculatedEndingBalance)}) không khớp với số dư trên sao kê (${formatCurrency(extractedEndingBalance)}). Chênh lệch: ${formatCurrency(calculatedEndingBalance - extractedEndingBalance)}. Vui lòng rà soát lại các giao dịch.`);
-            } else {
-                setBalanceMismatchWarning(null);
-            }
-        }
-
-    }, [result, openingBalance]);
 
     return (
         <div className="min-h-screen text-gray-800 dark:text-gray-200 p-4 sm:p-6 lg:p-8">
             <div className="max-w-7xl mx-auto">
+                {pendingReview && (
+                    <DuplicateReviewDialog
+                        transactions={pendingReview.data.transactions}
+                        candidates={pendingReview.candidates}
+                        onConfirm={handleDuplicateReview}
+                        onCancel={() => handleDuplicateReview([])}
+                    />
+                )}
                 <header className="text-center mb-8">
                     <h1 className="text-3xl sm:text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-500 to-teal-400">
                         Chuyển Đổi Sổ Phụ Ngân Hàng Thành Sổ Kế Toán
@@ -702,8 +806,74 @@ export default function App() {
                     <p className="mt-2 text-gray-600 dark:text-gray-400">
                         Upload sao kê, kiểm tra số dư và nhận ngay bảng dữ liệu theo chuẩn kế toán.
                     </p>
+                    <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+                        {currentProject && (
+                            <span className="px-3 py-1 rounded-full bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-200">
+                                Dự án: <b>{currentProject.name}</b>{saveStatus && ` · ${saveStatus}`}
+                            </span>
+                        )}
+                        <button onClick={handleSaveProject} disabled={isLoading || statements.length === 0} className="px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50">
+                            Lưu dự án
+                        </button>
+                        <button onClick={() => setView('projects')} disabled={isLoading} className="px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50">
+                            Mở dự án
+                        </button>
+                        <button onClick={handleCloseProject} disabled={isLoading || (!currentProject && statements.length === 0)} className="px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50">
+                            Đóng
+                        </button>
+                        <button onClick={() => setView('settings')} disabled={isLoading} className="px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50">
+                            Cài đặt AI
+                        </button>
+                    </div>
                 </header>
 
+                {view === 'projects' ? (
+                    <ProjectList
+                        currentProjectId={currentProject?.id ?? null}
+                        onOpen={handleOpenProject}
+                        onClose={() => setView('workspace')}
+                        onDeleted={handleProjectDeleted}
+                    />
+                ) : view === 'settings' ? (
+                    <AISettingsPanel onClose={() => setView('workspace')} />
+                ) : (
+                <>
+
+                <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+                  <div className="lg:col-span-1 space-y-3">
+                    <StatementSidebar
+                        statements={statements}
+                        activeId={activeId}
+                        onSelect={setActiveId}
+                        onRemove={handleRemoveStatement}
+                    />
+                    <button
+                        onClick={handleNewStatement}
+                        disabled={isLoading}
+                        className="w-full px-4 py-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 border border-indigo-300 dark:border-indigo-700 rounded-lg hover:bg-indigo-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                    >
+                        + Dán sao kê mới
+                    </button>
+                    <label className={`block w-full px-4 py-2 text-sm font-medium text-center text-indigo-600 dark:text-indigo-400 border border-indigo-300 dark:border-indigo-700 rounded-lg hover:bg-indigo-50 dark:hover:bg-gray-700 ${isLoading || isBatchRunning(batchItems) ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                        Xử lý hàng loạt nhiều file
+                        <input type="file" className="sr-only" onChange={handleBatchFiles} accept=".pdf,.docx,.xlsx,.csv,.txt,.png,.jpg,.jpeg,.bmp" multiple />
+                    </label>
+                    {batchItems.length > 0 && (
+                        <BatchPanel
+                            items={batchItems}
+                            statements={statements}
+                            activeId={activeId}
+                            onOpen={handleOpenBatchItem}
+                            onNextReview={handleNextBatchReview}
+                            onMarkDone={(id) => updateBatchItem(id, { status: 'done' })}
+                            onRetry={handleRetryBatchItem}
+                            onExport={handleExportBatch}
+                            onClear={() => setBatchItems([])}
+                        />
+                    )}
+                  </div>
+
+                  <div className="lg:col-span-3">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                     <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg">
                         <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-gray-200">THÔNG TIN ĐẦU VÀO</h2>
@@ -715,8 +885,8 @@ export default function App() {
                                 </label>
                                 <label htmlFor="file-upload" className="relative cursor-pointer bg-white dark:bg-gray-700 rounded-md font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-indigo-500 border border-gray-300 dark:border-gray-600 flex items-center justify-center p-4">
                                     <UploadIcon/>
-                                    <span>{fileName || 'Chọn tệp (.pdf, .png, .jpg...)'}</span>
-                                    <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept=".pdf,.docx,.xlsx,.txt,.png,.jpg,.jpeg,.bmp" multiple/>
+                                    <span>{activeStatement?.fileName || 'Chọn tệp (.pdf, .png, .jpg...)'}</span>
+                                    <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept=".pdf,.docx,.xlsx,.csv,.txt,.png,.jpg,.jpeg,.bmp" multiple/>
                                 </label>
                             </div>
                             
@@ -728,26 +898,39 @@ export default function App() {
                                     id="statementContent"
                                     rows={8}
                                     value={statementContent}
-                                    onChange={(e) => setStatementContent(e.target.value)}
+                                    onChange={(e) => handleContentChange(e.target.value)}
                                     placeholder="Nội dung văn bản từ file của bạn sẽ hiện ở đây sau khi upload..."
                                     className="w-full px-3 py-2 text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
                                 />
+                                {activeStatement && activeStatement.ocrPages.some(page => page.status === 'failed') && (
+                                    <div className="mt-2 p-3 bg-yellow-50 dark:bg-yellow-900 border-l-4 border-yellow-500 rounded text-sm text-yellow-800 dark:text-yellow-200">
+                                        <p className="font-semibold mb-1">Một số trang chưa đọc được:</p>
+                                        <ul className="space-y-1">
+                                            {activeStatement.ocrPages.filter(page => page.status === 'failed').map(page => (
+                                                <li key={page.pageNumber} className="flex items-center justify-between">
+                                                    <span>Trang {page.pageNumber}: {page.error}</span>
+                                                    <button
+                                                        onClick={() => handleRetryPage(page)}
+                                                        disabled={retryingPage !== null}
+                                                        className="ml-2 px-2 py-0.5 text-xs font-medium text-white bg-yellow-600 rounded hover:bg-yellow-700 disabled:opacity-50"
+                                                    >
+                                                        {retryingPage === page.pageNumber ? 'Đang thử lại...' : 'Thử lại'}
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
                             </div>
 
                              <div className="mt-4">
                                 <label htmlFor="openingBalance" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                                     3. Số dư đầu kỳ (AI sẽ tự động điền hoặc bạn có thể sửa)
                                 </label>
-                                <input
-                                    type="text"
+                                <AmountInput
                                     id="openingBalance"
-                                    value={openingBalance ? new Intl.NumberFormat('vi-VN').format(parseFloat(openingBalance.replace(/\./g, ''))) : ''}
-                                    onChange={(e) => {
-                                        const value = e.target.value.replace(/\./g, '');
-                                        if (!isNaN(parseFloat(value)) || value === '') {
-                                            setOpeningBalance(value);
-                                        }
-                                    }}
+                                    value={parseFloat(openingBalance) || 0}
+                                    onChange={(value) => updateActiveStatement(statement => ({ ...statement, openingBalance: String(value) }))}
                                     placeholder="Nhập hoặc chỉnh sửa số dư đầu kỳ..."
                                     className="w-full px-3 py-2 text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
                                 />
@@ -804,6 +987,8 @@ export default function App() {
                         </ul>
                     </div>
                 </div>
+                  </div>
+                </div>
 
                 {error && (
                     <div className="mt-8 p-4 bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 rounded-lg">
@@ -814,22 +999,159 @@ export default function App() {
                 
                 {result && (
                   <>
-                    <ResultTable 
-                        accountInfo={result.accountInfo} 
-                        transactions={result.transactions} 
-                        openingBalance={parseFloat(openingBalance) || 0}
-                        onUpdateTransaction={handleTransactionUpdate}
-                        balanceMismatchWarning={balanceMismatchWarning}
-                    />
+                    {activeStatement?.parsedWithProfile && (
+                        <p className="mt-8 text-sm text-center text-gray-600 dark:text-gray-400">
+                            Đã đọc trực tiếp theo mẫu sao kê <b>{activeStatement.parsedWithProfile}</b> (không cần AI).
+                        </p>
+                    )}
+                    <div className="mt-8 flex justify-center">
+                        <div className="inline-flex rounded-lg shadow-sm" role="group">
+                            {([['ledger', 'Sổ ngân hàng'], ['journal', 'Bút toán'], ['reconciliation', 'Đối chiếu TK 112'], ['comparison', 'So sánh bản gốc']] as [ReportView, string][]).map(([value, label], i, views) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setReportView(value)}
+                                    className={`px-4 py-2 text-sm font-medium border border-gray-300 dark:border-gray-600 ${i === 0 ? 'rounded-l-lg' : i === views.length - 1 ? 'rounded-r-lg' : ''} ${reportView === value ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => setShowSource(!showSource)}
+                            className={`ml-3 px-4 py-2 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 ${showSource ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                        >
+                            Xem sao kê gốc
+                        </button>
+                        <button
+                            onClick={() => setShowDirectory(!showDirectory)}
+                            className={`ml-3 px-4 py-2 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 ${showDirectory ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                        >
+                            Danh bạ đối tác ({counterpartyDirectory.length})
+                        </button>
+                        <button
+                            onClick={() => setShowInvoices(!showInvoices)}
+                            className={`ml-3 px-4 py-2 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 ${showInvoices ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                        >
+                            Đối chiếu hóa đơn ({invoices.length})
+                        </button>
+                        <button
+                            onClick={() => setShowChangeLog(!showChangeLog)}
+                            className={`ml-3 px-4 py-2 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 ${showChangeLog ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                        >
+                            Lịch sử thay đổi ({changes.length})
+                        </button>
+                        <button
+                            onClick={() => setShowExchangeRates(!showExchangeRates)}
+                            className={`ml-3 px-4 py-2 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 ${showExchangeRates ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                        >
+                            Tỷ giá ({currency})
+                        </button>
+                    </div>
+                    {showDirectory && (
+                        <CounterpartyDirectory entries={counterpartyDirectory} transactions={result.transactions} onChange={handleDirectoryChange} />
+                    )}
+                    {showInvoices && (
+                        <InvoicePanel
+                            invoices={invoices}
+                            matchResult={invoiceMatchResult}
+                            transactions={result.transactions}
+                            onImport={handleInvoiceImport}
+                            onClear={() => updateActiveStatement(statement => ({ ...statement, invoices: [] }))}
+                            onSelectRow={setSelectedRow}
+                        />
+                    )}
+                    {showExchangeRates && activeStatement && (
+                        <ExchangeRatePanel
+                            currency={currency}
+                            rates={activeStatement.exchangeRates}
+                            openingRate={activeStatement.openingExchangeRate}
+                            closingRate={activeStatement.closingExchangeRate}
+                            conversion={conversion}
+                            transactions={result.transactions}
+                            onCurrencyChange={handleCurrencyChange}
+                            onImport={handleExchangeRateImport}
+                            onClear={() => updateActiveStatement(statement => ({ ...statement, exchangeRates: [] }))}
+                            onOpeningRateChange={(value) => updateActiveStatement(statement => ({ ...statement, openingExchangeRate: value }))}
+                            onClosingRateChange={(value) => updateActiveStatement(statement => ({ ...statement, closingExchangeRate: value }))}
+                            onSelectRow={setSelectedRow}
+                        />
+                    )}
+                    <div className={showSource ? 'grid grid-cols-1 xl:grid-cols-2 gap-4 items-start' : ''}>
+                    <div className="min-w-0">
+                    {reportView === 'ledger' ? (
+                        <ResultTable 
+                            key={activeId}
+                            accountInfo={result.accountInfo} 
+                            transactions={result.transactions} 
+                            openingBalance={parseFloat(openingBalance) || 0}
+                            endingBalance={result.endingBalance}
+                            onApplyOperation={handleApplyOperation}
+                            balanceMismatchWarning={balanceMismatchWarning}
+                            selectedIndex={selectedRow}
+                            onSelectRow={setSelectedRow}
+                            onConfirmField={handleConfirmField}
+                            onApplyFix={handleApplyFix}
+                            categoryRules={categoryRules}
+                            onCategoryRulesChange={handleCategoryRulesChange}
+                            onUpdateCategory={handleCategoryUpdate}
+                            onCategorizeWithAI={handleCategorizeWithAI}
+                            isCategorizing={isCategorizing}
+                            invoices={invoices}
+                            invoiceMatches={invoiceMatchResult.matches}
+                            conversion={conversion}
+                        />
+                    ) : reportView === 'journal' ? (
+                        <JournalView transactions={result.transactions} conversion={conversion} />
+                    ) : reportView === 'comparison' ? (
+                        <ReportDiffView accountInfo={result.accountInfo} original={extractedTransactions} current={result.transactions} />
+                    ) : (
+                        <BankReconciliationView
+                            key={activeId}
+                            accountInfo={result.accountInfo}
+                            transactions={result.transactions}
+                            openingBalance={parseFloat(openingBalance) || 0}
+                            entries={activeStatement!.ledgerEntries}
+                            bookOpeningBalance={activeStatement!.bookOpeningBalance}
+                            onImport={handleLedgerImport}
+                            onBookOpeningBalanceChange={(value) => updateActiveStatement(statement => ({ ...statement, bookOpeningBalance: value }))}
+                            onClear={() => updateActiveStatement(statement => ({ ...statement, ledgerEntries: [] }))}
+                        />
+                    )}
+                    </div>
+                    {showSource && activeStatement && (
+                        <div className="mt-8 xl:sticky xl:top-4">
+                            <SourceViewer
+                                key={activeId}
+                                pages={getSourcePages(activeStatement)}
+                                selected={selectedRow !== null ? result.transactions[selectedRow]?.source ?? null : null}
+                                onClose={() => setShowSource(false)}
+                            />
+                        </div>
+                    )}
+                    </div>
+                    {showChangeLog && (
+                        <ChangeLog
+                            changes={changes}
+                            redoCount={redoStack.length}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                            onRevert={handleRevertChange}
+                            onClose={() => setShowChangeLog(false)}
+                        />
+                    )}
                     <ChatAssistant 
+                        key={activeId}
                         reportData={result}
                         rawStatementContent={statementContent}
-                        onUpdateTransaction={handleTransactionUpdate}
-                        onUndoLastChange={handleUndoLastChange}
-                        onTransactionAdd={handleTransactionAdd}
+                        onApplyOperation={handleApplyOperation}
+                        onUndoLastChange={handleUndo}
+                        messages={activeStatement!.chatMessages}
+                        setMessages={setChatMessages(activeStatement!.id)}
                     />
                   </>
                 )}
+                </>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,151 @@
+import { existsSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import * as XLSX from 'xlsx';
+import mammoth from 'mammoth';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js';
+import {
+    registerLibraries,
+    createAIProvider,
+    readAIEnvironment,
+    isAIProviderId,
+    convertDocument,
+    extractDocument,
+    renderExport,
+    outputTypeFor,
+    parseExchangeRateTable,
+    EXPORT_PROFILES,
+    type AIProvider,
+    type ExchangeRate,
+    type SourceDocument,
+} from '../core';
+import { parseVnAmount } from '../utils/amount';
+import { formatCurrency } from '../utils/format';
+
+/**
+ * statement-convert: converts one bank statement to a ledger file without the
+ * web app. Exit codes: 0 converted, 1 error, 2 converted but (with --strict)
+ * the balances do not reconcile or some pages could not be read.
+ */
+
+const USAGE = `Cách dùng: statement-convert <sao_ke> [tùy chọn]
+
+  <sao_ke>                   Tệp sao kê: .pdf, .png, .jpg, .docx, .xlsx, .csv, .txt
+
+Tùy chọn:
+  -f, --format <mẫu>         Mẫu xuất: ${EXPORT_PROFILES.map(profile => profile.id).join(', ')} (mặc định: generic)
+  -o, --out <tệp>            Tệp kết quả, .xlsx hoặc .csv (mặc định: tên sao kê + .xlsx)
+      --opening-balance <số> Số dư đầu kỳ, thay cho số đọc được từ sao kê
+      --rates <tệp>          Bảng tỷ giá (.xlsx/.csv) cho sao kê ngoại tệ
+      --ai <nhà cung cấp>    gemini (cần GEMINI_API_KEY), openai (cần OPENAI_BASE_URL) hoặc mock
+                             (mặc định: AI_PROVIDER hoặc gemini)
+      --model <tên>          Mô hình AI (mặc định: AI_MODEL hoặc mô hình mặc định của nhà cung cấp)
+      --fixture <tệp.json>   Dữ liệu trả lời cho --ai mock: { "extractText"?, "parseStatement"?, ... }
+      --strict               Thoát với mã 2 nếu số dư không khớp hoặc có trang lỗi OCR
+  -h, --help                 Hiện hướng dẫn này
+`;
+
+class UsageError extends Error {}
+
+const readSource = async (path: string): Promise<SourceDocument> => {
+    const buffer = await readFile(path);
+    const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+    return { name: basename(path), type: '', data };
+};
+
+const parseCommandLine = (argv: string[]) => {
+    try {
+        return parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                format: { type: 'string', short: 'f', default: 'generic' },
+                out: { type: 'string', short: 'o' },
+                'opening-balance': { type: 'string' },
+                rates: { type: 'string' },
+                ai: { type: 'string', default: process.env.AI_PROVIDER || 'gemini' },
+                model: { type: 'string', default: process.env.AI_MODEL || '' },
+                fixture: { type: 'string' },
+                strict: { type: 'boolean', default: false },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        });
+    } catch (error) {
+        // Node's message names the option, e.g. "Unknown option '--bogus'"
+        throw new UsageError(`Tham số không hợp lệ: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+    const { values, positionals } = parseCommandLine(argv);
+
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return 0;
+    }
+    if (positionals.length !== 1) throw new UsageError('Cần đúng một tệp sao kê.');
+    if (!EXPORT_PROFILES.some(profile => profile.id === values.format)) {
+        throw new UsageError(`Mẫu xuất không hợp lệ: ${values.format}`);
+    }
+
+    let openingBalance: number | undefined;
+    if (values['opening-balance'] !== undefined) {
+        const parsed = parseVnAmount(values['opening-balance']);
+        if (parsed === null) throw new UsageError(`Số dư đầu kỳ không hợp lệ: ${values['opening-balance']}`);
+        openingBalance = parsed;
+    }
+
+    const provider = values.ai;
+    if (!isAIProviderId(provider)) throw new UsageError(`Nhà cung cấp AI không hợp lệ: ${provider}`);
+    const mockFixture = values.fixture ? JSON.parse(await readFile(values.fixture, 'utf8')) : undefined;
+    // Created on first use: bank exports read by a profile need no AI key
+    let ai: AIProvider | null = null;
+    const getAI = () => (ai ??= createAIProvider({ provider, model: values.model }, { ...readAIEnvironment(process.env), mockFixture }));
+
+    registerLibraries({ XLSX, pdfjsLib, mammoth });
+    const inputPath = positionals[0];
+    const outPath = values.out ?? inputPath.replace(/\.[^./\\]+$/, '') + '.xlsx';
+
+    const result = await convertDocument(await readSource(inputPath), {
+        ai: getAI,
+        openingBalance,
+        onProgress: message => process.stderr.write(message + '\n'),
+    });
+    const { accountInfo, transactions, endingBalance } = result.data;
+
+    let exchangeRates: ExchangeRate[] = [];
+    if (values.rates) {
+        const { text } = await extractDocument(await readSource(values.rates));
+        exchangeRates = parseExchangeRateTable(text ?? '', accountInfo.currency || 'USD');
+    }
+
+    const output = renderExport(
+        { accountInfo, transactions, openingBalance: result.openingBalance, endingBalance, exchangeRates },
+        values.format,
+        outputTypeFor(outPath)
+    );
+    await writeFile(outPath, output);
+
+    const source = result.parsedWithProfile ? `mẫu sao kê ${result.parsedWithProfile}` : `AI (${getAI().name})`;
+    process.stderr.write(`Đã ghi ${transactions.length} giao dịch vào ${outPath} (đọc bằng ${source}).\n`);
+    process.stderr.write(`Số dư đầu kỳ ${formatCurrency(result.openingBalance)}, cuối kỳ ${formatCurrency(endingBalance)}.\n`);
+
+    const problems: string[] = [];
+    if (result.balanceWarning) problems.push(result.balanceWarning);
+    if (result.balanceBreaks.length > 0) problems.push(`${result.balanceBreaks.length} dòng có số dư không liền mạch.`);
+    if (result.failedPages > 0) problems.push(`${result.failedPages} trang OCR lỗi.`);
+    problems.forEach(problem => process.stderr.write(`Cảnh báo: ${problem}\n`));
+    return values.strict && problems.length > 0 ? 2 : 0;
+};
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+        process.stderr.write(`Lỗi: ${error instanceof Error ? error.message : String(error)}\n`);
+        if (error instanceof UsageError) process.stderr.write('\n' + USAGE);
+        process.exit(1);
+    }
+);
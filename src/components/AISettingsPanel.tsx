@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import type { AIProviderId, AIProviderInfo, AISettings } from '../types';
+import { getAIProviders, loadAISettings, saveAISettings } from '../services/apiClient';
+
+interface AISettingsPanelProps {
+    onClose: () => void;
+}
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ onClose }) => {
+    const [providers, setProviders] = useState<AIProviderInfo[]>([]);
+    const [defaults, setDefaults] = useState<AISettings | null>(null);
+    const [provider, setProvider] = useState<AIProviderId | null>(() => loadAISettings()?.provider ?? null);
+    const [model, setModel] = useState(() => loadAISettings()?.model ?? '');
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [status, setStatus] = useState('');
+
+    useEffect(() => {
+        getAIProviders()
+            .then(result => {
+                setProviders(result.providers);
+                setDefaults(result.defaults);
+                setProvider(current => current ?? result.defaults.provider);
+            })
+            .catch(err => setError(err instanceof Error ? err.message : 'Không thể đọc danh sách nhà cung cấp AI.'))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const selected = providers.find(p => p.id === provider);
+
+    const handleSave = () => {
+        if (!provider) return;
+        saveAISettings({ provider, model: model.trim() });
+        setStatus('Đã lưu. Các lần xử lý tiếp theo sẽ dùng nhà cung cấp này.');
+    };
+
+    const handleUseDefaults = () => {
+        saveAISettings(null);
+        setProvider(defaults?.provider ?? null);
+        setModel('');
+        setStatus('Đã chuyển về cấu hình mặc định của máy chủ.');
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Cài đặt AI</h2>
+                <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700">
+                    Quay lại
+                </button>
+            </div>
+
+            {error && <p className="mb-4 text-red-600 dark:text-red-400">{error}</p>}
+
+            {isLoading ? (
+                <p className="text-gray-500 dark:text-gray-400">Đang tải...</p>
+            ) : providers.length > 0 && (
+                <div className="space-y-4 max-w-xl">
+                    <fieldset className="space-y-2">
+                        <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Nhà cung cấp</legend>
+                        {providers.map(p => (
+                            <label key={p.id} className={`flex items-start gap-2 text-sm ${p.unavailableReason ? 'opacity-50' : 'cursor-pointer'}`}>
+                                <input
+                                    type="radio"
+                                    name="ai-provider"
+                                    checked={provider === p.id}
+                                    disabled={!!p.unavailableReason}
+                                    onChange={() => { setProvider(p.id); setModel(''); setStatus(''); }}
+                                    className="mt-1"
+                                />
+                                <span>
+                                    <span className="font-medium text-gray-900 dark:text-white">{p.label}</span>
+                                    {defaults?.provider === p.id && <span className="ml-2 text-xs text-indigo-500">(mặc định của máy chủ)</span>}
+                                    {p.unavailableReason && <span className="block text-xs text-gray-500 dark:text-gray-400">{p.unavailableReason}</span>}
+                                </span>
+                            </label>
+                        ))}
+                    </fieldset>
+
+                    <div>
+                        <label htmlFor="ai-model" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Mô hình</label>
+                        <input
+                            id="ai-model"
+                            type="text"
+                            value={model}
+                            onChange={(e) => { setModel(e.target.value); setStatus(''); }}
+                            placeholder={selected ? `Để trống để dùng ${provider === defaults?.provider && defaults.model ? defaults.model : selected.defaultModel}` : ''}
+                            disabled={provider === 'mock'}
+                            className="w-full px-3 py-2 text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md disabled:opacity-50"
+                        />
+                        {provider === 'mock' && (
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Chế độ mô phỏng trả lời từ tệp dữ liệu mẫu (AI_MOCK_FIXTURE) trên máy chủ, không gọi AI.</p>
+                        )}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button onClick={handleSave} disabled={!provider || !!selected?.unavailableReason} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50">
+                            Lưu
+                        </button>
+                        <button onClick={handleUseDefaults} className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700">
+                            Dùng mặc định của máy chủ
+                        </button>
+                        {status && <span className="text-sm text-green-600 dark:text-green-400">{status}</span>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AISettingsPanel;
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { parseVnAmount } from '../utils/amount';
+import { formatCurrency } from '../utils/format';
+
+interface AmountInputProps {
+    value: number;
+    onChange: (value: number) => void;
+    className?: string;
+    id?: string;
+    placeholder?: string;
+}
+
+// Shows the formatted amount and accepts anything parseVnAmount understands ("1,5tr", "ba trăm nghìn");
+// the value is committed on blur or Enter, Escape discards the edit
+const AmountInput: React.FC<AmountInputProps> = ({ value, onChange, className = '', id, placeholder }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+    const invalid = draft !== null && draft.trim() !== '' && parseVnAmount(draft, { thousandsSeparator: '.' }) === null;
+
+    const commit = () => {
+        if (draft === null) return;
+        const parsed = draft.trim() === '' ? 0 : parseVnAmount(draft, { thousandsSeparator: '.' });
+        if (parsed !== null && parsed !== value) onChange(parsed);
+        setDraft(null);
+    };
+
+    return (
+        <input
+            type="text"
+            id={id}
+            value={draft ?? formatCurrency(value)}
+            placeholder={placeholder}
+            onFocus={() => setDraft(formatCurrency(value))}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') setDraft(null);
+            }}
+            title={invalid ? 'Không đọc được số tiền' : undefined}
+            className={`${className} ${invalid ? 'ring-1 ring-red-500' : ''}`}
+        />
+    );
+};
+
+export default AmountInput;
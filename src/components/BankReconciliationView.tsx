@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import type { AccountInfo, LedgerEntry, Transaction } from '../types';
+import { reconcileBankLedger } from '../services/bankReconciliation';
+import { formatCurrency } from '../utils/format';
+import { downloadCsv } from '../utils/download';
+import { DownloadIcon } from './Icons';
+import AmountInput from './AmountInput';
+
+interface BankReconciliationViewProps {
+    accountInfo: AccountInfo;
+    transactions: Transaction[];
+    openingBalance: number;
+    entries: LedgerEntry[];
+    bookOpeningBalance: string;
+    onImport: (file: File) => void;
+    onBookOpeningBalanceChange: (value: string) => void;
+    onClear: () => void;
+}
+
+interface ReportLine {
+    label: string;
+    amount: number;
+    detail?: string;
+    isTotal?: boolean;
+    isWarning?: boolean;
+}
+
+const BankReconciliationView: React.FC<BankReconciliationViewProps> = ({ accountInfo, transactions, openingBalance, entries, bookOpeningBalance, onImport, onBookOpeningBalanceChange, onClear }) => {
+    const report = useMemo(
+        () => reconcileBankLedger(transactions, entries, openingBalance, parseFloat(bookOpeningBalance) || 0),
+        [transactions, entries, openingBalance, bookOpeningBalance]
+    );
+    const entryById = useMemo(() => new Map(entries.map(entry => [entry.id, entry])), [entries]);
+
+    const txDetail = (index: number) => `${transactions[index].date} · ${transactions[index].description}`;
+    const entryDetail = (entry: LedgerEntry) => `${entry.date} · ${entry.voucher} · ${entry.description}`;
+
+    // Standard layout: bank balance adjusted for book-only items, book balance adjusted for bank-only items
+    const lines: ReportLine[] = [
+        { label: 'Số dư theo sao kê ngân hàng', amount: report.bankBalance, isTotal: true },
+        ...report.outstandingDeposits.map(entry => ({ label: 'Cộng: Tiền đang chuyển (sổ đã ghi thu)', amount: entry.debit, detail: entryDetail(entry) })),
+        ...report.unclearedPayments.map(entry => ({ label: 'Trừ: Khoản chi chưa được ngân hàng thanh toán', amount: -entry.credit, detail: entryDetail(entry) })),
+        { label: 'Số dư ngân hàng đã điều chỉnh', amount: report.adjustedBankBalance, isTotal: true },
+        { label: 'Số dư theo sổ kế toán TK 112', amount: report.bookBalance, isTotal: true },
+        ...report.bankOnlyReceipts.map(item => ({ label: 'Cộng: Ngân hàng đã thu, sổ chưa ghi', amount: item.amount, detail: txDetail(item.transactionIndex) })),
+        ...report.bankOnlyPayments.map(item => ({ label: 'Trừ: Ngân hàng đã chi, sổ chưa ghi', amount: -item.amount, detail: txDetail(item.transactionIndex) })),
+        ...report.bankOnlyFees.map(item => ({ label: 'Trừ: Phí ngân hàng chưa hạch toán', amount: -item.amount, detail: txDetail(item.transactionIndex) })),
+        ...report.amountDifferences.map(item => ({
+            label: 'Chênh lệch số tiền (ngân hàng - sổ)',
+            amount: item.bankAmount - item.bookAmount,
+            detail: `${txDetail(item.transactionIndex)} ↔ ${entryById.get(item.entryId)?.voucher || ''}`,
+        })),
+        { label: 'Số dư sổ kế toán đã điều chỉnh', amount: report.adjustedBookBalance, isTotal: true },
+        { label: 'Chênh lệch chưa giải thích', amount: report.unexplained, isTotal: true, isWarning: Math.abs(report.unexplained) > 1 },
+    ];
+
+    const handleDownload = () => {
+        const headers = ['Khoản mục', 'Chi tiết', 'Số tiền'];
+        const rows = lines.map(line => [line.label, line.detail || '', line.amount]);
+        downloadCsv(`doi_chieu_tk112_${accountInfo.accountNumber || 'ngan_hang'}.csv`, headers, rows);
+    };
+
+    return (
+        <div className="mt-8">
+            <h2 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-200">BẢNG ĐỐI CHIẾU TIỀN GỬI NGÂN HÀNG</h2>
+            <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+                {accountInfo.accountName} · {accountInfo.accountNumber} · {accountInfo.bankName}
+            </p>
+            <div className="flex flex-wrap items-center justify-end gap-3 my-4 text-sm">
+                <label className="px-4 py-2 font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 cursor-pointer">
+                    Nhập sổ TK 112 (CSV, Excel)
+                    <input
+                        type="file"
+                        accept=".csv,.xlsx,.xls"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    Số dư đầu kỳ trên sổ:
+                    <AmountInput
+                        value={parseFloat(bookOpeningBalance) || 0}
+                        onChange={(value) => onBookOpeningBalanceChange(String(value))}
+                        className="w-40 px-2 py-1 text-right text-gray-900 dark:text-white bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg"
+                    />
+                </label>
+                {entries.length > 0 && (
+                    <>
+                        <button onClick={onClear} className="text-red-600 dark:text-red-400 hover:underline">Xóa sổ đã nhập</button>
+                        <button onClick={handleDownload} className="flex items-center px-4 py-2 font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+                            <DownloadIcon /> Download CSV
+                        </button>
+                    </>
+                )}
+            </div>
+
+            {entries.length === 0 ? (
+                <p className="p-4 text-center text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 rounded-lg shadow">
+                    Nhập sổ tiền gửi ngân hàng (TK 112) xuất từ phần mềm kế toán để đối chiếu với sao kê.
+                </p>
+            ) : (
+                <>
+                    <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">
+                        {report.pairs.length} giao dịch khớp hoàn toàn trên {transactions.length} dòng sao kê và {entries.length} bút toán sổ.
+                    </p>
+                    <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow">
+                        <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                                <tr>
+                                    <th className="px-6 py-3">Khoản mục</th>
+                                    <th className="px-6 py-3">Chi tiết</th>
+                                    <th className="px-6 py-3 text-right">Số tiền</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {lines.map((line, i) => (
+                                    <tr key={i} className={`border-b dark:border-gray-700 ${line.isTotal ? 'font-semibold text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700' : ''}`}>
+                                        <td className="px-6 py-2">{line.label}</td>
+                                        <td className="px-6 py-2 max-w-md truncate" title={line.detail}>{line.detail}</td>
+                                        <td className={`px-6 py-2 text-right ${line.isWarning ? 'text-red-600 dark:text-red-400' : ''}`}>
+                                            {formatCurrency(line.amount)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {Math.abs(report.unexplained) > 1 && (
+                        <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                            Còn chênh lệch {formatCurrency(report.unexplained)}: kiểm tra số dư đầu kỳ trên sổ và sao kê, hoặc kỳ của sổ TK 112 đã nhập.
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BankReconciliationView;
@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import type { WorkspaceStatement } from '../services/workspace';
+import { BATCH_STATUS_LABELS, groupBatchByAccount, isBatchRunning, type BatchItem, type BatchStatus } from '../services/batch';
+import { DownloadIcon } from './Icons';
+
+interface BatchPanelProps {
+    items: BatchItem[];
+    statements: WorkspaceStatement[];
+    activeId: string | null;
+    onOpen: (item: BatchItem) => void;
+    onNextReview: () => void;
+    onMarkDone: (id: string) => void;
+    onRetry: (id: string) => void;
+    onExport: () => void;
+    onClear: () => void;
+}
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+    queued: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+    ocr: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200',
+    parsing: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200',
+    review: 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-200',
+    done: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200',
+    failed: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200',
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ items, statements, activeId, onOpen, onNextReview, onMarkDone, onRetry, onExport, onClear }) => {
+    const groups = useMemo(() => groupBatchByAccount(items, statements), [items, statements]);
+    const running = isBatchRunning(items);
+    const countOf = (status: BatchStatus) => items.filter(item => item.status === status).length;
+    const finished = countOf('done') + countOf('review') + countOf('failed');
+    const hasResults = items.some(item => statements.some(statement => statement.id === item.statementId && statement.result));
+
+    return (
+        <aside className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow-lg text-sm">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-lg font-bold text-gray-800 dark:text-gray-200">Xử lý hàng loạt</h2>
+                {!running && <button onClick={onClear} className="text-xs text-gray-500 hover:text-red-500">Đóng</button>}
+            </div>
+            <p className="text-gray-600 dark:text-gray-400">
+                {finished}/{items.length} file · {countOf('review')} cần duyệt · {countOf('failed')} lỗi
+            </p>
+            <div className="w-full bg-gray-200 rounded-full h-1.5 my-2 dark:bg-gray-700">
+                <div className="bg-indigo-600 h-1.5 rounded-full transition-all" style={{ width: `${items.length ? (finished / items.length) * 100 : 0}%` }}></div>
+            </div>
+            <div className="flex flex-wrap gap-2 mb-3">
+                <button
+                    onClick={onNextReview}
+                    disabled={countOf('review') === 0}
+                    className="px-3 py-1 font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-50"
+                >
+                    Duyệt tiếp
+                </button>
+                <button
+                    onClick={onExport}
+                    disabled={running || !hasResults}
+                    title={running ? 'Chờ xử lý xong tất cả file' : undefined}
+                    className="flex items-center px-3 py-1 font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                    <DownloadIcon /> Xuất tất cả (.zip)
+                </button>
+            </div>
+
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+                {groups.map(group => (
+                    <div key={group.accountNumber}>
+                        <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">{group.label}</p>
+                        <ul className="space-y-1">
+                            {group.items.map(item => {
+                                const isActive = item.statementId !== null && item.statementId === activeId;
+                                return (
+                                    <li
+                                        key={item.id}
+                                        onClick={() => onOpen(item)}
+                                        className={`p-2 rounded-lg border ${item.statementId ? 'cursor-pointer' : ''} ${isActive ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/40' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="truncate text-gray-800 dark:text-gray-200" title={item.fileName}>{item.fileName}</span>
+                                            <span className={`shrink-0 px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[item.status]}`}>{BATCH_STATUS_LABELS[item.status]}</span>
+                                        </div>
+                                        {item.pending && (
+                                            <p className="text-xs text-amber-600 dark:text-amber-400">{item.pending.candidates.length} giao dịch nghi trùng, chưa ghi vào sổ</p>
+                                        )}
+                                        {item.status === 'review' && item.reviewReasons.length > 0 && (
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">{item.reviewReasons.join(' · ')}</p>
+                                        )}
+                                        {item.error && <p className="text-xs text-red-600 dark:text-red-400">{item.error}</p>}
+                                        {(item.status === 'review' || item.status === 'failed') && (
+                                            <div className="mt-1 space-x-3 text-xs" onClick={(e) => e.stopPropagation()}>
+                                                {item.status === 'review' && !item.pending && (
+                                                    <button onClick={() => onMarkDone(item.id)} className="text-green-600 dark:text-green-400 hover:underline">Đánh dấu đã duyệt</button>
+                                                )}
+                                                {item.status === 'failed' && (
+                                                    <button onClick={() => onRetry(item.id)} disabled={running} className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50">Thử lại</button>
+                                                )}
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        </aside>
+    );
+};
+
+export default BatchPanel;
@@ -0,0 +1,91 @@
+import React from 'react';
+import type { CategoryRule } from '../types';
+import { DEFAULT_CATEGORY_RULES } from '../services/categorizer';
+import { CloseIcon } from './Icons';
+
+interface CategoryRulesEditorProps {
+    rules: CategoryRule[];
+    categories: string[];
+    onChange: (rules: CategoryRule[]) => void;
+}
+
+const inputClass = "px-2 py-1 w-full text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+const isValidRegex = (pattern: string) => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const CategoryRulesEditor: React.FC<CategoryRulesEditorProps> = ({ rules, categories, onChange }) => {
+    const updateRule = (id: string, changes: Partial<CategoryRule>) => {
+        onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+    };
+
+    const addRule = () => {
+        onChange([...rules, { id: `cat-${Date.now().toString(36)}`, category: 'Khác', pattern: '', isRegex: false, direction: 'any' }]);
+    };
+
+    return (
+        <div className="my-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow">
+            <datalist id="category-options">
+                {categories.map(category => <option key={category} value={category} />)}
+            </datalist>
+            <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                    <tr>
+                        <th className="px-2 py-2">Nhóm</th>
+                        <th className="px-2 py-2">Từ khóa (phân cách bằng dấu phẩy) hoặc biểu thức chính quy</th>
+                        <th className="px-2 py-2">Regex</th>
+                        <th className="px-2 py-2">Chiều</th>
+                        <th className="px-2 py-2"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rules.map(rule => (
+                        <tr key={rule.id} className="border-b dark:border-gray-700">
+                            <td className="px-2 py-1">
+                                <input type="text" list="category-options" value={rule.category} onChange={(e) => updateRule(rule.id, { category: e.target.value })} className={inputClass} />
+                            </td>
+                            <td className="px-2 py-1">
+                                <input
+                                    type="text"
+                                    value={rule.pattern}
+                                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                                    className={`${inputClass} ${rule.isRegex && !isValidRegex(rule.pattern) ? 'border-red-500' : ''}`}
+                                />
+                            </td>
+                            <td className="px-2 py-1 text-center">
+                                <input type="checkbox" checked={rule.isRegex} onChange={(e) => updateRule(rule.id, { isRegex: e.target.checked })} />
+                            </td>
+                            <td className="px-2 py-1">
+                                <select value={rule.direction} onChange={(e) => updateRule(rule.id, { direction: e.target.value as CategoryRule['direction'] })} className={inputClass}>
+                                    <option value="any">Thu & chi</option>
+                                    <option value="in">Tiền vào</option>
+                                    <option value="out">Tiền ra</option>
+                                </select>
+                            </td>
+                            <td className="px-2 py-1 text-right">
+                                <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-gray-400 hover:text-red-500" aria-label="Xóa quy tắc">
+                                    <CloseIcon />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Quy tắc được so khớp với nội dung đã bỏ dấu, chữ thường. Nhóm chọn tay trên bảng sẽ được ghi nhớ cho các giao dịch tương tự sau này.
+            </p>
+            <div className="mt-2 space-x-4 text-sm">
+                <button onClick={addRule} className="text-indigo-600 dark:text-indigo-400 hover:underline">+ Thêm quy tắc</button>
+                <button onClick={() => onChange(DEFAULT_CATEGORY_RULES)} className="text-gray-600 dark:text-gray-300 hover:underline">Khôi phục mặc định</button>
+            </div>
+        </div>
+    );
+};
+
+export default CategoryRulesEditor;
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { ChangeRecord, ChangeSource } from '../types';
+
+interface ChangeLogProps {
+    changes: ChangeRecord[];
+    redoCount: number;
+    onUndo: () => void;
+    onRedo: () => void;
+    onRevert: (id: string) => void;
+    onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ChangeSource, string> = {
+    manual: 'Sửa tay',
+    voice: 'Giọng nói',
+    chat: 'Trợ lý AI',
+    ai: 'AI',
+    rules: 'Quy tắc',
+};
+
+const SOURCE_STYLES: Record<ChangeSource, string> = {
+    manual: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+    voice: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+    chat: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/50 dark:text-indigo-300',
+    ai: 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300',
+    rules: 'bg-teal-100 text-teal-800 dark:bg-teal-900/50 dark:text-teal-300',
+};
+
+const ChangeLog: React.FC<ChangeLogProps> = ({ changes, redoCount, onUndo, onRedo, onRevert, onClose }) => {
+    const reverted = new Set(changes.map(change => change.reverts).filter(Boolean));
+
+    return (
+        <aside className="fixed top-0 right-0 z-40 flex flex-col w-full max-w-sm h-full bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-xl">
+            <header className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-200">Lịch sử thay đổi</h3>
+                <button onClick={onClose} className="text-2xl leading-none text-gray-500 hover:text-gray-800 dark:hover:text-gray-200">&times;</button>
+            </header>
+            <div className="flex gap-2 p-4 border-b border-gray-200 dark:border-gray-700 text-sm">
+                <button
+                    onClick={onUndo}
+                    disabled={changes.length === 0}
+                    title="Ctrl+Z"
+                    className="flex-1 px-3 py-2 font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                    ↶ Hoàn tác
+                </button>
+                <button
+                    onClick={onRedo}
+                    disabled={redoCount === 0}
+                    title="Ctrl+Y"
+                    className="flex-1 px-3 py-2 font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                    ↷ Làm lại ({redoCount})
+                </button>
+            </div>
+            {changes.length === 0 ? (
+                <p className="p-4 text-sm text-center text-gray-500 dark:text-gray-400">Chưa có thay đổi nào.</p>
+            ) : (
+                <ul className="flex-1 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+                    {[...changes].reverse().map(change => (
+                        <li key={change.id} className="flex items-start gap-3 p-3 text-sm">
+                            <div className="flex-1 min-w-0">
+                                <p className={`text-gray-800 dark:text-gray-200 break-words ${reverted.has(change.id) ? 'line-through opacity-60' : ''}`}>
+                                    {change.label}
+                                </p>
+                                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                    {new Date(change.timestamp).toLocaleTimeString('vi-VN')}
+                                    <span className={`ml-2 px-1.5 py-0.5 rounded ${SOURCE_STYLES[change.source]}`}>{SOURCE_LABELS[change.source]}</span>
+                                </p>
+                            </div>
+                            {!reverted.has(change.id) && (
+                                <button
+                                    onClick={() => onRevert(change.id)}
+                                    className="text-xs text-red-600 dark:text-red-400 hover:underline whitespace-nowrap"
+                                >
+                                    Hoàn tác
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </aside>
+    );
+};
+
+export default ChangeLog;
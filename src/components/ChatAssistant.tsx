@@ -1,15 +1,17 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import type { GeminiResponse, ChatMessage, Transaction, AIChatResponse } from '../types';
-import { chatWithAI } from '../services/geminiService';
+import type { GeminiResponse, ChatMessage, AIChatResponse, TransactionOperation, ChangeSource } from '../types';
+import { chatWithAI } from '../services/apiClient';
+import { createTransaction } from '../services/transactionEdits';
 import { ChatIcon, CloseIcon, SendIcon, MicrophoneIcon, RemoveImageIcon } from './Icons';
 
 interface ChatAssistantProps {
     reportData: GeminiResponse;
     rawStatementContent: string;
-    onUpdateTransaction: (index: number, field: 'debit' | 'credit' | 'fee' | 'vat', value: number) => void;
-    onTransactionAdd: (transaction: Transaction) => void;
+    onApplyOperation: (operation: TransactionOperation, source?: ChangeSource) => void;
     onUndoLastChange: () => void;
+    messages: ChatMessage[];
+    setMessages: (updater: (prev: ChatMessage[]) => ChatMessage[]) => void;
 }
 
 const fileToGenerativePart = (file: File): Promise<{ mimeType: string; data: string }> => {
@@ -26,11 +28,8 @@ const fileToGenerativePart = (file: File): Promise<{ mimeType: string; data: str
     });
 };
 
-const ChatAssistant: React.FC<ChatAssistantProps> = ({ reportData, rawStatementContent, onUpdateTransaction, onTransactionAdd, onUndoLastChange }) => {
+const ChatAssistant: React.FC<ChatAssistantProps> = ({ reportData, rawStatementContent, onApplyOperation, onUndoLastChange, messages, setMessages }) => {
     const [isOpen, setIsOpen] = useState(false);
-    const [messages, setMessages] = useState<ChatMessage[]>([
-        { role: 'model', content: 'Chào Anh Cường, Em là trợ lý kế toán ảo. Em có thể giúp gì cho Anh trong việc đối chiếu và chỉnh sửa báo cáo này ạ?' }
-    ]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isListening, setIsListening] = useState(false);
@@ -136,11 +135,11 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ reportData, rawStatementC
                 // Execute the pending action
                 if (pendingAction.action === 'update' && pendingAction.update) {
                     const { index, field, newValue } = pendingAction.update;
-                    onUpdateTransaction(index, field, newValue);
+                    onApplyOperation({ type: 'update', index, changes: { [field]: newValue } }, 'chat');
                 } else if (pendingAction.action === 'undo') {
                     onUndoLastChange();
                 } else if (pendingAction.action === 'add' && pendingAction.add) {
-                    onTransactionAdd(pendingAction.add);
+                    onApplyOperation({ type: 'insert', index: reportData.transactions.length, transaction: createTransaction(pendingAction.add) }, 'chat');
                 }
                 
                 const modelMessage: ChatMessage = { role: 'model', content: "Dạ, em đã điều chỉnh xong cho Anh Cường ạ." };
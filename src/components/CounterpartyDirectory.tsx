@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import type { Counterparty, CounterpartyEntry, Transaction } from '../types';
+import { createDirectoryEntry, findDirectoryEntry } from '../services/counterparty';
+import { CloseIcon } from './Icons';
+
+interface CounterpartyDirectoryProps {
+    entries: CounterpartyEntry[];
+    transactions: Transaction[];
+    onChange: (entries: CounterpartyEntry[]) => void;
+}
+
+const inputClass = "px-2 py-1 w-full text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+const CounterpartyDirectory: React.FC<CounterpartyDirectoryProps> = ({ entries, transactions, onChange }) => {
+    // Counterparties of this statement that are not in the directory yet, once each
+    const unknown = useMemo(() => {
+        const seen = new Set<string>();
+        const result: { counterparty: Counterparty; direction: 'in' | 'out'; count: number }[] = [];
+        transactions.forEach(tx => {
+            if (!tx.counterparty?.name || findDirectoryEntry(tx.counterparty, entries)) return;
+            const key = tx.counterparty.account || tx.counterparty.name.toLowerCase();
+            if (seen.has(key)) {
+                result.find(item => (item.counterparty.account || item.counterparty.name.toLowerCase()) === key)!.count++;
+                return;
+            }
+            seen.add(key);
+            result.push({ counterparty: tx.counterparty, direction: tx.debit > 0 ? 'in' : 'out', count: 1 });
+        });
+        return result;
+    }, [transactions, entries]);
+
+    const addEntries = (items: typeof unknown) => {
+        const added = items.reduce<CounterpartyEntry[]>(
+            (acc, item) => [...acc, createDirectoryEntry(item.counterparty, item.direction, acc)],
+            entries
+        );
+        onChange(added);
+    };
+
+    const updateEntry = (id: string, changes: Partial<CounterpartyEntry>) => {
+        onChange(entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+    };
+
+    return (
+        <div className="my-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow text-sm">
+            {unknown.length > 0 && (
+                <div className="mb-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <p className="font-semibold text-gray-700 dark:text-gray-300">Đối tác mới trong sao kê ({unknown.length})</p>
+                        <button onClick={() => addEntries(unknown)} className="text-indigo-600 dark:text-indigo-400 hover:underline">Thêm tất cả vào danh bạ</button>
+                    </div>
+                    <ul className="space-y-1">
+                        {unknown.map(item => (
+                            <li key={item.counterparty.account || item.counterparty.name} className="flex items-center justify-between text-gray-600 dark:text-gray-400">
+                                <span>
+                                    {item.counterparty.name}
+                                    {item.counterparty.account && ` · TK ${item.counterparty.account}`}
+                                    {item.counterparty.bank && ` · ${item.counterparty.bank}`}
+                                    {` · ${item.count} GD ${item.direction === 'in' ? 'thu' : 'chi'}`}
+                                </span>
+                                <button onClick={() => addEntries([item])} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                                    + {item.direction === 'in' ? 'Khách hàng (131)' : 'Nhà cung cấp (331)'}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {entries.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">Danh bạ trống. Thêm đối tác để các sao kê sau được tự động gán mã đối tượng.</p>
+            ) : (
+                <table className="min-w-full text-left text-gray-500 dark:text-gray-400">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                        <tr>
+                            <th className="px-2 py-2">Mã đối tượng</th>
+                            <th className="px-2 py-2">Tên</th>
+                            <th className="px-2 py-2">Số TK</th>
+                            <th className="px-2 py-2">Ngân hàng</th>
+                            <th className="px-2 py-2">TK công nợ</th>
+                            <th className="px-2 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(entry => (
+                            <tr key={entry.id} className="border-b dark:border-gray-700">
+                                <td className="px-2 py-1"><input type="text" value={entry.code} onChange={(e) => updateEntry(entry.id, { code: e.target.value.trim() })} className={inputClass} /></td>
+                                <td className="px-2 py-1"><input type="text" value={entry.name} onChange={(e) => updateEntry(entry.id, { name: e.target.value })} className={inputClass} /></td>
+                                <td className="px-2 py-1"><input type="text" value={entry.account} onChange={(e) => updateEntry(entry.id, { account: e.target.value.trim() })} className={inputClass} /></td>
+                                <td className="px-2 py-1"><input type="text" value={entry.bank} onChange={(e) => updateEntry(entry.id, { bank: e.target.value })} className={inputClass} /></td>
+                                <td className="px-2 py-1"><input type="text" value={entry.ledgerAccount} onChange={(e) => updateEntry(entry.id, { ledgerAccount: e.target.value.trim() })} className={inputClass} /></td>
+                                <td className="px-2 py-1 text-right">
+                                    <button onClick={() => onChange(entries.filter(e => e.id !== entry.id))} className="text-gray-400 hover:text-red-500" aria-label="Xóa đối tác">
+                                        <CloseIcon />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default CounterpartyDirectory;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { parseDateCell } from '../services/bankParsers';
+
+interface DateInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    className?: string;
+}
+
+// Accepts any date parseDateCell reads ("1/3/2025", "2025-03-01") and commits it as DD/MM/YYYY
+// on blur or Enter, so half-typed dates never reach the statement; Escape discards the edit
+const DateInput: React.FC<DateInputProps> = ({ value, onChange, className = '' }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+    const invalid = draft !== null && parseDateCell(draft) === null;
+
+    const commit = () => {
+        if (draft === null) return;
+        // An unreadable date is still passed on, so the caller can say why it was rejected
+        const date = parseDateCell(draft) ?? draft;
+        if (date !== value) onChange(date);
+        setDraft(null);
+    };
+
+    return (
+        <input
+            type="text"
+            value={draft ?? value}
+            onFocus={() => setDraft(value)}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') setDraft(null);
+            }}
+            title={invalid ? 'Không đọc được ngày (cần dạng DD/MM/YYYY)' : undefined}
+            className={`${className} ${invalid ? 'ring-1 ring-red-500' : ''}`}
+        />
+    );
+};
+
+export default DateInput;
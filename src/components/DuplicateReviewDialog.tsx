@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { Transaction } from '../types';
+import { SAME_STATEMENT, type DuplicateCandidate } from '../services/duplicates';
+import { formatCurrency } from '../utils/format';
+
+interface DuplicateReviewDialogProps {
+    transactions: Transaction[];
+    candidates: DuplicateCandidate[];
+    onConfirm: (dropIndexes: number[]) => void;
+    onCancel: () => void;
+}
+
+// Same code, or a copy found in another statement, is dropped by default; a lookalike
+// inside the same statement may be a genuine repeat payment, so it is kept
+const dropByDefault = (candidate: DuplicateCandidate) => candidate.reason === 'code' || candidate.source !== SAME_STATEMENT;
+
+const amountLabel = (tx: Transaction) => {
+    const parts = [];
+    if (tx.debit) parts.push(`+${formatCurrency(tx.debit)}`);
+    if (tx.credit) parts.push(`-${formatCurrency(tx.credit)}`);
+    if (tx.fee) parts.push(`phí ${formatCurrency(tx.fee)}`);
+    if (tx.vat) parts.push(`VAT ${formatCurrency(tx.vat)}`);
+    return parts.join(' · ');
+};
+
+const DuplicateReviewDialog: React.FC<DuplicateReviewDialogProps> = ({ transactions, candidates, onConfirm, onCancel }) => {
+    const [dropped, setDropped] = useState<Set<number>>(
+        () => new Set(candidates.filter(dropByDefault).map(candidate => candidate.index))
+    );
+
+    const toggle = (index: number, drop: boolean) => {
+        setDropped(prev => {
+            const next = new Set(prev);
+            if (drop) next.add(index);
+            else next.delete(index);
+            return next;
+        });
+    };
+
+    const sources = [...new Set(candidates.map(candidate => candidate.source))];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-lg font-bold text-gray-800 dark:text-gray-200">Phát hiện {candidates.length} giao dịch có thể bị trùng</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                        Trùng với: {sources.join(', ')}. Chọn giữ hoặc bỏ từng giao dịch trước khi ghi sổ.
+                    </p>
+                </header>
+                <div className="flex-1 overflow-y-auto">
+                    <table className="min-w-full text-sm text-left text-gray-600 dark:text-gray-300">
+                        <thead className="text-xs uppercase bg-gray-50 dark:bg-gray-700 sticky top-0">
+                            <tr>
+                                <th className="px-4 py-2">Giao dịch mới</th>
+                                <th className="px-4 py-2">Trùng với</th>
+                                <th className="px-4 py-2">Lý do</th>
+                                <th className="px-4 py-2 text-center">Xử lý</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {candidates.map(candidate => {
+                                const tx = transactions[candidate.index];
+                                const isDropped = dropped.has(candidate.index);
+                                return (
+                                    <tr key={candidate.index} className={`border-b dark:border-gray-700 ${isDropped ? 'opacity-60' : ''}`}>
+                                        <td className="px-4 py-2">
+                                            <div className="font-medium">Dòng {candidate.index + 1} · {tx.date} · {amountLabel(tx)}</div>
+                                            <div className="text-xs truncate max-w-xs">{tx.description}</div>
+                                        </td>
+                                        <td className="px-4 py-2">
+                                            <div className="font-medium">{candidate.source} · dòng {candidate.matchIndex + 1}</div>
+                                            <div className="text-xs truncate max-w-xs">{candidate.match.description}</div>
+                                        </td>
+                                        <td className="px-4 py-2 text-xs">
+                                            {candidate.reason === 'code'
+                                                ? `Cùng mã GD ${tx.transactionCode}`
+                                                : `Cùng ngày, số tiền; nội dung giống ${Math.round(candidate.similarity * 100)}%`}
+                                        </td>
+                                        <td className="px-4 py-2">
+                                            <div className="flex justify-center">
+                                                <button
+                                                    onClick={() => toggle(candidate.index, false)}
+                                                    className={`px-3 py-1 text-xs rounded-l border border-gray-300 dark:border-gray-600 ${!isDropped ? 'bg-green-600 text-white' : ''}`}
+                                                >
+                                                    Giữ
+                                                </button>
+                                                <button
+                                                    onClick={() => toggle(candidate.index, true)}
+                                                    className={`px-3 py-1 text-xs rounded-r border border-gray-300 dark:border-gray-600 ${isDropped ? 'bg-red-600 text-white' : ''}`}
+                                                >
+                                                    Bỏ
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <footer className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+                    <button onClick={onCancel} className="px-4 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700">
+                        Giữ tất cả
+                    </button>
+                    <button onClick={() => onConfirm([...dropped])} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700">
+                        Bỏ {dropped.size} giao dịch và ghi sổ
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default DuplicateReviewDialog;
@@ -0,0 +1,148 @@
+import React from 'react';
+import type { ExchangeRate, Transaction } from '../types';
+import { BASE_CURRENCY, CURRENCIES, type VndConversion } from '../services/currency';
+import { formatCurrency } from '../utils/format';
+import AmountInput from './AmountInput';
+
+interface ExchangeRatePanelProps {
+    currency: string;
+    rates: ExchangeRate[];
+    openingRate: string;
+    closingRate: string;
+    conversion: VndConversion | null;
+    transactions: Transaction[];
+    onCurrencyChange: (currency: string) => void;
+    onImport: (file: File) => void;
+    onClear: () => void;
+    onOpeningRateChange: (value: string) => void;
+    onClosingRateChange: (value: string) => void;
+    onSelectRow?: (index: number) => void;
+}
+
+// Long lists are cut; the counts above them stay exact
+const MAX_LISTED = 20;
+
+const inputClass = 'w-32 px-2 py-1 text-right text-gray-900 dark:text-white bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg';
+
+const ExchangeRatePanel: React.FC<ExchangeRatePanelProps> = ({
+    currency, rates, openingRate, closingRate, conversion, transactions,
+    onCurrencyChange, onImport, onClear, onOpeningRateChange, onClosingRateChange, onSelectRow,
+}) => {
+    const rateValue = (value: string) => parseFloat(value) || 0;
+    const difference = conversion?.exchangeDifference ?? 0;
+    const rateLabel = (rate: number | null) => (rate ? formatCurrency(rate) : 'chưa có');
+
+    return (
+        <div className="my-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow text-sm">
+            <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    Loại tiền của tài khoản
+                    <select
+                        value={currency}
+                        onChange={(e) => onCurrencyChange(e.target.value)}
+                        className="px-2 py-1 text-gray-900 dark:text-white bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg"
+                    >
+                        {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                </label>
+                {conversion && (
+                    <>
+                        <label className="px-3 py-1 font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 cursor-pointer">
+                            Nhập bảng tỷ giá (CSV, Excel)
+                            <input
+                                type="file"
+                                accept=".csv,.xlsx,.xls"
+                                className="hidden"
+                                onChange={(e) => {
+                                    if (e.target.files?.[0]) onImport(e.target.files[0]);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </label>
+                        {rates.length > 0 && (
+                            <>
+                                <span className="text-gray-600 dark:text-gray-400">{rates.length} tỷ giá đã nhập</span>
+                                <button onClick={onClear} className="text-red-600 dark:text-red-400 hover:underline">Xóa bảng tỷ giá</button>
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {!conversion ? (
+                <p className="mt-3 text-gray-600 dark:text-gray-400">
+                    Tài khoản {BASE_CURRENCY} không cần quy đổi. Chọn loại ngoại tệ nếu đây là tài khoản ngoại tệ.
+                </p>
+            ) : (
+                <>
+                    <div className="mt-4 flex flex-wrap items-center gap-4 text-gray-700 dark:text-gray-300">
+                        <label className="flex items-center gap-2">
+                            Tỷ giá đầu kỳ
+                            <AmountInput
+                                value={rateValue(openingRate)}
+                                onChange={(value) => onOpeningRateChange(value ? String(value) : '')}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            Tỷ giá cuối kỳ
+                            <AmountInput
+                                value={rateValue(closingRate)}
+                                onChange={(value) => onClosingRateChange(value ? String(value) : '')}
+                                className={inputClass}
+                            />
+                        </label>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                            Đang dùng {rateLabel(conversion.openingRate)} / {rateLabel(conversion.closingRate)}. Để 0 để lấy theo bảng tỷ giá.
+                        </span>
+                    </div>
+
+                    {conversion.missingRates.length > 0 && (
+                        <div className="mt-3 p-3 bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 rounded-lg">
+                            <p className="font-semibold">{conversion.missingRates.length} giao dịch chưa có tỷ giá — nhập tỷ giá trên dòng hoặc nhập bảng tỷ giá:</p>
+                            <ul className="mt-1 space-y-1">
+                                {conversion.missingRates.slice(0, MAX_LISTED).map(index => {
+                                    const tx = transactions[index];
+                                    return (
+                                        <li key={index}>
+                                            <button onClick={() => onSelectRow?.(index)} className="text-left hover:underline">
+                                                Dòng {index + 1} · {tx.date} · {tx.description}
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </div>
+                    )}
+
+                    <table className="mt-4 text-gray-700 dark:text-gray-300">
+                        <tbody>
+                            <tr>
+                                <td className="pr-6 py-1">Số dư cuối kỳ ({conversion.currency})</td>
+                                <td className="py-1 text-right font-medium">{formatCurrency(conversion.closingBalance)}</td>
+                            </tr>
+                            <tr>
+                                <td className="pr-6 py-1">Số dư sổ sách theo tỷ giá từng giao dịch (VND)</td>
+                                <td className="py-1 text-right font-medium">{formatCurrency(conversion.bookBalanceVnd)}</td>
+                            </tr>
+                            <tr>
+                                <td className="pr-6 py-1">Số dư đánh giá lại theo tỷ giá cuối kỳ (VND)</td>
+                                <td className="py-1 text-right font-medium">{formatCurrency(conversion.revaluedBalanceVnd)}</td>
+                            </tr>
+                            <tr className="font-semibold">
+                                <td className="pr-6 py-1">
+                                    {difference > 0 ? 'Lãi chênh lệch tỷ giá (TK 515)' : difference < 0 ? 'Lỗ chênh lệch tỷ giá (TK 635)' : 'Chênh lệch tỷ giá'}
+                                </td>
+                                <td className={`py-1 text-right ${difference > 0 ? 'text-green-600 dark:text-green-400' : difference < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                                    {formatCurrency(Math.abs(difference))}
+                                </td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ExchangeRatePanel;
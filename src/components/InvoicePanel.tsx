@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import type { Invoice, InvoiceKind, Transaction } from '../types';
+import type { InvoiceMatchResult } from '../services/invoiceMatching';
+import { formatCurrency } from '../utils/format';
+
+interface InvoicePanelProps {
+    invoices: Invoice[];
+    matchResult: InvoiceMatchResult;
+    transactions: Transaction[];
+    onImport: (files: File[], kind: InvoiceKind) => void;
+    onClear: () => void;
+    onSelectRow?: (index: number) => void;
+}
+
+const KIND_LABELS: Record<InvoiceKind, string> = {
+    sales: 'Hóa đơn bán ra',
+    purchase: 'Hóa đơn mua vào',
+};
+
+// Long lists are cut; the counts above them stay exact
+const MAX_LISTED = 20;
+
+const InvoicePanel: React.FC<InvoicePanelProps> = ({ invoices, matchResult, transactions, onImport, onClear, onSelectRow }) => {
+    const [kind, setKind] = useState<InvoiceKind>('sales');
+
+    const invoiceLabel = (invoice: Invoice) => `${invoice.series ? `${invoice.series}-` : ''}${invoice.number}`;
+    const countOf = (invoiceKind: InvoiceKind) => invoices.filter(invoice => invoice.kind === invoiceKind).length;
+
+    return (
+        <div className="my-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow text-sm">
+            <div className="flex flex-wrap items-center gap-3">
+                <select
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as InvoiceKind)}
+                    className="px-2 py-1 text-gray-900 dark:text-white bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg"
+                    aria-label="Loại hóa đơn"
+                >
+                    {(Object.keys(KIND_LABELS) as InvoiceKind[]).map(value => (
+                        <option key={value} value={value}>{KIND_LABELS[value]}</option>
+                    ))}
+                </select>
+                <label className="px-3 py-1 font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 cursor-pointer">
+                    Nhập danh sách hóa đơn (CSV, Excel, XML)
+                    <input
+                        type="file"
+                        multiple
+                        accept=".csv,.xlsx,.xls,.xml"
+                        className="hidden"
+                        onChange={(e) => {
+                            if (e.target.files?.length) onImport(Array.from(e.target.files), kind);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                {invoices.length > 0 && (
+                    <>
+                        <span className="text-gray-600 dark:text-gray-400">
+                            {countOf('sales')} HĐ bán ra · {countOf('purchase')} HĐ mua vào · {matchResult.matches.length} giao dịch đã khớp
+                        </span>
+                        <button onClick={onClear} className="text-red-600 dark:text-red-400 hover:underline">Xóa danh sách</button>
+                    </>
+                )}
+            </div>
+
+            {invoices.length > 0 && (
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <p className="font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                            Hóa đơn chưa thanh toán ({matchResult.unmatchedInvoices.length})
+                            {matchResult.partiallyPaidInvoices.length > 0 && `, thanh toán một phần (${matchResult.partiallyPaidInvoices.length})`}
+                        </p>
+                        <ul className="space-y-1 text-gray-600 dark:text-gray-400">
+                            {[...matchResult.partiallyPaidInvoices, ...matchResult.unmatchedInvoices].slice(0, MAX_LISTED).map(invoice => (
+                                <li key={invoice.id}>
+                                    {invoiceLabel(invoice)} · {invoice.date} · {invoice.partyName || invoice.taxCode} · {formatCurrency(invoice.amount)}
+                                    {matchResult.paid[invoice.id] > 0 && (
+                                        <span className="ml-1 text-amber-600 dark:text-amber-400">(còn {formatCurrency(invoice.amount - matchResult.paid[invoice.id])})</span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div>
+                        <p className="font-semibold text-gray-700 dark:text-gray-300 mb-1">Giao dịch chưa khớp hóa đơn ({matchResult.unmatchedTransactions.length})</p>
+                        <ul className="space-y-1 text-gray-600 dark:text-gray-400">
+                            {matchResult.unmatchedTransactions.slice(0, MAX_LISTED).map(index => {
+                                const tx = transactions[index];
+                                return (
+                                    <li key={index}>
+                                        <button onClick={() => onSelectRow?.(index)} className="text-left hover:underline">
+                                            Dòng {index + 1} · {tx.date} · {tx.debit > 0 ? `+${formatCurrency(tx.debit)}` : `-${formatCurrency(tx.credit)}`} · {tx.description}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default InvoicePanel;
@@ -0,0 +1,214 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { AccountingRegime, PostingRule, PostingSettings, Transaction } from '../types';
+import type { VndConversion } from '../services/currency';
+import { buildJournal, lineAmountInWords, DEFAULT_SETTINGS, DEFAULT_RULES, loadPostingRules, savePostingRules, loadPostingSettings, savePostingSettings } from '../services/journal';
+import { formatCurrency } from '../utils/format';
+import { downloadCsv } from '../utils/download';
+import { DownloadIcon, CopyIcon, CloseIcon } from './Icons';
+
+interface JournalViewProps {
+    transactions: Transaction[];
+    conversion?: VndConversion | null;
+}
+
+const inputClass = "px-2 py-1 w-full text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+const SETTING_FIELDS: { key: Exclude<keyof PostingSettings, 'regime'>; label: string }[] = [
+    { key: 'bankAccount', label: 'TK tiền gửi' },
+    { key: 'feeAccount', label: 'TK phí ngân hàng' },
+    { key: 'vatAccount', label: 'TK thuế GTGT' },
+    { key: 'defaultReceiptAccount', label: 'TK đối ứng thu (mặc định)' },
+    { key: 'defaultPaymentAccount', label: 'TK đối ứng chi (mặc định)' },
+    { key: 'foreignBankAccount', label: 'TK tiền gửi ngoại tệ' },
+    { key: 'exchangeGainAccount', label: 'TK lãi tỷ giá' },
+    { key: 'exchangeLossAccount', label: 'TK lỗ tỷ giá' },
+];
+
+const JournalView: React.FC<JournalViewProps> = ({ transactions, conversion }) => {
+    const [rules, setRules] = useState<PostingRule[]>(loadPostingRules);
+    const [settings, setSettings] = useState<PostingSettings>(loadPostingSettings);
+    const [showRules, setShowRules] = useState(false);
+    const [copySuccess, setCopySuccess] = useState('');
+
+    useEffect(() => {
+        savePostingRules(rules);
+    }, [rules]);
+
+    useEffect(() => {
+        savePostingSettings(settings);
+    }, [settings]);
+
+    const entries = useMemo(() => buildJournal(transactions, rules, settings, conversion), [transactions, rules, settings, conversion]);
+
+    // Foreign-currency entries show the original amount and rate next to the VND amount
+    const rows = useMemo(() => entries.flatMap(entry => entry.lines.map(line => [
+        entry.date,
+        entry.documentNumber,
+        line.description,
+        line.debitAccount,
+        line.creditAccount,
+        ...(conversion ? [entry.currency || '', entry.exchangeRate ?? '', line.foreignAmount ?? ''] : []),
+        line.amount,
+        line.objectCode || '',
+        lineAmountInWords(entry, line),
+    ])), [entries, conversion]);
+
+    const total = entries.reduce((sum, entry) => sum + entry.lines.reduce((lineSum, line) => lineSum + line.amount, 0), 0);
+    const headers = conversion
+        ? ["Ngày", "Số CT", "Diễn giải", "TK Nợ", "TK Có", "Loại tiền", "Tỷ giá", "Nguyên tệ", "Số tiền (VND)", "Đối tượng", "Số tiền bằng chữ"]
+        : ["Ngày", "Số CT", "Diễn giải", "TK Nợ", "TK Có", "Số tiền", "Đối tượng", "Số tiền bằng chữ"];
+
+    const handleDownload = () => {
+        downloadCsv('but_toan_ke_toan.csv', headers, rows);
+    };
+
+    const handleCopy = () => {
+        const tsvContent = [headers.join('\t'), ...rows.map(row => row.join('\t'))].join('\n');
+        navigator.clipboard.writeText(tsvContent).then(() => {
+            setCopySuccess('Đã sao chép vào clipboard!');
+            setTimeout(() => setCopySuccess(''), 2000);
+        }, () => {
+            setCopySuccess('Sao chép thất bại.');
+            setTimeout(() => setCopySuccess(''), 2000);
+        });
+    };
+
+    const handleRegimeChange = (regime: AccountingRegime) => {
+        setSettings(DEFAULT_SETTINGS[regime]);
+    };
+
+    const updateRule = (id: string, changes: Partial<PostingRule>) => {
+        setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+    };
+
+    const addRule = () => {
+        setRules(prev => [...prev, { id: `rule-${Date.now().toString(36)}`, name: 'Quy tắc mới', keywords: [], direction: 'any', contraAccount: '' }]);
+    };
+
+    return (
+        <div className="mt-8">
+            <h2 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-200">BÚT TOÁN KẾ TOÁN</h2>
+
+            <div className="my-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow">
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-3 text-sm">
+                    <label className="block">
+                        <span className="block mb-1 text-gray-600 dark:text-gray-400">Chế độ kế toán</span>
+                        <select value={settings.regime} onChange={(e) => handleRegimeChange(e.target.value as AccountingRegime)} className={inputClass}>
+                            <option value="TT200">Thông tư 200</option>
+                            <option value="TT133">Thông tư 133</option>
+                        </select>
+                    </label>
+                    {SETTING_FIELDS.map(({ key, label }) => (
+                        <label key={key} className="block">
+                            <span className="block mb-1 text-gray-600 dark:text-gray-400">{label}</span>
+                            <input type="text" value={settings[key]} onChange={(e) => setSettings({ ...settings, [key]: e.target.value.trim() })} className={inputClass} />
+                        </label>
+                    ))}
+                </div>
+                <button onClick={() => setShowRules(!showRules)} className="mt-3 text-sm text-indigo-600 dark:text-indigo-400 hover:underline">
+                    {showRules ? 'Ẩn quy tắc hạch toán' : `Quy tắc hạch toán (${rules.length})`}
+                </button>
+
+                {showRules && (
+                    <div className="mt-3">
+                        <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                                <tr>
+                                    <th className="px-2 py-2">Tên quy tắc</th>
+                                    <th className="px-2 py-2">Từ khóa / đối tác (phân cách bằng dấu phẩy)</th>
+                                    <th className="px-2 py-2">Chiều</th>
+                                    <th className="px-2 py-2">TK đối ứng</th>
+                                    <th className="px-2 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rules.map(rule => (
+                                    <tr key={rule.id} className="border-b dark:border-gray-700">
+                                        <td className="px-2 py-1"><input type="text" value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} className={inputClass} /></td>
+                                        <td className="px-2 py-1">
+                                            <input
+                                                key={rule.keywords.join(',')}
+                                                type="text"
+                                                defaultValue={rule.keywords.join(', ')}
+                                                onBlur={(e) => updateRule(rule.id, { keywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean) })}
+                                                className={inputClass}
+                                            />
+                                        </td>
+                                        <td className="px-2 py-1">
+                                            <select value={rule.direction} onChange={(e) => updateRule(rule.id, { direction: e.target.value as PostingRule['direction'] })} className={inputClass}>
+                                                <option value="any">Thu & chi</option>
+                                                <option value="in">Tiền vào</option>
+                                                <option value="out">Tiền ra</option>
+                                            </select>
+                                        </td>
+                                        <td className="px-2 py-1"><input type="text" value={rule.contraAccount} onChange={(e) => updateRule(rule.id, { contraAccount: e.target.value.trim() })} className={inputClass} /></td>
+                                        <td className="px-2 py-1 text-right">
+                                            <button onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))} className="text-gray-400 hover:text-red-500" aria-label="Xóa quy tắc">
+                                                <CloseIcon />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="mt-2 space-x-4 text-sm">
+                            <button onClick={addRule} className="text-indigo-600 dark:text-indigo-400 hover:underline">+ Thêm quy tắc</button>
+                            <button onClick={() => setRules(DEFAULT_RULES)} className="text-gray-600 dark:text-gray-300 hover:underline">Khôi phục mặc định</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex justify-end my-4 space-x-2">
+                <button onClick={handleCopy} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors">
+                    <CopyIcon /> {copySuccess || 'Copy Bút toán'}
+                </button>
+                <button onClick={handleDownload} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+                    <DownloadIcon /> Download CSV
+                </button>
+            </div>
+
+            <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow">
+                <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                        <tr>
+                            {headers.map(header => (
+                                <th key={header} scope="col" className="px-6 py-3">{header}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(entry => entry.lines.map((line, lineIndex) => (
+                            <tr key={`${entry.transactionIndex}-${lineIndex}`} className={`bg-white dark:bg-gray-800 dark:border-gray-700 ${lineIndex === entry.lines.length - 1 ? 'border-b' : ''}`}>
+                                <td className="px-6 py-3">{lineIndex === 0 ? entry.date : ''}</td>
+                                <td className="px-6 py-3">{lineIndex === 0 ? entry.documentNumber : ''}</td>
+                                <td className="px-6 py-3 max-w-xs truncate">{line.description}</td>
+                                <td className="px-6 py-3 font-mono">{line.debitAccount}</td>
+                                <td className="px-6 py-3 font-mono">{line.creditAccount}</td>
+                                {conversion && (
+                                    <>
+                                        <td className="px-6 py-3">{entry.currency || ''}</td>
+                                        <td className="px-6 py-3 text-right">{entry.exchangeRate !== undefined ? formatCurrency(entry.exchangeRate) : ''}</td>
+                                        <td className="px-6 py-3 text-right">{line.foreignAmount !== undefined ? formatCurrency(line.foreignAmount) : ''}</td>
+                                    </>
+                                )}
+                                <td className="px-6 py-3 text-right">{formatCurrency(line.amount)}</td>
+                                <td className="px-6 py-3 font-mono">{line.objectCode || ''}</td>
+                                <td className="px-6 py-3 min-w-64 text-xs italic">{lineAmountInWords(entry, line)}</td>
+                            </tr>
+                        )))}
+                    </tbody>
+                    <tfoot className="bg-gray-50 dark:bg-gray-700">
+                        <tr className="font-semibold text-gray-900 dark:text-white">
+                            <td colSpan={conversion ? 8 : 5} className="px-6 py-3 text-center text-base">Tổng cộng</td>
+                            <td className="px-6 py-3 text-right text-base">{formatCurrency(total)}</td>
+                            <td colSpan={2}></td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default JournalView;
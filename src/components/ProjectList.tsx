@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ProjectSummary } from '../services/projectStorage';
+import { listProjects, duplicateProject, deleteProject } from '../services/projectStorage';
+
+interface ProjectListProps {
+    currentProjectId: string | null;
+    onOpen: (id: string) => void;
+    onClose: () => void;
+    onDeleted: (id: string) => void;
+}
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('vi-VN');
+
+const ProjectList: React.FC<ProjectListProps> = ({ currentProjectId, onOpen, onClose, onDeleted }) => {
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setProjects(await listProjects());
+            setError(null);
+        } catch (err) {
+            console.error("Error loading projects:", err);
+            setError('Không thể đọc danh sách dự án đã lưu.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleDuplicate = async (id: string) => {
+        await duplicateProject(id);
+        refresh();
+    };
+
+    const handleDelete = async (project: ProjectSummary) => {
+        if (!window.confirm(`Xóa dự án "${project.name}"? Thao tác này không thể hoàn tác.`)) return;
+        await deleteProject(project.id);
+        onDeleted(project.id);
+        refresh();
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Dự án đã lưu</h2>
+                <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700">
+                    Quay lại
+                </button>
+            </div>
+
+            {error && <p className="mb-4 text-red-600 dark:text-red-400">{error}</p>}
+
+            {isLoading ? (
+                <p className="text-gray-500 dark:text-gray-400">Đang tải...</p>
+            ) : projects.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">Chưa có dự án nào được lưu.</p>
+            ) : (
+                <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                        <tr>
+                            <th scope="col" className="px-4 py-3">Tên dự án</th>
+                            <th scope="col" className="px-4 py-3">Số sao kê</th>
+                            <th scope="col" className="px-4 py-3">Cập nhật</th>
+                            <th scope="col" className="px-4 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {projects.map(project => (
+                            <tr key={project.id} className="border-b dark:border-gray-700">
+                                <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">
+                                    {project.name}
+                                    {project.id === currentProjectId && <span className="ml-2 text-xs text-indigo-500">(đang mở)</span>}
+                                </td>
+                                <td className="px-4 py-3">{project.statementCount}</td>
+                                <td className="px-4 py-3">{formatDateTime(project.updatedAt)}</td>
+                                <td className="px-4 py-3 text-right space-x-3 whitespace-nowrap">
+                                    <button onClick={() => onOpen(project.id)} className="text-indigo-600 dark:text-indigo-400 hover:underline">Mở</button>
+                                    <button onClick={() => handleDuplicate(project.id)} className="text-gray-600 dark:text-gray-300 hover:underline">Nhân bản</button>
+                                    <button onClick={() => handleDelete(project)} className="text-red-600 dark:text-red-400 hover:underline">Xóa</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default ProjectList;
@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import type { AccountInfo, EditableField, Transaction } from '../types';
+import { DIFF_FIELDS, diffReports, summarizeDiff, type RowDiff, type RowDiffKind } from '../services/reportDiff';
+import { EDITABLE_LABELS } from '../services/changeHistory';
+import { formatCurrency } from '../utils/format';
+import { OpenHtmlIcon } from './Icons';
+
+interface ReportDiffViewProps {
+    accountInfo: AccountInfo;
+    original: Transaction[]; // As first extracted, before any edit
+    current: Transaction[];
+}
+
+const KIND_LABELS: Record<RowDiffKind, string> = {
+    unchanged: '',
+    changed: 'Đã sửa',
+    added: 'Thêm mới',
+    removed: 'Đã xóa',
+};
+
+const ROW_STYLES: Record<RowDiffKind, string> = {
+    unchanged: '',
+    changed: '',
+    added: 'bg-green-50 dark:bg-green-900/30',
+    removed: 'bg-red-50 dark:bg-red-900/30',
+};
+
+const AMOUNT_FIELDS = ['debit', 'credit', 'fee', 'vat'] as const;
+
+const isAmount = (field: EditableField) => (AMOUNT_FIELDS as readonly EditableField[]).includes(field);
+
+const displayValue = (tx: Transaction | undefined, field: EditableField): string => {
+    if (!tx) return '';
+    const value = tx[field];
+    if (isAmount(field)) return value ? formatCurrency(Number(value)) : '';
+    return value ? String(value) : '';
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const rowNumber = (index: number | undefined) => (index === undefined ? '—' : String(index + 1));
+
+// One line per adjustment, e.g. "PS Nợ: 100.000 → 120.000"
+const describeRow = (row: RowDiff): string[] => {
+    if (row.kind === 'changed') {
+        return row.changedFields.map(field => `${EDITABLE_LABELS[field]}: ${displayValue(row.original, field) || '(trống)'} → ${displayValue(row.current, field) || '(trống)'}`);
+    }
+    const tx = row.kind === 'added' ? row.current! : row.original!;
+    return [`${tx.date} · ${tx.description} · ${AMOUNT_FIELDS.map(field => displayValue(tx, field) && `${EDITABLE_LABELS[field]} ${displayValue(tx, field)}`).filter(Boolean).join(', ')}`];
+};
+
+const ReportDiffView: React.FC<ReportDiffViewProps> = ({ accountInfo, original, current }) => {
+    const [onlyDifferences, setOnlyDifferences] = useState(true);
+    const rows = useMemo(() => diffReports(original, current), [original, current]);
+    const summary = useMemo(() => summarizeDiff(rows), [rows]);
+    const adjustments = rows.filter(row => row.kind !== 'unchanged');
+    const visibleRows = onlyDifferences ? adjustments : rows;
+
+    const handlePrint = () => {
+        const netLines = AMOUNT_FIELDS
+            .map(field => [EDITABLE_LABELS[field], summary[field]] as const)
+            .filter(([, amount]) => amount !== 0)
+            .map(([label, amount]) => `<li>${label}: ${amount > 0 ? '+' : ''}${formatCurrency(amount)}</li>`)
+            .join('');
+        const tableRowsHtml = adjustments.map(row => `
+                <tr>
+                    <td>${rowNumber(row.originalIndex)}</td>
+                    <td>${rowNumber(row.currentIndex)}</td>
+                    <td>${KIND_LABELS[row.kind]}</td>
+                    <td>${describeRow(row).map(escapeHtml).join('<br>')}</td>
+                </tr>
+            `).join('');
+
+        const htmlContent = `
+            <!DOCTYPE html>
+            <html lang="vi">
+            <head>
+                <meta charset="UTF-8">
+                <title>Bảng Kê Điều Chỉnh</title>
+                <style>
+                    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; margin: 2em; color: #333; }
+                    h1, h3 { color: #1a202c; }
+                    table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
+                    th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
+                    th { background-color: #f2f2f2; font-weight: bold; }
+                </style>
+            </head>
+            <body>
+                <h1>Bảng Kê Điều Chỉnh So Với Bản Trích Xuất Gốc</h1>
+                <p><strong>Tài khoản:</strong> ${escapeHtml(`${accountInfo.accountName || 'N/A'} · ${accountInfo.accountNumber || 'N/A'} · ${accountInfo.bankName || 'N/A'}`)}</p>
+                <p><strong>Ngày in:</strong> ${new Date().toLocaleString('vi-VN')}</p>
+                <h3>Tổng hợp</h3>
+                <ul>
+                    <li>Số dòng gốc: ${original.length}, số dòng hiện tại: ${current.length}</li>
+                    <li>Đã sửa: ${summary.changed}, thêm mới: ${summary.added}, đã xóa: ${summary.removed}</li>
+                    ${netLines}
+                </ul>
+                <h3>Chi tiết điều chỉnh</h3>
+                ${adjustments.length === 0 ? '<p>Không có điều chỉnh nào.</p>' : `
+                <table>
+                    <thead>
+                        <tr><th>Dòng gốc</th><th>Dòng mới</th><th>Loại</th><th>Nội dung điều chỉnh</th></tr>
+                    </thead>
+                    <tbody>${tableRowsHtml}</tbody>
+                </table>`}
+            </body>
+            </html>
+        `;
+
+        const blob = new Blob([htmlContent], { type: 'text/html' });
+        const url = URL.createObjectURL(blob);
+        window.open(url, '_blank');
+    };
+
+    const cell = (row: RowDiff, side: 'original' | 'current', field: EditableField) => {
+        const highlighted = row.kind === 'changed' && row.changedFields.includes(field);
+        const align = isAmount(field) ? 'text-right' : '';
+        const highlight = highlighted ? (side === 'original' ? 'bg-red-100 dark:bg-red-900/50 line-through' : 'bg-yellow-100 dark:bg-yellow-900/50 font-semibold text-gray-900 dark:text-white') : '';
+        return (
+            <td key={`${side}-${field}`} className={`px-2 py-1 ${align} ${highlight} ${field === 'description' ? 'max-w-xs truncate' : 'whitespace-nowrap'}`} title={field === 'description' ? row[side]?.description : undefined}>
+                {displayValue(row[side], field)}
+            </td>
+        );
+    };
+
+    return (
+        <div className="mt-8">
+            <h2 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-200">SO SÁNH VỚI BẢN TRÍCH XUẤT GỐC</h2>
+            <div className="flex flex-wrap items-center justify-between gap-3 my-4 text-sm">
+                <p className="text-gray-600 dark:text-gray-400">
+                    {adjustments.length === 0
+                        ? 'Báo cáo chưa có điều chỉnh nào so với kết quả AI trích xuất ban đầu.'
+                        : `${summary.changed} dòng đã sửa, ${summary.added} dòng thêm mới, ${summary.removed} dòng đã xóa.`}
+                </p>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+                        Chỉ hiện dòng khác biệt
+                    </label>
+                    <button onClick={handlePrint} className="flex items-center px-4 py-2 font-medium text-white bg-gray-600 rounded-lg hover:bg-gray-700">
+                        <OpenHtmlIcon /> In bảng kê điều chỉnh
+                    </button>
+                </div>
+            </div>
+            <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow">
+                <table className="min-w-full text-xs text-left text-gray-500 dark:text-gray-400">
+                    <thead className="text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                        <tr>
+                            <th className="px-2 py-2" rowSpan={2}>Trạng thái</th>
+                            <th className="px-2 py-2 text-center border-l dark:border-gray-600" colSpan={DIFF_FIELDS.length + 1}>Bản gốc (AI)</th>
+                            <th className="px-2 py-2 text-center border-l dark:border-gray-600" colSpan={DIFF_FIELDS.length + 1}>Hiện tại</th>
+                        </tr>
+                        <tr>
+                            {(['original', 'current'] as const).map(side => (
+                                <React.Fragment key={side}>
+                                    <th className="px-2 py-2 border-l dark:border-gray-600">#</th>
+                                    {DIFF_FIELDS.map(field => (
+                                        <th key={field} className={`px-2 py-2 ${isAmount(field) ? 'text-right' : ''}`}>{EDITABLE_LABELS[field]}</th>
+                                    ))}
+                                </React.Fragment>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleRows.map((row, i) => (
+                            <tr key={i} className={`border-b dark:border-gray-700 ${ROW_STYLES[row.kind]}`}>
+                                <td className="px-2 py-1 whitespace-nowrap font-medium">{KIND_LABELS[row.kind]}</td>
+                                <td className="px-2 py-1 border-l dark:border-gray-700">{row.original ? rowNumber(row.originalIndex) : ''}</td>
+                                {DIFF_FIELDS.map(field => cell(row, 'original', field))}
+                                <td className="px-2 py-1 border-l dark:border-gray-700">{row.current ? rowNumber(row.currentIndex) : ''}</td>
+                                {DIFF_FIELDS.map(field => cell(row, 'current', field))}
+                            </tr>
+                        ))}
+                    </tbody>
+                    {adjustments.length > 0 && (
+                        <tfoot>
+                            <tr className="font-semibold text-gray-900 dark:text-white">
+                                <td className="px-2 py-2" colSpan={2 * DIFF_FIELDS.length + 3}>
+                                    Chênh lệch so với bản gốc: {AMOUNT_FIELDS.map(field => `${EDITABLE_LABELS[field]} ${formatCurrency(summary[field])}`).join(' · ')}
+                                </td>
+                            </tr>
+                        </tfoot>
+                    )}
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default ReportDiffView;
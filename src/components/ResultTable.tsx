@@ -0,0 +1,690 @@
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { AccountInfo, Transaction, ConfidenceField, CategoryRule, Invoice, InvoiceMatch, TransactionOperation, TransactionChanges, SplitPart, ChangeSource } from '../types';
+import { DownloadIcon, CopyIcon, OpenHtmlIcon, MicrophoneIcon } from './Icons';
+import { formatCurrency } from '../utils/format';
+import { downloadCsv } from '../utils/download';
+import { EXPORT_PROFILES, buildExport, buildLedgerTable } from '../services/exportProfiles';
+import { downloadLedgerXlsx } from '../services/xlsxExport';
+import { getFlaggedCells, isLowConfidence, FIELD_LABELS } from '../services/confidence';
+import { findBalanceBreaks, type BalanceFix } from '../services/balanceChain';
+import { getCategories, summarizeByCategory, UNCATEGORIZED } from '../services/categorizer';
+import { createTransaction } from '../services/transactionEdits';
+import { BASE_CURRENCY, toVnd, type VndConversion } from '../services/currency';
+import { numberToVietnameseWords, parseVnAmount } from '../utils/amount';
+import CategoryRulesEditor from './CategoryRulesEditor';
+import AmountInput from './AmountInput';
+import DateInput from './DateInput';
+
+interface ResultTableProps {
+    accountInfo: AccountInfo;
+    transactions: Transaction[];
+    openingBalance: number;
+    endingBalance: number;
+    onApplyOperation: (operation: TransactionOperation, source?: ChangeSource) => void;
+    balanceMismatchWarning: string | null;
+    selectedIndex?: number | null;
+    onSelectRow?: (index: number) => void;
+    onConfirmField?: (index: number, field: ConfidenceField) => void;
+    onApplyFix?: (index: number, changes: BalanceFix['changes']) => void;
+    categoryRules: CategoryRule[];
+    onCategoryRulesChange: (rules: CategoryRule[]) => void;
+    onUpdateCategory: (index: number, category: string) => void;
+    onCategorizeWithAI: () => void;
+    isCategorizing: boolean;
+    invoices?: Invoice[];
+    invoiceMatches?: InvoiceMatch[];
+    conversion?: VndConversion | null; // Set for foreign-currency statements
+}
+
+const CATEGORY_SOURCE_LABELS: Record<string, string> = {
+    rule: 'Theo quy tắc',
+    learned: 'Theo lần sửa trước',
+    ai: 'Do AI gợi ý',
+    manual: 'Chọn tay',
+};
+
+// Only the first few breaks are listed; later ones are often knock-on effects
+const MAX_LISTED_BREAKS = 5;
+
+// The amount cell a dictation is for
+type VoiceTarget = { index: number; field: 'debit' | 'credit' | 'fee' | 'vat' };
+
+const ResultTable: React.FC<ResultTableProps> = ({ accountInfo, transactions, openingBalance, endingBalance, onApplyOperation, balanceMismatchWarning, selectedIndex, onSelectRow, onConfirmField, onApplyFix, categoryRules, onCategoryRulesChange, onUpdateCategory, onCategorizeWithAI, isCategorizing, invoices = [], invoiceMatches = [], conversion = null }) => {
+    const [copySuccess, setCopySuccess] = useState('');
+    const [exportProfileId, setExportProfileId] = useState<string>(() => localStorage.getItem('exportProfile') || 'generic');
+    const [listeningFor, setListeningFor] = useState<VoiceTarget | null>(null);
+    const recognitionRef = useRef<any>(null);
+    // The recognition is created once, so its handlers read the target cell and the latest callback from refs
+    const listeningForRef = useRef<VoiceTarget | null>(null);
+    const onApplyOperationRef = useRef(onApplyOperation);
+    onApplyOperationRef.current = onApplyOperation;
+    const [reviewPosition, setReviewPosition] = useState<number | null>(null);
+    const [categoryFilter, setCategoryFilter] = useState('');
+    const [showCategoryRules, setShowCategoryRules] = useState(false);
+
+    const categories = useMemo(() => getCategories(categoryRules, transactions), [categoryRules, transactions]);
+    const categoryTotals = useMemo(() => summarizeByCategory(transactions), [transactions]);
+    const uncategorizedCount = transactions.filter(tx => !tx.category).length;
+
+    const flaggedCells = useMemo(() => getFlaggedCells(transactions), [transactions]);
+    const balanceBreaks = useMemo(() => findBalanceBreaks(transactions, openingBalance), [transactions, openingBalance]);
+    const breakByIndex = useMemo(() => new Map(balanceBreaks.map(balanceBreak => [balanceBreak.index, balanceBreak])), [balanceBreaks]);
+
+    // The invoice column only appears once an invoice list has been imported
+    const showInvoices = invoices.length > 0;
+    const invoiceById = useMemo(() => new Map(invoices.map(invoice => [invoice.id, invoice])), [invoices]);
+    const matchByIndex = useMemo(() => new Map(invoiceMatches.map(match => [match.transactionIndex, match])), [invoiceMatches]);
+    const labelColumns = showInvoices ? 9 : 8;
+
+    const updateField = <K extends keyof TransactionChanges>(index: number, field: K, value: TransactionChanges[K], source?: ChangeSource) => {
+        onApplyOperation({ type: 'update', index, changes: { [field]: value } }, source);
+    };
+
+    // Amounts typed as "1.000.000; 250.000"; whatever is left of the row becomes the last line
+    const handleSplit = (index: number) => {
+        const tx = transactions[index];
+        const field = tx.debit > 0 ? 'debit' : 'credit';
+        const input = window.prompt(`Tách dòng ${index + 1} (${formatCurrency(tx[field])}). Nhập số tiền các dòng mới, cách nhau bằng dấu ";":`);
+        if (!input) return;
+        const amounts = input.split(';').map(part => parseVnAmount(part)).filter((amount): amount is number => amount !== null && amount > 0);
+        const rest = tx[field] - amounts.reduce((sum, amount) => sum + amount, 0);
+        if (rest > 0) amounts.push(rest);
+        const parts: SplitPart[] = amounts.map((amount, i) => ({
+            [field]: amount,
+            // Fee and VAT stay with the first line
+            ...(i === 0 ? { fee: tx.fee || 0, vat: tx.vat || 0 } : {}),
+        }));
+        onApplyOperation({ type: 'split', index, parts });
+    };
+
+    const goToRow = (index: number) => {
+        onSelectRow?.(index);
+        document.getElementById(`row-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+    const reviewCell = reviewPosition !== null ? flaggedCells[reviewPosition] ?? null : null;
+
+    // Keep the review position valid as confirmed cells drop out of the queue
+    useEffect(() => {
+        if (reviewPosition === null) return;
+        if (flaggedCells.length === 0) {
+            setReviewPosition(null);
+        } else if (reviewPosition >= flaggedCells.length) {
+            setReviewPosition(flaggedCells.length - 1);
+        }
+    }, [flaggedCells, reviewPosition]);
+
+    useEffect(() => {
+        if (!reviewCell) return;
+        const cell = document.getElementById(`cell-${reviewCell.index}-${reviewCell.field}`);
+        cell?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        cell?.querySelector('input')?.focus();
+    }, [reviewCell]);
+
+    const cellFlagClass = (tx: Transaction, index: number, field: ConfidenceField) => {
+        if (reviewCell?.index === index && reviewCell.field === field) return 'ring-2 ring-orange-500 bg-orange-100 dark:bg-orange-900/60';
+        return isLowConfidence(tx, field) ? 'bg-orange-50 dark:bg-orange-900/30' : '';
+    };
+
+    const cellTitle = (tx: Transaction, field: ConfidenceField) =>
+        isLowConfidence(tx, field) ? `Độ tin cậy thấp: ${Math.round(tx.confidence![field]! * 100)}%` : undefined;
+
+    useEffect(() => {
+        const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+        if (!SpeechRecognition) {
+            console.warn("Speech Recognition not supported in this browser.");
+            return;
+        }
+        const recognition = new SpeechRecognition();
+        recognition.continuous = false;
+        recognition.interimResults = false;
+        recognition.lang = 'vi-VN';
+
+        recognition.onresult = (event: any) => {
+            const last = event.results.length - 1;
+            const transcript = event.results[last][0].transcript;
+            
+            const numericValue = parseVnAmount(transcript);
+            const target = listeningForRef.current;
+            if (numericValue !== null && target) {
+                onApplyOperationRef.current({ type: 'update', index: target.index, changes: { [target.field]: numericValue } }, 'voice');
+            } else if (numericValue === null) {
+                alert(`Không hiểu số tiền "${transcript}". Vui lòng đọc lại, ví dụ: "ba triệu hai trăm năm mươi nghìn".`);
+            }
+        };
+
+        recognition.onerror = (event: any) => {
+            console.error("Speech recognition error:", event.error);
+            let errorMessage = `Đã xảy ra lỗi nhận dạng giọng nói: ${event.error}.`;
+            if (event.error === 'no-speech') {
+                errorMessage = "Không nghe thấy giọng nói. Vui lòng đảm bảo micrô của bạn đang hoạt động và thử nói lại.";
+            } else if (event.error === 'audio-capture') {
+                errorMessage = "Không tìm thấy micrô. Vui lòng kiểm tra xem micrô đã được kết nối và cấp quyền trong trình duyệt.";
+            } else if (event.error === 'not-allowed') {
+                errorMessage = "Quyền truy cập micrô đã bị từ chối. Vui lòng vào cài đặt trình duyệt để cấp quyền.";
+            }
+            alert(errorMessage);
+        };
+
+
+        recognition.onend = () => {
+            listenFor(null);
+        };
+        
+        recognitionRef.current = recognition;
+        return () => recognition.abort();
+    }, []);
+
+    const listenFor = (target: VoiceTarget | null) => {
+        listeningForRef.current = target;
+        setListeningFor(target);
+    };
+    
+    const handleVoiceInput = (index: number, field: VoiceTarget['field']) => {
+        if (recognitionRef.current) {
+            if (listeningForRef.current) {
+                recognitionRef.current.stop();
+                listenFor(null);
+            } else {
+                listenFor({ index, field });
+                recognitionRef.current.start();
+            }
+        } else {
+             alert("Trình duyệt không hỗ trợ nhận dạng giọng nói.");
+        }
+    };
+
+
+    const { totalDebit, totalCredit, totalFee, totalVat, calculatedEndingBalance } = useMemo(() => {
+        const totals = transactions.reduce((acc, tx) => {
+            acc.totalDebit += tx.debit;
+            acc.totalCredit += tx.credit;
+            acc.totalFee += tx.fee || 0;
+            acc.totalVat += tx.vat || 0;
+            return acc;
+        }, { totalDebit: 0, totalCredit: 0, totalFee: 0, totalVat: 0 });
+        
+        const calculatedEndingBalance = openingBalance + totals.totalDebit - totals.totalCredit - totals.totalFee - totals.totalVat;
+        return { ...totals, calculatedEndingBalance };
+    }, [transactions, openingBalance]);
+
+
+    const generateTableData = useCallback(() => {
+        return buildLedgerTable({ accountInfo, transactions, openingBalance, conversion });
+    }, [accountInfo, transactions, openingBalance, conversion]);
+
+
+    const handleDownload = () => {
+        localStorage.setItem('exportProfile', exportProfileId);
+        const { profile, table } = buildExport(exportProfileId, { accountInfo, transactions, openingBalance, conversion });
+        downloadCsv(profile.fileName, table.headers, table.rows);
+    };
+
+    const handleDownloadXlsx = () => {
+        try {
+            downloadLedgerXlsx({ accountInfo, transactions, openingBalance, conversion }, endingBalance);
+        } catch (error) {
+            console.error("Error exporting XLSX:", error);
+            alert(error instanceof Error ? error.message : 'Xuất file Excel thất bại.');
+        }
+    };
+
+    const handleCopy = () => {
+        const { headers, rows } = generateTableData();
+        const tsvContent = [headers.join('\t'), ...rows.map(row => row.join('\t'))].join('\n');
+        
+        navigator.clipboard.writeText(tsvContent).then(() => {
+            setCopySuccess('Đã sao chép vào clipboard!');
+            setTimeout(() => setCopySuccess(''), 2000);
+        }, () => {
+            setCopySuccess('Sao chép thất bại.');
+            setTimeout(() => setCopySuccess(''), 2000);
+        });
+    };
+
+    const handleOpenHtml = () => {
+        // The totals are in the account currency; "Bằng chữ" names it
+        const currency = accountInfo.currency || BASE_CURRENCY;
+        let currentBalance = openingBalance;
+        const tableRowsHtml = transactions.map(tx => {
+            currentBalance += tx.debit - tx.credit - (tx.fee || 0) - (tx.vat || 0);
+            return `
+                <tr>
+                    <td>${accountInfo.accountName || 'N/A'}</td>
+                    <td>${accountInfo.accountNumber || 'N/A'}</td>
+                    <td>${accountInfo.bankName || 'N/A'}</td>
+                    <td>${accountInfo.branch || 'N/A'}</td>
+                    <td>${tx.transactionCode || ''}</td>
+                    <td>${tx.date}</td>
+                    <td>${tx.description}</td>
+                    <td style="color: green;">${tx.debit > 0 ? formatCurrency(tx.debit) : ''}</td>
+                    <td style="color: red;">${tx.credit > 0 ? formatCurrency(tx.credit) : ''}</td>
+                    <td>${(tx.fee || 0) > 0 ? formatCurrency(tx.fee!) : ''}</td>
+                    <td>${(tx.vat || 0) > 0 ? formatCurrency(tx.vat!) : ''}</td>
+                    <td>${formatCurrency(currentBalance)}</td>
+                </tr>
+            `;
+        }).join('');
+
+        const htmlContent = `
+            <!DOCTYPE html>
+            <html lang="vi">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Sổ Kế Toán</title>
+                <style>
+                    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; margin: 2em; color: #333; }
+                    h1, h3 { color: #1a202c; }
+                    table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
+                    th, td { border: 1px solid #ddd; padding: 12px; text-align: left; }
+                    th { background-color: #f2f2f2; font-weight: bold; }
+                    tr:nth-child(even) { background-color: #f9f9f9; }
+                    tr:hover { background-color: #f1f1f1; }
+                    td:nth-child(8), td:nth-child(9), td:nth-child(10), td:nth-child(11), td:nth-child(12) { text-align: right; font-family: monospace; }
+                    tfoot tr { background-color: #f8fafc; font-weight: bold; }
+                </style>
+            </head>
+            <body>
+                <h1>Bảng Kê Kế Toán</h1>
+                <h3>Thông tin tài khoản</h3>
+                <p><strong>Tên tài khoản:</strong> ${accountInfo.accountName || 'N/A'}</p>
+                <p><strong>Số tài khoản:</strong> ${accountInfo.accountNumber || 'N/A'}</p>
+                <p><strong>Ngân hàng:</strong> ${accountInfo.bankName || 'N/A'}</p>
+                <p><strong>Chi nhánh:</strong> ${accountInfo.branch || 'N/A'}</p>
+                
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Tên TK</th>
+                            <th>Số TK</th>
+                            <th>Ngân hàng</th>
+                            <th>Chi nhánh</th>
+                            <th>Mã GD</th>
+                            <th>Ngày</th>
+                            <th>Nội dung</th>
+                            <th>PS Nợ</th>
+                            <th>PS Có</th>
+                            <th>Phí</th>
+                            <th>Thuế VAT</th>
+                            <th>Số dư</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <tr style="font-weight: bold;">
+                            <td>${accountInfo.accountName || 'N/A'}</td>
+                            <td>${accountInfo.accountNumber || 'N/A'}</td>
+                            <td>${accountInfo.bankName || 'N/A'}</td>
+                            <td>${accountInfo.branch || 'N/A'}</td>
+                            <td colspan="7" style="text-align: center;">Số dư đầu kỳ</td>
+                            <td>${formatCurrency(openingBalance)}</td>
+                        </tr>
+                        ${tableRowsHtml}
+                    </tbody>
+                     <tfoot>
+                        <tr style="font-weight: bold; border-top: 2px solid #e2e8f0;">
+                            <td colspan="7" style="text-align: center;">Cộng phát sinh</td>
+                            <td style="text-align: right; color: green;">${formatCurrency(totalDebit)}</td>
+                            <td style="text-align: right; color: red;">${formatCurrency(totalCredit)}</td>
+                            <td style="text-align: right;">${formatCurrency(totalFee)}</td>
+                            <td style="text-align: right;">${formatCurrency(totalVat)}</td>
+                            <td style="text-align: right;">${formatCurrency(calculatedEndingBalance)}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+                <h3>Bằng chữ</h3>
+                <p><strong>Tổng phát sinh Nợ:</strong> ${numberToVietnameseWords(totalDebit, currency)}</p>
+                <p><strong>Tổng phát sinh Có:</strong> ${numberToVietnameseWords(totalCredit, currency)}</p>
+                <p><strong>Tổng phí và thuế VAT:</strong> ${numberToVietnameseWords(totalFee + totalVat, currency)}</p>
+                <p><strong>Số dư cuối kỳ:</strong> ${numberToVietnameseWords(calculatedEndingBalance, currency)}</p>
+            </body>
+            </html>
+        `;
+
+        const blob = new Blob([htmlContent], { type: 'text/html' });
+        const url = URL.createObjectURL(blob);
+        window.open(url, '_blank');
+    };
+
+
+    let currentBalance = openingBalance;
+    let currentBalanceVnd = conversion?.openingBalanceVnd ?? 0;
+    // Amount headers name the account currency on foreign-currency statements
+    const currencySuffix = conversion ? ` (${conversion.currency})` : '';
+    const editableCellClass = "px-1 py-1 bg-transparent text-right w-full focus:bg-white dark:focus:bg-gray-900 focus:ring-1 focus:ring-indigo-500 rounded";
+    const textCellClass = "px-1 py-1 bg-transparent w-full focus:bg-white dark:focus:bg-gray-900 focus:ring-1 focus:ring-indigo-500 rounded";
+    const rowActionClass = "px-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-30 disabled:hover:text-gray-400";
+
+    return (
+        <div className="mt-8">
+            <h2 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-200">KẾT QUẢ ĐẦU RA</h2>
+            {balanceMismatchWarning && (
+                <div className="my-4 p-4 bg-yellow-100 dark:bg-yellow-900 border-l-4 border-yellow-500 text-yellow-700 dark:text-yellow-200 rounded-lg shadow-md">
+                    <p className="font-bold">Cảnh báo đối chiếu!</p>
+                    <p>{balanceMismatchWarning}</p>
+                </div>
+            )}
+            {balanceBreaks.length > 0 && (
+                <div className="my-4 p-4 bg-red-50 dark:bg-red-900/40 border-l-4 border-red-500 text-red-800 dark:text-red-200 rounded-lg shadow-md">
+                    <p className="font-bold">Số dư bị lệch tại {balanceBreaks.length} dòng (so với cột số dư in trên sao kê)</p>
+                    <ul className="mt-2 space-y-2 text-sm">
+                        {balanceBreaks.slice(0, MAX_LISTED_BREAKS).map(balanceBreak => (
+                            <li key={balanceBreak.index}>
+                                <button onClick={() => goToRow(balanceBreak.index)} className="font-semibold underline">
+                                    Dòng {balanceBreak.index + 1} ({transactions[balanceBreak.index].date})
+                                </button>
+                                : số dư sao kê {formatCurrency(balanceBreak.printed)}, tính được {formatCurrency(balanceBreak.expected)}, chênh lệch {formatCurrency(balanceBreak.difference)}.
+                                {balanceBreak.suggestions.length > 0 ? (
+                                    <div className="mt-1 flex flex-wrap gap-2">
+                                        {balanceBreak.suggestions.map(fix => (
+                                            <span key={fix.label} className="inline-flex items-center gap-2 px-2 py-1 bg-white dark:bg-gray-800 border border-red-300 dark:border-red-700 rounded">
+                                                {fix.label}
+                                                {onApplyFix && (
+                                                    <button onClick={() => onApplyFix(balanceBreak.index, fix.changes)} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">Áp dụng</button>
+                                                )}
+                                            </span>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <span> Không tìm thấy cách sửa đơn giản: có thể thiếu một giao dịch trước dòng này hoặc số dư đầu kỳ chưa đúng.</span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                    {balanceBreaks.length > MAX_LISTED_BREAKS && (
+                        <p className="mt-2 text-sm">… và {balanceBreaks.length - MAX_LISTED_BREAKS} dòng khác.</p>
+                    )}
+                </div>
+            )}
+            {reviewCell && (
+                <div className="sticky top-0 z-10 my-4 p-3 bg-orange-100 dark:bg-orange-900 border-l-4 border-orange-500 text-orange-800 dark:text-orange-100 rounded-lg shadow-md flex flex-wrap items-center justify-between gap-2">
+                    <span>
+                        Rà soát ô {reviewPosition! + 1}/{flaggedCells.length}: dòng {reviewCell.index + 1} – <b>{FIELD_LABELS[reviewCell.field]}</b> (độ tin cậy {Math.round(reviewCell.confidence * 100)}%)
+                    </span>
+                    <div className="space-x-2 text-sm">
+                        <button onClick={() => setReviewPosition(Math.max(0, reviewPosition! - 1))} disabled={reviewPosition === 0} className="px-3 py-1 rounded border border-orange-400 disabled:opacity-40">Trước</button>
+                        {onConfirmField && (
+                            <button onClick={() => onConfirmField(reviewCell.index, reviewCell.field)} className="px-3 py-1 rounded bg-orange-600 text-white hover:bg-orange-700">Xác nhận đúng</button>
+                        )}
+                        <button onClick={() => setReviewPosition(Math.min(flaggedCells.length - 1, reviewPosition! + 1))} disabled={reviewPosition === flaggedCells.length - 1} className="px-3 py-1 rounded border border-orange-400 disabled:opacity-40">Tiếp</button>
+                        <button onClick={() => setReviewPosition(null)} className="px-3 py-1 rounded border border-orange-400">Thoát</button>
+                    </div>
+                </div>
+            )}
+            <div className="flex justify-end my-4 space-x-2">
+                {flaggedCells.length > 0 && reviewPosition === null && (
+                    <button onClick={() => setReviewPosition(0)} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-orange-500 rounded-lg hover:bg-orange-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-400 transition-colors">
+                        Rà soát ô nghi ngờ ({flaggedCells.length})
+                    </button>
+                )}
+                <button onClick={handleCopy} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors">
+                    <CopyIcon /> {copySuccess || 'Copy Bảng'}
+                </button>
+                <select
+                    value={exportProfileId}
+                    onChange={(e) => setExportProfileId(e.target.value)}
+                    className="px-3 py-2 text-sm text-gray-900 dark:text-white bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Mẫu xuất"
+                >
+                    {EXPORT_PROFILES.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                </select>
+                <button onClick={handleDownload} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+                    <DownloadIcon /> Download CSV
+                </button>
+                <button onClick={handleDownloadXlsx} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 transition-colors">
+                    <DownloadIcon /> Download Excel
+                </button>
+                <button onClick={handleOpenHtml} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors">
+                    <OpenHtmlIcon /> Mở HTML
+                </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 mb-2 text-sm">
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    Lọc theo nhóm:
+                    <select
+                        value={categoryFilter}
+                        onChange={(e) => setCategoryFilter(e.target.value)}
+                        className="px-2 py-1 text-gray-900 dark:text-white bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg"
+                    >
+                        <option value="">Tất cả</option>
+                        {categoryTotals.map(total => (
+                            <option key={total.category} value={total.category}>{total.category} ({total.count})</option>
+                        ))}
+                    </select>
+                </label>
+                {uncategorizedCount > 0 && (
+                    <button onClick={onCategorizeWithAI} disabled={isCategorizing} className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50">
+                        {isCategorizing ? 'AI đang phân loại...' : `Phân loại ${uncategorizedCount} giao dịch còn lại bằng AI`}
+                    </button>
+                )}
+                <button onClick={() => setShowCategoryRules(!showCategoryRules)} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                    {showCategoryRules ? 'Ẩn quy tắc phân loại' : `Quy tắc phân loại (${categoryRules.length})`}
+                </button>
+            </div>
+            {showCategoryRules && (
+                <CategoryRulesEditor rules={categoryRules} categories={categories} onChange={onCategoryRulesChange} />
+            )}
+            <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow">
+                {/* Ctrl+Z inside these cells undoes through the change log */}
+                <table data-undo-scope className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                        <tr>
+                            {["Tên TK", "Số TK", "Ngân hàng", "Chi nhánh", "Mã GD", "Ngày", "Nội dung", "Nhóm", ...(showInvoices ? ["Hóa đơn"] : []), ...["PS Nợ", "PS Có", "Phí", "Thuế VAT", "Số dư"].map(header => header + currencySuffix), ...(conversion ? ["Tỷ giá", "Số dư (VND)"] : []), "Thao tác"].map(header => (
+                                <th key={header} scope="col" className="px-6 py-3">{header}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <tr className="bg-white border-b dark:bg-gray-800 dark:border-gray-700 font-semibold">
+                            <td className="px-6 py-4">{accountInfo.accountName || 'N/A'}</td>
+                            <td className="px-6 py-4">{accountInfo.accountNumber || 'N/A'}</td>
+                            <td className="px-6 py-4">{accountInfo.bankName || 'N/A'}</td>
+                            <td className="px-6 py-4">{accountInfo.branch || 'N/A'}</td>
+                            <td colSpan={labelColumns} className="px-6 py-4 text-center">Số dư đầu kỳ</td>
+                            <td className="px-6 py-4 text-right">{formatCurrency(openingBalance)}</td>
+                            {conversion && (
+                                <>
+                                    <td className="px-6 py-4 text-right">{conversion.openingRate ? formatCurrency(conversion.openingRate) : ''}</td>
+                                    <td className="px-6 py-4 text-right">{formatCurrency(conversion.openingBalanceVnd)}</td>
+                                </>
+                            )}
+                            <td></td>
+                        </tr>
+                        {transactions.map((tx, index) => {
+                            currentBalance = openingBalance + transactions.slice(0, index + 1).reduce((acc, currentTx) => acc + currentTx.debit - currentTx.credit - (currentTx.fee || 0) - (currentTx.vat || 0), 0);
+                            const isListening = (field: 'debit' | 'credit' | 'fee' | 'vat') => listeningFor?.index === index && listeningFor?.field === field;
+                            const balanceBreak = breakByIndex.get(index);
+                            const invoiceMatch = matchByIndex.get(index);
+                            const rate = conversion?.rates[index] ?? null;
+                            if (conversion) currentBalanceVnd += toVnd(tx.debit, rate) - toVnd(tx.credit, rate) - toVnd(tx.fee || 0, rate) - toVnd(tx.vat || 0, rate);
+                            // Hidden rows still count towards the running balance above
+                            if (categoryFilter && (tx.category || UNCATEGORIZED) !== categoryFilter) return null;
+
+                            return (
+                                <tr
+                                    key={index}
+                                    id={`row-${index}`}
+                                    onClick={() => onSelectRow?.(index)}
+                                    className={`border-b dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 ${onSelectRow ? 'cursor-pointer' : ''} ${selectedIndex === index ? 'bg-yellow-50 dark:bg-yellow-900/40' : 'bg-white dark:bg-gray-800'} ${balanceBreak ? 'border-l-4 border-l-red-500' : ''}`}
+                                >
+                                    <td className="px-6 py-4">{accountInfo.accountName || 'N/A'}</td>
+                                    <td className="px-6 py-4">{accountInfo.accountNumber || 'N/A'}</td>
+                                    <td className="px-6 py-4">{accountInfo.bankName || 'N/A'}</td>
+                                    <td className="px-6 py-4">{accountInfo.branch || 'N/A'}</td>
+                                    <td className="px-6 py-4">
+                                        <input type="text" value={tx.transactionCode || ''} onChange={(e) => updateField(index, 'transactionCode', e.target.value)} className={textCellClass} />
+                                    </td>
+                                    <td id={`cell-${index}-date`} title={cellTitle(tx, 'date')} className={`px-6 py-4 ${cellFlagClass(tx, index, 'date')}`}>
+                                        <DateInput value={tx.date} onChange={(value) => updateField(index, 'date', value)} className={`${textCellClass} w-24`} />
+                                    </td>
+                                    <td className="px-6 py-4 max-w-xs">
+                                        <input type="text" value={tx.description} title={tx.description} onChange={(e) => updateField(index, 'description', e.target.value)} className={textCellClass} />
+                                        {tx.counterparty?.name && (
+                                            <div className="text-xs text-gray-400 truncate">
+                                                {tx.counterparty.code && <span className="mr-1 px-1 rounded bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 font-mono">{tx.counterparty.code}</span>}
+                                                {[tx.counterparty.name, tx.counterparty.account, tx.counterparty.bank].filter(Boolean).join(' · ')}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4" title={tx.categorySource ? CATEGORY_SOURCE_LABELS[tx.categorySource] : undefined}>
+                                        <select
+                                            value={tx.category || ''}
+                                            onChange={(e) => onUpdateCategory(index, e.target.value)}
+                                            onClick={(e) => e.stopPropagation()}
+                                            className={`px-1 py-1 bg-transparent rounded focus:ring-1 focus:ring-indigo-500 ${tx.categorySource === 'ai' ? 'italic' : ''} ${!tx.category ? 'text-gray-400' : 'text-gray-700 dark:text-gray-200'}`}
+                                        >
+                                            <option value="">{UNCATEGORIZED}</option>
+                                            {categories.map(category => <option key={category} value={category}>{category}</option>)}
+                                        </select>
+                                    </td>
+                                    {showInvoices && (
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            {invoiceMatch?.allocations.map(allocation => {
+                                                const invoice = invoiceById.get(allocation.invoiceId);
+                                                if (!invoice) return null;
+                                                const isPartial = allocation.amount < invoice.amount;
+                                                return (
+                                                    <div key={allocation.invoiceId} title={`${invoice.partyName} · ${invoice.date} · ${formatCurrency(allocation.amount)} / ${formatCurrency(invoice.amount)}`}>
+                                                        {invoice.series && `${invoice.series}-`}{invoice.number}
+                                                        {isPartial && <span className="ml-1 px-1 text-xs rounded bg-amber-100 dark:bg-amber-900 text-amber-700 dark:text-amber-300">một phần</span>}
+                                                    </div>
+                                                );
+                                            })}
+                                            {invoiceMatch && invoiceMatch.unallocated > 0 && (
+                                                <div className="text-xs text-gray-400">Dư {formatCurrency(invoiceMatch.unallocated)}</div>
+                                            )}
+                                        </td>
+                                    )}
+                                    <td id={`cell-${index}-debit`} title={cellTitle(tx, 'debit')} className={`px-6 py-4 text-right text-green-600 dark:text-green-400 ${cellFlagClass(tx, index, 'debit')}`}>
+                                        <div className="flex items-center justify-end space-x-2">
+                                            <AmountInput
+                                                value={tx.debit}
+                                                onChange={(value) => updateField(index, 'debit', value)}
+                                                className={editableCellClass}
+                                            />
+                                            <MicrophoneIcon isListening={isListening('debit')} onClick={() => handleVoiceInput(index, 'debit')} />
+                                        </div>
+                                    </td>
+                                    <td id={`cell-${index}-credit`} title={cellTitle(tx, 'credit')} className={`px-6 py-4 text-right text-red-600 dark:text-red-400 ${cellFlagClass(tx, index, 'credit')}`}>
+                                         <div className="flex items-center justify-end space-x-2">
+                                            <AmountInput
+                                                value={tx.credit}
+                                                onChange={(value) => updateField(index, 'credit', value)}
+                                                className={editableCellClass}
+                                            />
+                                            <MicrophoneIcon isListening={isListening('credit')} onClick={() => handleVoiceInput(index, 'credit')} />
+                                        </div>
+                                    </td>
+                                     <td id={`cell-${index}-fee`} title={cellTitle(tx, 'fee')} className={`px-6 py-4 text-right ${cellFlagClass(tx, index, 'fee')}`}>
+                                         <div className="flex items-center justify-end space-x-2">
+                                            <AmountInput
+                                                value={tx.fee || 0}
+                                                onChange={(value) => updateField(index, 'fee', value)}
+                                                className={editableCellClass}
+                                            />
+                                            <MicrophoneIcon isListening={isListening('fee')} onClick={() => handleVoiceInput(index, 'fee')} />
+                                        </div>
+                                    </td>
+                                     <td id={`cell-${index}-vat`} title={cellTitle(tx, 'vat')} className={`px-6 py-4 text-right ${cellFlagClass(tx, index, 'vat')}`}>
+                                         <div className="flex items-center justify-end space-x-2">
+                                            <AmountInput
+                                                value={tx.vat || 0}
+                                                onChange={(value) => updateField(index, 'vat', value)}
+                                                className={editableCellClass}
+                                            />
+                                            <MicrophoneIcon isListening={isListening('vat')} onClick={() => handleVoiceInput(index, 'vat')} />
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 text-right font-medium">
+                                        {formatCurrency(currentBalance)}
+                                        {balanceBreak && (
+                                            <div className="text-xs font-normal text-red-600 dark:text-red-400" title="Số dư in trên sao kê">
+                                                Sao kê: {formatCurrency(balanceBreak.printed)}
+                                            </div>
+                                        )}
+                                    </td>
+                                    {conversion && (
+                                        <>
+                                            <td
+                                                className={`px-6 py-4 text-right ${rate === null ? 'bg-amber-100 dark:bg-amber-900/50' : ''}`}
+                                                title={tx.exchangeRate ? 'Tỷ giá nhập trên dòng' : rate !== null ? 'Theo bảng tỷ giá' : 'Chưa có tỷ giá'}
+                                            >
+                                                <AmountInput
+                                                    value={tx.exchangeRate || 0}
+                                                    onChange={(value) => updateField(index, 'exchangeRate', value)}
+                                                    className={`${editableCellClass} w-24`}
+                                                />
+                                                {!tx.exchangeRate && rate !== null && (
+                                                    <div className="text-xs text-gray-400">Bảng: {formatCurrency(rate)}</div>
+                                                )}
+                                            </td>
+                                            <td className="px-6 py-4 text-right font-medium">{formatCurrency(currentBalanceVnd)}</td>
+                                        </>
+                                    )}
+                                    <td className="px-2 py-4 whitespace-nowrap text-xs" onClick={(e) => e.stopPropagation()}>
+                                        <button onClick={() => onApplyOperation({ type: 'move', from: index, to: index - 1 })} disabled={index === 0} className={rowActionClass} title="Chuyển lên">↑</button>
+                                        <button onClick={() => onApplyOperation({ type: 'move', from: index, to: index + 1 })} disabled={index === transactions.length - 1} className={rowActionClass} title="Chuyển xuống">↓</button>
+                                        <button onClick={() => onApplyOperation({ type: 'insert', index: index + 1, transaction: createTransaction({ date: tx.date }) })} className={rowActionClass} title="Chèn dòng bên dưới">+</button>
+                                        <button onClick={() => handleSplit(index)} disabled={!tx.debit && !tx.credit} className={rowActionClass} title="Tách thành nhiều dòng">Tách</button>
+                                        <button onClick={() => onApplyOperation({ type: 'merge', index, count: 2 })} disabled={index === transactions.length - 1} className={rowActionClass} title="Gộp với dòng dưới">Gộp</button>
+                                        <button onClick={() => window.confirm(`Xóa dòng ${index + 1}?`) && onApplyOperation({ type: 'delete', index })} className={`${rowActionClass} hover:text-red-600`} title="Xóa dòng">Xóa</button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                     <tfoot className="bg-gray-50 dark:bg-gray-700">
+                        <tr className="font-semibold text-gray-900 dark:text-white">
+                            <td colSpan={labelColumns} className="px-6 py-3 text-center text-base">Cộng phát sinh</td>
+                            <td className="px-6 py-3 text-right text-base text-green-600 dark:text-green-400">{formatCurrency(totalDebit)}</td>
+                            <td className="px-6 py-3 text-right text-base text-red-600 dark:text-red-400">{formatCurrency(totalCredit)}</td>
+                            <td className="px-6 py-3 text-right text-base">{formatCurrency(totalFee)}</td>
+                            <td className="px-6 py-3 text-right text-base">{formatCurrency(totalVat)}</td>
+                            <td className="px-6 py-3 text-right text-base font-bold">{formatCurrency(calculatedEndingBalance)}</td>
+                            {conversion && (
+                                <>
+                                    <td></td>
+                                    <td className="px-6 py-3 text-right text-base font-bold">{formatCurrency(conversion.bookBalanceVnd)}</td>
+                                </>
+                            )}
+                            <td></td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+            <button
+                onClick={() => onApplyOperation({ type: 'insert', index: transactions.length, transaction: createTransaction({ date: transactions[transactions.length - 1]?.date }) })}
+                className="mt-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+                + Thêm giao dịch
+            </button>
+            {categoryTotals.length > 1 && (
+                <div className="mt-4 overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow">
+                    <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                        <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                            <tr>
+                                <th className="px-6 py-3">Nhóm</th>
+                                <th className="px-6 py-3 text-right">Số GD</th>
+                                <th className="px-6 py-3 text-right">Tiền vào</th>
+                                <th className="px-6 py-3 text-right">Tiền ra (gồm phí, VAT)</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {categoryTotals.map(total => (
+                                <tr key={total.category} className="border-b dark:border-gray-700">
+                                    <td className="px-6 py-2">{total.category}</td>
+                                    <td className="px-6 py-2 text-right">{total.count}</td>
+                                    <td className="px-6 py-2 text-right text-green-600 dark:text-green-400">{formatCurrency(total.moneyIn)}</td>
+                                    <td className="px-6 py-2 text-right text-red-600 dark:text-red-400">{formatCurrency(total.moneyOut)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ResultTable;
@@ -0,0 +1,65 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { TransactionSource } from '../types';
+import type { SourcePage } from '../services/workspace';
+import { CloseIcon } from './Icons';
+
+interface SourceViewerProps {
+    pages: SourcePage[];
+    selected: TransactionSource | null;
+    onClose: () => void;
+}
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ pages, selected, onClose }) => {
+    const [pageNumber, setPageNumber] = useState(1);
+    const highlightedRef = useRef<HTMLDivElement>(null);
+
+    // Follow the selected row to its page
+    useEffect(() => {
+        if (selected) setPageNumber(selected.page);
+    }, [selected]);
+
+    useEffect(() => {
+        highlightedRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [selected, pageNumber]);
+
+    const page = pages[pageNumber - 1];
+    const lines = page ? page.text.split(/\r?\n/) : [];
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow flex flex-col max-h-[80vh]">
+            <header className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+                <div className="flex items-center space-x-2 text-sm">
+                    <button onClick={() => setPageNumber(p => Math.max(1, p - 1))} disabled={pageNumber <= 1} className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 disabled:opacity-40">‹</button>
+                    <span className="text-gray-700 dark:text-gray-300">Trang {pageNumber}/{pages.length}</span>
+                    <button onClick={() => setPageNumber(p => Math.min(pages.length, p + 1))} disabled={pageNumber >= pages.length} className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 disabled:opacity-40">›</button>
+                </div>
+                <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Đóng sao kê gốc">
+                    <CloseIcon />
+                </button>
+            </header>
+
+            <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                {page?.image && (
+                    <img src={`data:${page.image.mimeType};base64,${page.image.data}`} alt={`Trang ${pageNumber}`} className="w-full border border-gray-200 dark:border-gray-700 rounded" />
+                )}
+                <div className="font-mono text-xs text-gray-700 dark:text-gray-300">
+                    {lines.map((line, i) => {
+                        const isHighlighted = selected?.page === pageNumber && selected.line === i + 1;
+                        return (
+                            <div
+                                key={i}
+                                ref={isHighlighted ? highlightedRef : undefined}
+                                className={`flex px-1 rounded ${isHighlighted ? 'bg-yellow-200 dark:bg-yellow-700' : ''}`}
+                            >
+                                <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">{i + 1}</span>
+                                <span className="whitespace-pre-wrap break-all">{line}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SourceViewer;
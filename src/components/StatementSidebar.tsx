@@ -0,0 +1,58 @@
+import React from 'react';
+import type { WorkspaceStatement } from '../services/workspace';
+import { getStatementLabel, getBalanceMismatchWarning } from '../services/workspace';
+import { CloseIcon } from './Icons';
+
+interface StatementSidebarProps {
+    statements: WorkspaceStatement[];
+    activeId: string | null;
+    onSelect: (id: string) => void;
+    onRemove: (id: string) => void;
+}
+
+const StatementSidebar: React.FC<StatementSidebarProps> = ({ statements, activeId, onSelect, onRemove }) => {
+    return (
+        <aside className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow-lg">
+            <h2 className="text-lg font-bold mb-3 text-gray-800 dark:text-gray-200">Sao kê ({statements.length})</h2>
+            {statements.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Chưa có sao kê nào. Upload file để bắt đầu.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {statements.map(statement => {
+                        const { title, subtitle } = getStatementLabel(statement);
+                        const isActive = statement.id === activeId;
+                        const hasWarning = statement.result
+                            ? getBalanceMismatchWarning(statement.result, parseFloat(statement.openingBalance) || 0) !== null
+                            : false;
+
+                        return (
+                            <li key={statement.id}>
+                                <div
+                                    onClick={() => onSelect(statement.id)}
+                                    className={`flex items-start justify-between p-3 rounded-lg cursor-pointer border transition-colors ${isActive ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/40' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                                >
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-semibold truncate text-gray-800 dark:text-gray-200">
+                                            {hasWarning && <span className="text-yellow-500 mr-1" title="Số dư không khớp">⚠</span>}
+                                            {title}
+                                        </p>
+                                        <p className="text-xs truncate text-gray-500 dark:text-gray-400">{subtitle}</p>
+                                    </div>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onRemove(statement.id); }}
+                                        className="ml-2 text-gray-400 hover:text-red-500"
+                                        aria-label="Xóa sao kê"
+                                    >
+                                        <CloseIcon />
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </aside>
+    );
+};
+
+export default StatementSidebar;
@@ -0,0 +1,134 @@
+import type { AIChatResponse, AIProviderId, AIProviderInfo, AISettings, ChatMessage, GeminiResponse } from '../types';
+import type { PageImage } from '../services/ocrPipeline';
+import type { CategorizeItem, CategoryAnswer } from '../services/aiPrompts';
+import { createGeminiProvider } from '../services/geminiService';
+import { createOpenAICompatibleProvider } from '../services/openaiProvider';
+
+/**
+ * The AI steps of a conversion behind one interface: reading a page image
+ * (OCR), turning statement text into transactions, categorizing and chatting.
+ * Gemini, any OpenAI-compatible endpoint (Ollama, llama.cpp...) and an offline
+ * mock that replays a fixture all implement it.
+ */
+
+export interface ChatRequest {
+    message: string;
+    report: GeminiResponse;
+    history: ChatMessage[];
+    content: string; // Raw statement text
+    image: PageImage | null;
+}
+
+export interface AIProvider {
+    name: string; // Provider and model, for logs and summaries
+    extractText: (image: PageImage) => Promise<string>;
+    parseStatement: (text: string) => Promise<GeminiResponse>;
+    categorize: (items: CategorizeItem[], categories: string[]) => Promise<CategoryAnswer[]>;
+    chat: (request: ChatRequest) => Promise<AIChatResponse>;
+}
+
+// Secrets and endpoints come from the server's environment, never from the client
+export interface AIEnvironment {
+    geminiApiKey?: string;
+    openaiBaseUrl?: string;
+    openaiApiKey?: string;
+    mockFixture?: MockFixture;
+}
+
+export const AI_PROVIDERS: { id: AIProviderId; label: string; defaultModel: string }[] = [
+    { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-pro' },
+    { id: 'openai', label: 'OpenAI-compatible (Ollama, llama.cpp...)', defaultModel: 'llama3.2-vision' },
+    { id: 'mock', label: 'Mô phỏng (dữ liệu mẫu, không gọi AI)', defaultModel: 'fixture' },
+];
+
+export const isAIProviderId = (value: string): value is AIProviderId => AI_PROVIDERS.some(provider => provider.id === value);
+
+// Why a provider cannot be used with this environment, or null when it can
+const missingConfiguration = (provider: AIProviderId, env: AIEnvironment): string | null => {
+    if (provider === 'gemini' && !env.geminiApiKey) return 'Chưa cấu hình GEMINI_API_KEY cho Gemini.';
+    if (provider === 'openai' && !env.openaiBaseUrl) return 'Chưa cấu hình OPENAI_BASE_URL cho máy chủ OpenAI-compatible.';
+    return null;
+};
+
+export const describeAIProviders = (env: AIEnvironment): AIProviderInfo[] =>
+    AI_PROVIDERS.map(provider => ({ ...provider, unavailableReason: missingConfiguration(provider.id, env) }));
+
+export const readAIEnvironment = (env: Record<string, string | undefined>): AIEnvironment => ({
+    geminiApiKey: env.GEMINI_API_KEY || env.API_KEY,
+    openaiBaseUrl: env.OPENAI_BASE_URL,
+    openaiApiKey: env.OPENAI_API_KEY,
+});
+
+export interface MockFixture {
+    extractText?: string | string[]; // One entry per page image, in order; the last one repeats
+    parseStatement?: GeminiResponse;
+    categorize?: Record<string, string>; // Category by transaction description
+    chat?: AIChatResponse | AIChatResponse[]; // One entry per message, in order; the last one repeats
+}
+
+const EMPTY_STATEMENT: GeminiResponse = {
+    accountInfo: { accountName: '', accountNumber: '', bankName: '', branch: '' },
+    transactions: [],
+    openingBalance: 0,
+    endingBalance: 0,
+};
+
+// Replays the fixture in call order, so the same calls always get the same answers
+const createMockProvider = (fixture: MockFixture = {}): AIProvider => {
+    const replay = <T>(entries: T | T[] | undefined, fallback: T) => {
+        const list = entries === undefined ? [fallback] : Array.isArray(entries) ? entries : [entries];
+        let next = 0;
+        return () => list[Math.min(next++, list.length - 1)];
+    };
+    const nextText = replay(fixture.extractText, '');
+    const nextChat = replay(fixture.chat, { responseText: 'Em đang chạy ở chế độ mô phỏng nên chưa trả lời được câu hỏi này.', action: 'query' as const });
+    return {
+        name: 'mock',
+        extractText: async () => nextText(),
+        parseStatement: async () => structuredClone(fixture.parseStatement ?? EMPTY_STATEMENT),
+        categorize: async items => items
+            .filter(item => fixture.categorize?.[item.description])
+            .map(item => ({ index: item.index, category: fixture.categorize![item.description] })),
+        chat: async () => structuredClone(nextChat()),
+    };
+};
+
+/**
+ * Gives every provider the same failure behaviour: errors are logged and
+ * rethrown with a message for the user, categories outside the allowed list
+ * are dropped and a failed chat still answers.
+ */
+const withFallbacks = (provider: AIProvider): AIProvider => {
+    const fail = (step: string, message: string) => (error: unknown): never => {
+        console.error(`Error ${step} with ${provider.name}:`, error);
+        throw new Error(message);
+    };
+    return {
+        name: provider.name,
+        extractText: image => provider.extractText(image).then(text => text.trim(), fail('extracting text', 'Không thể trích xuất văn bản từ file hình ảnh.')),
+        parseStatement: text => provider.parseStatement(text).catch(fail('processing statement', 'Không thể xử lý sao kê. Vui lòng kiểm tra lại nội dung và thử lại.')),
+        categorize: async (items, categories) => {
+            if (items.length === 0) return [];
+            const answers = await provider.categorize(items, categories).catch(fail('categorizing transactions', 'Không thể phân loại giao dịch bằng AI. Vui lòng thử lại.'));
+            return answers.filter(answer => categories.includes(answer.category));
+        },
+        chat: request => provider.chat(request).catch(error => {
+            console.error(`Error chatting with ${provider.name}:`, error);
+            return { responseText: 'Xin lỗi Anh Cường, Em gặp sự cố khi xử lý yêu cầu. Anh Cường vui lòng thử lại nhé.', action: 'query' as const };
+        }),
+    };
+};
+
+export const createAIProvider = ({ provider, model }: AISettings, env: AIEnvironment): AIProvider => {
+    const missing = missingConfiguration(provider, env);
+    if (missing) throw new Error(missing);
+    const modelName = model || AI_PROVIDERS.find(p => p.id === provider)!.defaultModel;
+    switch (provider) {
+        case 'gemini':
+            return withFallbacks(createGeminiProvider({ apiKey: env.geminiApiKey!, model: modelName }));
+        case 'openai':
+            return withFallbacks(createOpenAICompatibleProvider({ baseUrl: env.openaiBaseUrl!, apiKey: env.openaiApiKey, model: modelName }));
+        case 'mock':
+            return withFallbacks(createMockProvider(env.mockFixture));
+    }
+};
@@ -0,0 +1,48 @@
+import type { AccountInfo, ExchangeRate, Transaction } from '../types';
+import { buildExport, type ExportInput } from '../services/exportProfiles';
+import { ledgerXlsxBytes } from '../services/xlsxExport';
+import { convertStatement, isForeignCurrency } from '../services/currency';
+import { toCsv } from '../utils/download';
+import { getXLSX } from './libraries';
+
+export type OutputType = 'csv' | 'xlsx';
+
+export interface ExportRequest {
+    accountInfo: AccountInfo;
+    transactions: Transaction[];
+    openingBalance: number;
+    endingBalance: number; // As printed on the statement, for the workbook's reconciliation
+    exchangeRates?: ExchangeRate[]; // Rate table for foreign-currency statements
+}
+
+export const outputTypeFor = (fileName: string): OutputType => (fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'xlsx');
+
+export const toExportInput = ({ accountInfo, transactions, openingBalance, exchangeRates = [] }: ExportRequest): ExportInput => ({
+    accountInfo,
+    transactions,
+    openingBalance,
+    conversion: isForeignCurrency(accountInfo.currency)
+        ? convertStatement(transactions, accountInfo.currency, openingBalance, exchangeRates)
+        : null,
+});
+
+/**
+ * Renders a statement in one of the export profiles. The generic profile as
+ * .xlsx is the full ledger workbook with live formulas; the accounting
+ * software profiles are written as a single import sheet.
+ */
+export const renderExport = (request: ExportRequest, profileId: string, type: OutputType): Uint8Array | string => {
+    const input = toExportInput(request);
+    const { profile, table } = buildExport(profileId, input);
+    if (type === 'csv') {
+        // The BOM lets Excel open UTF-8 CSV files with Vietnamese text correctly
+        return '\uFEFF' + toCsv(table.headers, table.rows);
+    }
+    if (profile.id === 'generic') {
+        return ledgerXlsxBytes(input, request.endingBalance);
+    }
+    const XLSX = getXLSX();
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([table.headers, ...table.rows]), 'Chứng từ');
+    return new Uint8Array(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }));
+};
@@ -0,0 +1,113 @@
+import type { PageImage } from '../services/ocrPipeline';
+import { getMammoth, getPdfjs, getXLSX } from './libraries';
+
+/**
+ * Turns an uploaded document into statement text, or into page images that
+ * still need OCR. Works on raw bytes so the same code runs on a browser File
+ * and on a file read from disk.
+ */
+
+export interface SourceDocument {
+    name: string;
+    type: string; // MIME type; derived from the extension when empty
+    data: ArrayBuffer;
+}
+
+export interface ExtractedDocument {
+    text: string | null;
+    images: PageImage[];
+}
+
+const MIME_TYPES: Record<string, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    csv: 'text/csv',
+    txt: 'text/plain',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    bmp: 'image/bmp',
+};
+
+export const mimeTypeFor = (fileName: string): string =>
+    MIME_TYPES[fileName.toLowerCase().split('.').pop() ?? ''] ?? 'text/plain';
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    // Chunked so large scans do not overflow the argument list
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+// Scale 3 keeps digits sharp for OCR while each page stays small enough for a single request
+const renderPdfPages = async (pdf: any): Promise<PageImage[]> => {
+    const pageImages: PageImage[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const viewport = page.getViewport({ scale: 3.0 });
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Could not get canvas context');
+        canvas.height = viewport.height;
+        canvas.width = viewport.width;
+
+        await page.render({ canvasContext: context, viewport: viewport }).promise;
+
+        // Use PNG for lossless image quality
+        const dataUrl = canvas.toDataURL('image/png');
+        pageImages.push({ mimeType: 'image/png', data: dataUrl.split(',')[1] });
+    }
+    return pageImages;
+};
+
+// Without a canvas (Node) only the PDF's own text layer can be read; scanned pages have none
+const readPdfText = async (pdf: any): Promise<string> => {
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const content = await page.getTextContent();
+        let lastY: number | null = null;
+        let text = '';
+        for (const item of content.items as { str: string; transform: number[] }[]) {
+            const y = item.transform[5];
+            if (lastY !== null && Math.abs(y - lastY) > 2) text += '\n';
+            else if (text && !text.endsWith(' ')) text += ' ';
+            text += item.str;
+            lastY = y;
+        }
+        pages.push(text.trim());
+    }
+    if (pages.every(page => !page)) {
+        throw new Error('PDF không có lớp văn bản (bản scan). Hãy xuất từng trang ra ảnh (.png, .jpg) để OCR.');
+    }
+    return pages.join('\n\n');
+};
+
+export const extractDocument = async ({ name, type, data }: SourceDocument): Promise<ExtractedDocument> => {
+    const mimeType = type || mimeTypeFor(name);
+
+    if (mimeType === 'application/pdf') {
+        const pdf = await getPdfjs().getDocument({ data: new Uint8Array(data) }).promise;
+        return typeof document !== 'undefined'
+            ? { text: null, images: await renderPdfPages(pdf) }
+            : { text: await readPdfText(pdf), images: [] };
+    }
+    if (mimeType.startsWith('image/')) {
+        return { text: null, images: [{ mimeType, data: toBase64(new Uint8Array(data)) }] };
+    }
+    if (mimeType === MIME_TYPES.docx) {
+        // The browser build of mammoth reads `arrayBuffer`, the npm package reads `buffer`
+        const result = await getMammoth().extractRawText({ arrayBuffer: data, buffer: data });
+        return { text: result.value, images: [] };
+    }
+    if (mimeType === MIME_TYPES.xlsx) {
+        const XLSX = getXLSX();
+        const workbook = XLSX.read(data, { type: 'array' });
+        const text = workbook.SheetNames.map((sheetName: string) => XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName])).join('\n');
+        return { text, images: [] };
+    }
+    return { text: new TextDecoder().decode(data), images: [] };
+};
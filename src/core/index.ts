@@ -0,0 +1,27 @@
+/**
+ * Public surface of the conversion core, shared by the web app and the CLI.
+ * Nothing exported here depends on React or on browser globals.
+ */
+
+export { registerLibraries, type CoreLibraries } from './libraries';
+export {
+    createAIProvider,
+    readAIEnvironment,
+    describeAIProviders,
+    isAIProviderId,
+    AI_PROVIDERS,
+    type AIProvider,
+    type AIEnvironment,
+    type ChatRequest,
+    type MockFixture,
+} from './ai';
+export { extractDocument, mimeTypeFor, type SourceDocument, type ExtractedDocument } from './extract';
+export { readDocument, parseStatementText, convertDocument, type StatementText, type ParsedStatement, type ConversionResult, type ConvertOptions } from './pipeline';
+export { renderExport, toExportInput, outputTypeFor, type ExportRequest, type OutputType } from './export';
+
+export { EXPORT_PROFILES, buildExport, buildLedgerTable } from '../services/exportProfiles';
+export { buildJournal } from '../services/journal';
+export { getBalanceMismatchWarning } from '../services/workspace';
+export { findBalanceBreaks } from '../services/balanceChain';
+export { parseExchangeRateTable } from '../services/exchangeRateImport';
+export type { AccountInfo, Transaction, GeminiResponse, ExchangeRate, AIProviderId, AISettings } from '../types';
@@ -0,0 +1,33 @@
+/**
+ * Document libraries used by the core. The browser loads them from the CDN as
+ * globals (see index.html); Node callers such as the CLI register the npm
+ * packages instead, so nothing in the core touches `window` directly.
+ */
+
+export interface CoreLibraries {
+    XLSX?: any;
+    pdfjsLib?: any;
+    mammoth?: any;
+}
+
+const LIBRARY_NAMES: Record<keyof CoreLibraries, string> = {
+    XLSX: 'SheetJS (XLSX)',
+    pdfjsLib: 'PDF.js',
+    mammoth: 'Mammoth',
+};
+
+let registered: CoreLibraries = {};
+
+export const registerLibraries = (libraries: CoreLibraries) => {
+    registered = { ...registered, ...libraries };
+};
+
+const getLibrary = (key: keyof CoreLibraries) => {
+    const library = registered[key] ?? (typeof window !== 'undefined' ? (window as any)[key] : undefined);
+    if (!library) throw new Error(`Thư viện ${LIBRARY_NAMES[key]} chưa được tải.`);
+    return library;
+};
+
+export const getXLSX = () => getLibrary('XLSX');
+export const getPdfjs = () => getLibrary('pdfjsLib');
+export const getMammoth = () => getLibrary('mammoth');
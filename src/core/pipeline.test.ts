@@ -0,0 +1,64 @@
+import { readFileSync } from 'node:fs';
+import * as XLSX from 'xlsx';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { createAIProvider, type MockFixture } from './ai';
+import { renderExport } from './export';
+import { registerLibraries } from './libraries';
+import { convertDocument } from './pipeline';
+import type { SourceDocument } from './extract';
+
+const sourceFrom = (path: string, name: string): SourceDocument => {
+    const buffer = readFileSync(new URL(path, import.meta.url));
+    return { name, type: '', data: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer };
+};
+
+// Replays the OCR'd text of a scanned statement and the AI's reading of them
+const mockFixture = JSON.parse(readFileSync(new URL('../services/__fixtures__/mock-ai.json', import.meta.url), 'utf8')) as MockFixture;
+
+const unconfigured = () => {
+    throw new Error('Chưa cấu hình GEMINI_API_KEY cho Gemini.');
+};
+
+describe('convertDocument', () => {
+    beforeAll(() => registerLibraries({ XLSX }));
+
+    it('reads a bank export without creating an AI provider', async () => {
+        const ai = vi.fn(unconfigured);
+        const result = await convertDocument(sourceFrom('../services/__fixtures__/banks/vcb.csv', 'vcb.csv'), { ai, categoryRules: [], counterpartyDirectory: [] });
+        expect(ai).not.toHaveBeenCalled();
+        expect(result.parsedWithProfile).toBe('Vietcombank');
+        expect(result.data.transactions).toHaveLength(2);
+        expect(result.balanceWarning).toBeNull();
+    });
+
+    it('creates the provider when the text needs the AI and reports why it cannot', async () => {
+        const ai = vi.fn(unconfigured);
+        await expect(convertDocument(sourceFrom('../services/__fixtures__/banks/prose.txt', 'prose.txt'), { ai, categoryRules: [], counterpartyDirectory: [] }))
+            .rejects.toThrow('GEMINI_API_KEY');
+        expect(ai).toHaveBeenCalledOnce();
+    });
+
+    it('converts a scanned statement offline with the mock provider, from OCR to export', async () => {
+        const ai = createAIProvider({ provider: 'mock', model: '' }, { mockFixture });
+        const scan: SourceDocument = { name: 'sao_ke.png', type: 'image/png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer };
+        const result = await convertDocument(scan, { ai: () => ai, categoryRules: [], counterpartyDirectory: [] });
+
+        expect(result.pages).toHaveLength(1);
+        expect(result.content).toBe(mockFixture.extractText);
+        expect(result.parsedWithProfile).toBeNull();
+        expect(result.failedPages).toBe(0);
+        expect(result.openingBalance).toBe(10_000_000);
+        expect(result.balanceWarning).toBeNull();
+        expect(result.balanceBreaks).toEqual([]);
+        expect(result.data.transactions.map(tx => tx.source)).toEqual([7, 8, 9].map(line => ({ page: 1, line })));
+
+        const request = { ...result.data, openingBalance: result.openingBalance };
+        const csv = renderExport(request, 'misa', 'csv') as string;
+        expect(csv.startsWith('\uFEFF')).toBe(true);
+        // The fee and its VAT are two lines of one payment voucher
+        expect(csv.trim().split('\n').slice(1).map(row => row.split(',')[3])).toEqual(['"NTTK00001"', '"UNC00001"', '"UNC00002"', '"UNC00002"']);
+
+        const workbook = XLSX.read(renderExport(request, 'generic', 'xlsx'), { type: 'array' });
+        expect(workbook.SheetNames.length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,98 @@
+import type { CategoryRule, CounterpartyEntry, GeminiResponse } from '../types';
+import { ocrPages, stitchPages, type OcrPage } from '../services/ocrPipeline';
+import { parseStructuredStatement } from '../services/bankParsers';
+import { withSources } from '../services/provenance';
+import { categorizeTransactions, loadCategoryRules } from '../services/categorizer';
+import { assignCounterparties, loadCounterpartyDirectory } from '../services/counterparty';
+import { findBalanceBreaks, type BalanceBreak } from '../services/balanceChain';
+import { getBalanceMismatchWarning } from '../services/workspace';
+import type { AIProvider } from './ai';
+import { extractDocument, type SourceDocument } from './extract';
+
+/**
+ * The conversion steps without any UI state: read the document (OCR'ing page
+ * images), turn the text into transactions, categorize them and check the
+ * balances. App.tsx runs the steps one at a time so the user can review in
+ * between; convertDocument runs them all for the CLI.
+ */
+
+export interface StatementText {
+    content: string;
+    pages: OcrPage[]; // Empty for text-based documents
+}
+
+export interface ParsedStatement {
+    data: GeminiResponse;
+    parsedWithProfile: string | null; // Bank layout read without the AI, if any
+}
+
+export interface ConversionResult extends ParsedStatement {
+    fileName: string;
+    content: string;
+    pages: OcrPage[];
+    openingBalance: number;
+    balanceWarning: string | null;
+    balanceBreaks: BalanceBreak[];
+    failedPages: number;
+}
+
+export interface ConvertOptions {
+    // Called only when a step needs the AI, so bank exports convert without any AI configured
+    ai: () => AIProvider;
+    openingBalance?: number; // Overrides the opening balance read from the statement
+    categoryRules?: CategoryRule[];
+    counterpartyDirectory?: CounterpartyEntry[];
+    onProgress?: (message: string) => void;
+}
+
+export const readDocument = async (
+    source: SourceDocument,
+    ai: () => AIProvider,
+    onPageProgress?: (completed: number, total: number) => void
+): Promise<StatementText> => {
+    const { text, images } = await extractDocument(source);
+    const pages = images.length > 0 ? await ocrPages(images, ai().extractText, onPageProgress) : [];
+    const content = [text || '', stitchPages(pages)].filter(Boolean).join('\n\n');
+    return { content: content.trim(), pages };
+};
+
+// Structured exports (Excel/CSV) with a known column layout skip the AI entirely
+export const parseStatementText = async (content: string, pages: OcrPage[], ai: () => AIProvider): Promise<ParsedStatement> => {
+    const structured = parseStructuredStatement(content);
+    const extracted = structured ? structured.data : await ai().parseStatement(content);
+    // Record the page and line each transaction was read from
+    const pageTexts = pages.length > 0 ? pages.map(page => page.text) : [content];
+    return {
+        data: { ...extracted, transactions: withSources(extracted.transactions, pageTexts) },
+        parsedWithProfile: structured ? (structured.profile.bankName || 'mẫu chung') : null,
+    };
+};
+
+export const convertDocument = async (source: SourceDocument, options: ConvertOptions): Promise<ConversionResult> => {
+    const { ai, onProgress } = options;
+
+    onProgress?.(`Đang đọc ${source.name}...`);
+    const { content, pages } = await readDocument(source, ai, (completed, total) => onProgress?.(`OCR trang ${completed}/${total}`));
+    if (!content) throw new Error(`Không đọc được nội dung sao kê từ ${source.name}.`);
+
+    onProgress?.('Đang phân tích giao dịch...');
+    const { data, parsedWithProfile } = await parseStatementText(content, pages, ai);
+    const transactions = assignCounterparties(
+        categorizeTransactions(data.transactions, options.categoryRules ?? loadCategoryRules()),
+        options.counterpartyDirectory ?? loadCounterpartyDirectory()
+    );
+    const result = { ...data, transactions };
+    const openingBalance = options.openingBalance ?? data.openingBalance ?? 0;
+
+    return {
+        fileName: source.name,
+        content,
+        pages,
+        data: result,
+        parsedWithProfile,
+        openingBalance,
+        balanceWarning: getBalanceMismatchWarning(result, openingBalance),
+        balanceBreaks: findBalanceBreaks(transactions, openingBalance),
+        failedPages: pages.filter(page => page.status === 'failed').length,
+    };
+};
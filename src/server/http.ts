@@ -0,0 +1,45 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// Carries the HTTP status back to the request handler
+export class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+// Scanned statements are sent as page images, a few MB each
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+export const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Tệp tải lên quá lớn (tối đa 25 MB).');
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+};
+
+export const readJson = async <T>(req: IncomingMessage): Promise<T> => {
+    try {
+        return JSON.parse((await readBody(req)).toString('utf8')) as T;
+    } catch (error) {
+        if (error instanceof HttpError) throw error;
+        throw new HttpError(400, 'Nội dung yêu cầu không phải JSON hợp lệ.');
+    }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+};
+
+export const sendFile = (res: ServerResponse, fileName: string, contentType: string, content: Uint8Array | string) => {
+    res.writeHead(200, {
+        'Content-Type': contentType,
+        // RFC 5987 form so Vietnamese file names survive
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    });
+    res.end(content);
+};
@@ -0,0 +1,221 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { existsSync, readFileSync } from 'node:fs';
+import * as XLSX from 'xlsx';
+import mammoth from 'mammoth';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js';
+import type { AISettings } from '../types';
+import {
+    registerLibraries,
+    createAIProvider,
+    readAIEnvironment,
+    describeAIProviders,
+    isAIProviderId,
+    renderExport,
+    mimeTypeFor,
+    EXPORT_PROFILES,
+    type AIEnvironment,
+    type AIProvider,
+    type ChatRequest,
+    type OutputType,
+} from '../core';
+import type { PageImage } from '../services/ocrPipeline';
+import type { CategorizeItem } from '../services/aiPrompts';
+import { parseVnAmount } from '../utils/amount';
+import { createStatementStore } from './statementStore';
+import { parseChanges } from './transactionChanges';
+import { HttpError, readBody, readJson, sendFile, sendJson } from './http';
+
+/**
+ * Local HTTP API around the conversion core. It holds the AI keys, so
+ * neither the web app nor other internal tools need one. Clients pick the
+ * AI provider and model per request with the X-AI-Provider and X-AI-Model
+ * headers; AI_PROVIDER and AI_MODEL set the defaults.
+ *
+ *   POST  /statements                          upload a statement (raw body; name in X-File-Name)
+ *   GET   /statements/:id                      status and, once done, the GeminiResponse
+ *   PATCH /statements/:id/transactions/:index  edit one transaction (JSON TransactionChanges)
+ *   GET   /statements/:id/export?format=&type= file in an export profile, xlsx (default) or csv
+ *   POST  /ai/ocr, /ai/categorize, /ai/chat    the AI steps the web app runs on its own data
+ *   GET   /ai/providers                        providers, and which ones this server can use
+ */
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+
+registerLibraries({ XLSX, pdfjsLib, mammoth });
+const store = createStatementStore();
+
+const aiEnvironment: AIEnvironment = {
+    ...readAIEnvironment(process.env),
+    mockFixture: process.env.AI_MOCK_FIXTURE ? JSON.parse(readFileSync(process.env.AI_MOCK_FIXTURE, 'utf8')) : undefined,
+};
+
+const envProvider = process.env.AI_PROVIDER || '';
+const defaultAISettings: AISettings = {
+    provider: isAIProviderId(envProvider) ? envProvider : 'gemini',
+    model: process.env.AI_MODEL || '',
+};
+
+// One provider per provider and model, so the mock keeps replaying its fixture in order across requests
+const providers = new Map<string, AIProvider>();
+
+const aiSettingsFor = (req: IncomingMessage): AISettings => {
+    const header = (name: string) => {
+        const value = req.headers[name];
+        return typeof value === 'string' ? value.trim() : '';
+    };
+    const provider = header('x-ai-provider') || defaultAISettings.provider;
+    if (!isAIProviderId(provider)) throw new HttpError(400, `Nhà cung cấp AI không hợp lệ: ${provider}`);
+    return { provider, model: header('x-ai-model') || (provider === defaultAISettings.provider ? defaultAISettings.model : '') };
+};
+
+// Throws when the provider is not configured, e.g. Gemini without GEMINI_API_KEY
+const providerWith = (settings: AISettings): AIProvider => {
+    const key = `${settings.provider}:${settings.model}`;
+    if (!providers.has(key)) {
+        try {
+            providers.set(key, createAIProvider(settings, aiEnvironment));
+        } catch (error) {
+            throw new HttpError(400, error instanceof Error ? error.message : String(error));
+        }
+    }
+    return providers.get(key)!;
+};
+
+const providerFor = (req: IncomingMessage) => providerWith(aiSettingsFor(req));
+
+const decodeFileName = (header: string) => {
+    try {
+        return decodeURIComponent(header);
+    } catch {
+        throw new HttpError(400, `Tên tệp không hợp lệ: ${header}`);
+    }
+};
+
+const getStatementOr404 = (id: string) => {
+    const statement = store.get(id);
+    if (!statement) throw new HttpError(404, 'Không tìm thấy sao kê.');
+    return statement;
+};
+
+type Handler = (req: IncomingMessage, res: ServerResponse, params: string[], url: URL) => Promise<void>;
+
+const routes: { method: string; pattern: RegExp; handler: Handler }[] = [
+    {
+        method: 'POST',
+        pattern: /^\/statements$/,
+        handler: async (req, res, _params, url) => {
+            const header = req.headers['x-file-name'];
+            const name = typeof header === 'string' ? decodeFileName(header) : url.searchParams.get('name');
+            if (!name) throw new HttpError(400, 'Thiếu tên tệp (header X-File-Name hoặc ?name=).');
+
+            const rawOpening = url.searchParams.get('openingBalance');
+            const openingBalance = rawOpening === null ? undefined : parseVnAmount(rawOpening);
+            if (openingBalance === null) throw new HttpError(400, `Số dư đầu kỳ không hợp lệ: ${rawOpening}`);
+
+            // Bank exports are read without the AI, so the provider is only created if the statement needs it
+            const aiSettings = aiSettingsFor(req);
+            const body = await readBody(req);
+            if (body.length === 0) throw new HttpError(400, 'Tệp tải lên trống.');
+            // Generic uploads fall back to the file extension
+            const contentType = (req.headers['content-type'] || '').split(';')[0].trim();
+            const type = contentType === 'application/octet-stream' ? '' : contentType;
+            const data = body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer;
+
+            sendJson(res, 202, store.upload({ name, type, data }, { ai: () => providerWith(aiSettings), openingBalance }));
+        },
+    },
+    {
+        method: 'GET',
+        pattern: /^\/statements\/([\w-]+)$/,
+        handler: async (_req, res, [id]) => sendJson(res, 200, getStatementOr404(id)),
+    },
+    {
+        method: 'PATCH',
+        pattern: /^\/statements\/([\w-]+)\/transactions\/(\d+)$/,
+        handler: async (req, res, [id, index]) => {
+            if (getStatementOr404(id).status !== 'done') throw new HttpError(409, 'Sao kê chưa xử lý xong.');
+            const result = store.updateTransaction(id, Number(index), parseChanges(await readJson(req)));
+            if (typeof result === 'string') throw new HttpError(400, result);
+            sendJson(res, 200, result);
+        },
+    },
+    {
+        method: 'GET',
+        pattern: /^\/statements\/([\w-]+)\/export$/,
+        handler: async (_req, res, [id], url) => {
+            getStatementOr404(id);
+            const result = store.getResult(id);
+            if (!result) throw new HttpError(409, 'Sao kê chưa xử lý xong.');
+
+            const profile = EXPORT_PROFILES.find(p => p.id === (url.searchParams.get('format') || 'generic'));
+            if (!profile) throw new HttpError(400, `Mẫu xuất không hợp lệ: ${url.searchParams.get('format')}`);
+            const type = (url.searchParams.get('type') || 'xlsx') as OutputType;
+            if (type !== 'xlsx' && type !== 'csv') throw new HttpError(400, `Định dạng tệp không hợp lệ: ${type}`);
+
+            const { accountInfo, transactions, endingBalance } = result.data;
+            const content = renderExport({ accountInfo, transactions, openingBalance: result.openingBalance, endingBalance }, profile.id, type);
+            const fileName = profile.fileName.replace(/\.csv$/, `.${type}`);
+            sendFile(res, fileName, type === 'csv' ? 'text/csv; charset=utf-8' : mimeTypeFor(fileName), content);
+        },
+    },
+    {
+        method: 'POST',
+        pattern: /^\/ai\/ocr$/,
+        handler: async (req, res) => {
+            const image = await readJson<PageImage>(req);
+            if (!image?.mimeType || !image?.data) throw new HttpError(400, 'Thiếu ảnh trang cần OCR.');
+            sendJson(res, 200, { text: await providerFor(req).extractText(image) });
+        },
+    },
+    {
+        method: 'POST',
+        pattern: /^\/ai\/categorize$/,
+        handler: async (req, res) => {
+            const { items, categories } = await readJson<{ items: CategorizeItem[]; categories: string[] }>(req);
+            if (!Array.isArray(items) || !Array.isArray(categories)) throw new HttpError(400, 'Thiếu danh sách giao dịch hoặc nhóm.');
+            sendJson(res, 200, { results: await providerFor(req).categorize(items, categories) });
+        },
+    },
+    {
+        method: 'POST',
+        pattern: /^\/ai\/chat$/,
+        handler: async (req, res) => {
+            const { message, report, history, content, image } = await readJson<ChatRequest>(req);
+            if (typeof message !== 'string' || !report) throw new HttpError(400, 'Thiếu câu hỏi hoặc báo cáo.');
+            sendJson(res, 200, await providerFor(req).chat({ message, report, history: history ?? [], content: content ?? '', image: image ?? null }));
+        },
+    },
+    {
+        method: 'GET',
+        pattern: /^\/ai\/providers$/,
+        handler: async (_req, res) => sendJson(res, 200, { providers: describeAIProviders(aiEnvironment), defaults: defaultAISettings }),
+    },
+];
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    try {
+        for (const route of routes) {
+            const match = req.method === route.method ? url.pathname.match(route.pattern) : null;
+            if (match) {
+                await route.handler(req, res, match.slice(1), url);
+                return;
+            }
+        }
+        throw new HttpError(404, 'Không tìm thấy đường dẫn.');
+    } catch (error) {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) console.error(error);
+        sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`Máy chủ chuyển đổi sao kê: http://${HOST}:${PORT}`);
+    const unavailable = describeAIProviders(aiEnvironment).find(provider => provider.id === defaultAISettings.provider)?.unavailableReason;
+    console.log(`AI mặc định: ${defaultAISettings.provider}${defaultAISettings.model ? ` (${defaultAISettings.model})` : ''}`);
+    if (unavailable) console.warn(`${unavailable} Chỉ đọc được các sao kê Excel/CSV theo mẫu ngân hàng.`);
+});
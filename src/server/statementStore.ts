@@ -0,0 +1,122 @@
+import type { ServerStatement, ServerStatementStatus, TransactionChanges } from '../types';
+import { convertDocument, type ConversionResult } from '../core/pipeline';
+import type { SourceDocument } from '../core/extract';
+import type { AIProvider } from '../core/ai';
+import { applyOperation, validateOperation } from '../services/transactionEdits';
+import { getBalanceMismatchWarning } from '../services/workspace';
+import { findBalanceBreaks } from '../services/balanceChain';
+
+/**
+ * In-memory statements of the API server. Uploads are converted one at a time
+ * in the background so a burst of uploads does not exceed the AI rate limit;
+ * clients poll GET /statements/:id until the status is 'done' or 'failed'.
+ * Nothing is persisted: statements are dropped after STATEMENT_TTL_MS.
+ */
+
+const STATEMENT_TTL_MS = 60 * 60 * 1000;
+
+interface StoredStatement {
+    id: string;
+    fileName: string;
+    status: ServerStatementStatus;
+    createdAt: number;
+    error: string | null;
+    result: ConversionResult | null;
+}
+
+export interface UploadOptions {
+    ai: () => AIProvider; // The provider chosen when the statement was uploaded
+    openingBalance?: number;
+}
+
+const toView = ({ id, fileName, status, createdAt, error, result }: StoredStatement): ServerStatement => ({
+    id,
+    fileName,
+    status,
+    createdAt,
+    error,
+    data: result?.data ?? null,
+    parsedWithProfile: result?.parsedWithProfile ?? null,
+    openingBalance: result?.openingBalance ?? null,
+    balanceWarning: result?.balanceWarning ?? null,
+    balanceBreaks: result?.balanceBreaks.length ?? 0,
+    failedPages: result?.failedPages ?? 0,
+});
+
+export const createStatementStore = () => {
+    const statements = new Map<string, StoredStatement>();
+    let queue: Promise<void> = Promise.resolve();
+
+    const removeExpired = () => {
+        const cutoff = Date.now() - STATEMENT_TTL_MS;
+        statements.forEach((statement, id) => {
+            if (statement.createdAt < cutoff && statement.status !== 'queued' && statement.status !== 'processing') {
+                statements.delete(id);
+            }
+        });
+    };
+
+    const convert = async (statement: StoredStatement, source: SourceDocument, options: UploadOptions) => {
+        statement.status = 'processing';
+        try {
+            statement.result = await convertDocument(source, options);
+            statement.status = 'done';
+        } catch (error) {
+            statement.error = error instanceof Error ? error.message : String(error);
+            statement.status = 'failed';
+        }
+    };
+
+    const getStored = (id: string): StoredStatement | null => statements.get(id) ?? null;
+
+    return {
+        upload: (source: SourceDocument, options: UploadOptions): ServerStatement => {
+            removeExpired();
+            const statement: StoredStatement = {
+                id: crypto.randomUUID(),
+                fileName: source.name,
+                status: 'queued',
+                createdAt: Date.now(),
+                error: null,
+                result: null,
+            };
+            statements.set(statement.id, statement);
+            queue = queue.then(() => convert(statement, source, options));
+            return toView(statement);
+        },
+
+        get: (id: string): ServerStatement | null => {
+            const statement = getStored(id);
+            return statement ? toView(statement) : null;
+        },
+
+        // The finished conversion, for exports; null while the statement is still being read
+        getResult: (id: string): ConversionResult | null => getStored(id)?.result ?? null,
+
+        /**
+         * Edits one transaction through the same reducer as the web app and
+         * re-checks the balances. Returns the validation message when the edit
+         * is rejected.
+         */
+        updateTransaction: (id: string, index: number, changes: TransactionChanges): ServerStatement | string => {
+            const statement = getStored(id);
+            const result = statement?.result;
+            if (!statement || !result) return 'Sao kê chưa xử lý xong.';
+            const operation = { type: 'update' as const, index, changes };
+            const invalid = validateOperation(result.data.transactions, operation);
+            if (invalid) return invalid;
+
+            const transactions = applyOperation(result.data.transactions, operation);
+            const data = { ...result.data, transactions };
+            statement.result = {
+                ...result,
+                data,
+                balanceWarning: getBalanceMismatchWarning(data, result.openingBalance),
+                balanceBreaks: findBalanceBreaks(transactions, result.openingBalance),
+            };
+            return toView(statement);
+        },
+    };
+};
+
+export type StatementStore = ReturnType<typeof createStatementStore>;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { HttpError } from './http';
+import { parseChanges } from './transactionChanges';
+
+const rejection = (body: Record<string, unknown>) => {
+    try {
+        parseChanges(body);
+    } catch (error) {
+        return error;
+    }
+    return null;
+};
+
+describe('parseChanges', () => {
+    it.each<[string, Record<string, unknown>]>([
+        ['a negative debit', { debit: -5 }],
+        ['a negative credit', { credit: -1_000 }],
+        ['a negative fee', { fee: -10_000 }],
+        ['a negative VAT', { vat: -1_000 }],
+        ['a negative exchange rate', { exchangeRate: -25_000 }],
+        ['a date that is not a date', { date: 'not a date' }],
+        ['an impossible date', { date: '31/13/2025' }],
+        ['an amount sent as text', { debit: '5000' }],
+        ['a field that cannot be edited', { printedBalance: 0 }],
+        ['an inherited property', { toString: 'x' }],
+        ['no fields', {}],
+    ])('rejects %s with 400', (_label, body) => {
+        const error = rejection(body);
+        expect(error).toBeInstanceOf(HttpError);
+        expect((error as HttpError).status).toBe(400);
+    });
+
+    it('names the field and the expected date format', () => {
+        expect((rejection({ debit: -5 }) as Error).message).toBe('PS Nợ phải là số không âm.');
+        expect((rejection({ date: 'not a date' }) as Error).message).toContain('DD/MM/YYYY');
+    });
+
+    it('accepts valid changes and stores dates as DD/MM/YYYY', () => {
+        expect(parseChanges({ debit: 5_000_000, description: 'Thu tien hang' })).toEqual({ debit: 5_000_000, description: 'Thu tien hang' });
+        expect(parseChanges({ date: '2025-03-01' })).toEqual({ date: '01/03/2025' });
+        expect(parseChanges({ exchangeRate: 0 })).toEqual({ exchangeRate: 0 });
+    });
+});
@@ -0,0 +1,28 @@
+import type { EditableField, TransactionChanges } from '../types';
+import { EDITABLE_LABELS } from '../services/changeHistory';
+import { parseDateCell } from '../services/bankParsers';
+import { validateChanges } from '../services/transactionEdits';
+import { HttpError } from './http';
+
+const NUMBER_FIELDS: EditableField[] = ['debit', 'credit', 'fee', 'vat', 'exchangeRate'];
+
+/**
+ * Reads the JSON body of PATCH /statements/:id/transactions/:index. Values
+ * are checked like edits in the web app, so an export never meets a negative
+ * amount or a date it cannot read; dates are stored as DD/MM/YYYY.
+ */
+export const parseChanges = (body: Record<string, unknown>): TransactionChanges => {
+    const entries = Object.entries(body ?? {});
+    if (entries.length === 0) throw new HttpError(400, 'Không có trường nào để sửa.');
+    entries.forEach(([field, value]) => {
+        if (!Object.hasOwn(EDITABLE_LABELS, field)) throw new HttpError(400, `Không thể sửa trường "${field}".`);
+        const valid = NUMBER_FIELDS.includes(field as EditableField)
+            ? typeof value === 'number' && Number.isFinite(value)
+            : typeof value === 'string';
+        if (!valid) throw new HttpError(400, `Giá trị của "${field}" không hợp lệ.`);
+    });
+    const changes = body as TransactionChanges;
+    const problem = validateChanges(changes);
+    if (problem) throw new HttpError(400, problem);
+    return changes.date === undefined ? changes : { ...changes, date: parseDateCell(changes.date)! };
+};
@@ -0,0 +1,257 @@
+import { Type } from "@google/genai";
+import type { ChatMessage, GeminiResponse } from '../types';
+
+/**
+ * Prompts and response schemas shared by every AI provider. The schemas are
+ * written in Gemini's notation; toJsonSchema converts them for
+ * OpenAI-compatible endpoints.
+ */
+
+export interface CategorizeItem {
+    index: number;
+    description: string;
+    direction: 'in' | 'out';
+}
+
+export interface CategoryAnswer {
+    index: number;
+    category: string;
+}
+
+export const statementResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    openingBalance: { type: Type.NUMBER, description: "Số dư đầu kỳ của sao kê. Nếu không tìm thấy, trả về 0." },
+    endingBalance: { type: Type.NUMBER, description: "Số dư cuối kỳ của sao kê. Nếu không tìm thấy, trả về 0." },
+    accountInfo: {
+      type: Type.OBJECT,
+      properties: {
+        accountName: { type: Type.STRING, description: "Tên chủ tài khoản" },
+        accountNumber: { type: Type.STRING, description: "Số tài khoản" },
+        bankName: { type: Type.STRING, description: "Tên ngân hàng" },
+        branch: { type: Type.STRING, description: "Tên chi nhánh" },
+        currency: { type: Type.STRING, description: "Mã tiền tệ ISO của tài khoản (VND, USD, EUR...). Mặc định VND." },
+      },
+      required: ["accountName", "accountNumber", "bankName", "branch"],
+    },
+    transactions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          transactionCode: { type: Type.STRING, description: "Mã giao dịch nếu có" },
+          date: { type: Type.STRING, description: "Ngày giao dịch theo định dạng DD/MM/YYYY" },
+          description: { type: Type.STRING, description: "Nội dung giao dịch" },
+          debit: { type: Type.NUMBER, description: "Số tiền vào tài khoản (Phát Sinh Nợ trên sổ kế toán). Trả về 0 nếu không có." },
+          credit: { type: Type.NUMBER, description: "Số tiền gốc ra khỏi tài khoản (Phát Sinh Có trên sổ kế toán), KHÔNG BAO GỒM PHÍ VÀ THUẾ. Trả về 0 nếu không có." },
+          fee: { type: Type.NUMBER, description: "Phí giao dịch. Nếu không tìm thấy, trả về 0." },
+          vat: { type: Type.NUMBER, description: "Thuế GTGT của giao dịch. Nếu không tìm thấy, trả về 0." },
+          printedBalance: { type: Type.NUMBER, description: "Số dư in trên sao kê ngay sau giao dịch này. Bỏ trống nếu sao kê không có cột số dư." },
+          currency: { type: Type.STRING, description: "Mã tiền tệ ISO của giao dịch nếu khác loại tiền của tài khoản. Bỏ trống nếu giống." },
+          exchangeRate: { type: Type.NUMBER, description: "Tỷ giá quy đổi sang VND in trên sao kê cho giao dịch này. Bỏ trống nếu không có." },
+          confidence: {
+            type: Type.OBJECT,
+            description: "Độ tin cậy (0 đến 1) của từng giá trị đã trích xuất.",
+            properties: {
+              date: { type: Type.NUMBER, description: "Độ tin cậy của ngày giao dịch" },
+              debit: { type: Type.NUMBER, description: "Độ tin cậy của số tiền debit" },
+              credit: { type: Type.NUMBER, description: "Độ tin cậy của số tiền credit" },
+              fee: { type: Type.NUMBER, description: "Độ tin cậy của phí" },
+              vat: { type: Type.NUMBER, description: "Độ tin cậy của thuế GTGT" },
+            },
+          },
+        },
+        required: ["date", "description", "debit", "credit", "confidence"],
+      },
+    },
+  },
+  required: ["accountInfo", "transactions", "openingBalance", "endingBalance"],
+};
+
+export const categoryResponseSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.NUMBER, description: "Số thứ tự giao dịch như trong danh sách đầu vào" },
+      category: { type: Type.STRING, description: "Một nhóm trong danh sách nhóm cho phép" },
+    },
+    required: ["index", "category"],
+  },
+};
+
+export const chatResponseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        responseText: {
+            type: Type.STRING,
+            description: "Một câu trả lời tự nhiên, thân thiện bằng tiếng Việt (xưng hô 'Em' và gọi người dùng là 'Anh Cường') để xác nhận hành động hoặc trả lời câu hỏi.",
+        },
+        action: {
+            type: Type.STRING,
+            description: "Hành động AI đề xuất: 'update', 'undo', 'add', hoặc 'query'.",
+        },
+        update: {
+            type: Type.OBJECT,
+            nullable: true,
+            properties: {
+                index: { type: Type.NUMBER },
+                field: { type: Type.STRING },
+                newValue: { type: Type.NUMBER }
+            },
+        },
+        add: {
+            type: Type.OBJECT,
+            nullable: true,
+            description: "Một đối tượng giao dịch mới cần thêm vào báo cáo. Chỉ dùng khi action là 'add'.",
+            properties: {
+                transactionCode: { type: Type.STRING, description: "Mã giao dịch nếu có" },
+                date: { type: Type.STRING, description: "Ngày giao dịch theo định dạng DD/MM/YYYY" },
+                description: { type: Type.STRING, description: "Nội dung giao dịch" },
+                debit: { type: Type.NUMBER, description: "Số tiền vào tài khoản." },
+                credit: { type: Type.NUMBER, description: "Số tiền gốc ra khỏi tài khoản." },
+                fee: { type: Type.NUMBER, description: "Phí giao dịch." },
+                vat: { type: Type.NUMBER, description: "Thuế GTGT." },
+            },
+        },
+        confirmationRequired: {
+            type: Type.BOOLEAN,
+            description: "Đặt thành true nếu hành động được đề xuất (cập nhật, thêm, hoàn tác) cần người dùng xác nhận. Nếu không, bỏ qua hoặc đặt thành false.",
+            nullable: true,
+        },
+    },
+    required: ["responseText", "action"],
+};
+
+export const OCR_PROMPT = `Bạn là một công cụ OCR (Nhận dạng ký tự quang học) chuyên dụng cho tài liệu tài chính, được tối ưu hóa để đạt độ chính xác tuyệt đối. Nhiệm vụ của bạn là trích xuất văn bản từ hình ảnh sao kê ngân hàng Việt Nam.
+
+QUY TẮC QUAN TRỌNG NHẤT: ĐỘ CHÍNH XÁC CỦA CÁC CON SỐ LÀ TRÊN HẾT.
+
+1.  **Ngữ cảnh tài chính:** Đây là sao kê ngân hàng. Hãy đọc với sự hiểu biết rằng các con số là cực kỳ quan trọng.
+2.  **Xử lý số:**
+    - Trong văn bản tài chính Việt Nam, dấu chấm (.) và dấu phẩy (,) thường được dùng làm dấu phân cách hàng nghìn.
+    - **TUYỆT ĐỐI KHÔNG BỎ SÓT SỐ KHÔNG (0) Ở CUỐI.**
+    - **QUY TẮC CỨNG (VÍ DỤ TỪ LỖI THỰC TẾ):** Nếu bạn thấy '3,000,000', giá trị đúng là ba triệu. TUYỆT ĐỐI KHÔNG đọc nhầm thành '30,000,000' (ba mươi triệu) hoặc '300,000' (ba trăm nghìn). Phải cực kỳ cẩn thận với số lượng số không.
+3.  **Định dạng đầu ra:** Chỉ trả về văn bản thô, không định dạng, không phân tích, không tóm tắt. Trả về chính xác từng ký tự bạn thấy trên hình ảnh theo đúng thứ tự.`;;
+
+export const buildStatementPrompt = (text: string): string => `
+    Bạn là một chuyên gia kế toán quốc tế, cực kỳ tỉ mỉ và chính xác. Nhiệm vụ của bạn là xử lý một bản sao kê ngân hàng DẠNG VĂN BẢN THÔ và chuyển đổi nó thành một định dạng sổ kế toán chuẩn với độ chính xác tuyệt đối.
+
+    QUY TẮC BẮT BUỘC (PHẢI TUÂN THỦ NGHIÊM NGẶT):
+
+    1. **TÁCH BIỆT PHÍ VÀ THUẾ (CỰC KỲ QUAN TRỌNG):**
+       - Chủ động tìm kiếm các cột hoặc thông tin liên quan đến 'Phí' (Fee) và 'Thuế GTGT' (VAT) trong sao kê.
+       - **QUY TẮC MỚI:** KHÔNG CỘNG DỒN phí và thuế vào số tiền giao dịch chính.
+       - Giá trị cho cột 'credit' (Phát Sinh Có trên sổ kế toán) PHẢI LÀ SỐ TIỀN GIAO DỊCH GỐC, trước khi tính phí và thuế.
+       - Trích xuất số tiền phí vào trường \`fee\`.
+       - Trích xuất số tiền thuế vào trường \`vat\`.
+       - Nếu không tìm thấy phí hoặc thuế cho một giao dịch, hãy trả về giá trị 0 cho các trường tương ứng.
+       - **Ví dụ:** Giao dịch NỢ (tiền ra) \`818,000,000\`, Phí \`327,200\`, Thuế \`32,720\`. Trong kết quả JSON, giao dịch này phải là: \`"credit": 818000000\`, \`"fee": 327200\`, \`"vat": 32720\`, và \`"debit": 0\`.
+
+    2. **XỬ LÝ SỐ LIỆU CHÍNH XÁC TUYỆT ĐỐI (QUAN TRỌNG NHẤT):**
+       - Đây là quy tắc tối thượng. Sai sót về số liệu là không thể chấp nhận được.
+       - Khi đọc các số tiền, phải nhận diện chính xác dấu phẩy (,) và dấu chấm (.) là dấu phân cách hàng nghìn.
+       - **TUYỆT ĐỐI KHÔNG BỎ SÓT CÁC SỐ KHÔNG (0) Ở CUỐI.**
+       - **LỖI CẦN TRÁNH:** Nếu bạn thấy '3,000,000', giá trị số đúng là \`3000000\`. TUYỆT ĐỐI KHÔNG đọc nhầm thành \`30000000\` hoặc \`300000\`.
+       - **Ví dụ:** '818,000,000' phải được hiểu là \`818000000\`.
+       - Trước khi trả về kết quả, hãy kiểm tra lại toàn bộ các số tiền đã trích xuất để đảm bảo không có sai sót.
+
+    3. **Trích xuất Số dư (Rất quan trọng)**:
+       - **Số dư đầu kỳ:** Chủ động tìm kiếm và trích xuất số dư đầu kỳ. Nhận diện các thuật ngữ tiếng Việt như "Số dư đầu kỳ", "Số dư cuối kỳ trước", "Số dư đầu ngày", hoặc các thuật ngữ tiếng Anh tương đương. Nếu không thể xác định, trả về 0 cho 'openingBalance'.
+       - **Số dư cuối kỳ:** Chủ động tìm kiếm và trích xuất số dư cuối kỳ. Nhận diện các thuật ngữ như "Số dư cuối kỳ", "Số dư cuối ngày", hoặc các thuật ngữ tiếng Anh tương đương. Nếu không thể xác định, trả về 0 cho 'endingBalance'.
+       - **Số dư từng dòng:** Nếu sao kê có cột "Số dư" cho từng giao dịch, ghi đúng giá trị in trên dòng đó vào \`printedBalance\`. KHÔNG tự tính lại số dư; nếu không có cột này thì bỏ trống trường.
+
+    4. **Ghi nhận giao dịch (Đảo ngược Nợ/Có)**:
+       - Giao dịch tiền vào (Ngân hàng ghi CÓ, Credit) phải được ghi vào cột "debit" (Phát Sinh Nợ trên sổ kế toán).
+       - Giao dịch tiền ra (Ngân hàng ghi NỢ, Debit) phải được ghi vào cột "credit" (Phát Sinh Có trên sổ kế toán).
+
+    5. **Thông tin tài khoản**: Trích xuất Tên chủ tài khoản, Số tài khoản, Tên ngân hàng và Chi nhánh. Nếu không tìm thấy, trả về chuỗi rỗng.
+       - **Loại tiền:** Ghi mã tiền tệ của tài khoản vào \`currency\` (ví dụ tài khoản ngoại tệ USD). Giữ nguyên số tiền theo nguyên tệ, KHÔNG tự quy đổi sang VND. Nếu sao kê có cột tỷ giá hoặc số tiền quy đổi, ghi tỷ giá của từng dòng vào \`exchangeRate\`.
+
+    6. **Độ tin cậy**: Với mỗi giao dịch, điền đối tượng \`confidence\` gồm độ tin cậy từ 0 đến 1 cho \`date\`, \`debit\`, \`credit\`, \`fee\` và \`vat\`.
+       - 1 nghĩa là giá trị được in rõ ràng và chắc chắn đúng.
+       - Hạ thấp độ tin cậy khi chữ số bị mờ, bị che, dấu phân cách không rõ, cột Nợ/Có khó phân biệt, hoặc giá trị phải suy luận.
+       - Hãy trung thực: KHÔNG đặt mọi giá trị bằng 1 nếu có nghi ngờ.
+
+    7. **Định dạng đầu ra**: Chỉ trả về kết quả dưới dạng JSON theo đúng schema đã cung cấp. Không thêm bất kỳ văn bản giải thích nào trước hoặc sau đối tượng JSON.
+
+    Nội dung sao kê ngân hàng thô:
+    ---
+    ${text}
+    ---
+
+    Hãy phân tích văn bản trên để trả về một đối tượng JSON.
+  `;
+
+export const buildCategoryPrompt = (items: CategorizeItem[], categories: string[]): string => `
+    Bạn là kế toán viên. Phân loại từng giao dịch ngân hàng dưới đây vào ĐÚNG MỘT nhóm trong danh sách sau:
+    ${categories.map(category => `- ${category}`).join('\n    ')}
+
+    - "in" là tiền vào tài khoản, "out" là tiền ra.
+    - Chỉ dùng tên nhóm có trong danh sách. Nếu không chắc chắn, chọn "Khác".
+
+    DANH SÁCH GIAO DỊCH (JSON):
+    ${JSON.stringify(items)}
+  `;
+
+export const buildChatPrompt = (message: string, report: GeminiResponse, history: ChatMessage[], content: string): string => `
+        Bạn là "Trợ lý Kế toán của Anh Cường", một AI thông minh, thân thiện và cực kỳ chính xác.
+        
+        **QUY TRÌNH LÀM VIỆC MỚI (CỰC KỲ QUAN TRỌNG):**
+        1.  **Xưng hô:** Luôn xưng là "Em" và gọi người dùng là "Anh Cường".
+        2.  **Định dạng Phản hồi:** Phản hồi của Em BẮT BUỘC phải là một đối tượng JSON duy nhất theo schema.
+        3.  **QUY TRÌNH XÁC NHẬN:**
+            - Khi Anh Cường đưa ra yêu cầu thay đổi dữ liệu (sửa, thêm, hoặc hoàn tác), Em **KHÔNG** được thực hiện ngay.
+            - Thay vào đó, Em phải trả về một đối tượng JSON chứa hành động được đề xuất (ví dụ: đối tượng \`update\`), đặt \`confirmationRequired\` thành \`true\`, và đặt \`responseText\` là câu hỏi xác nhận: "Anh Cường có muốn em điều chỉnh trên báo cáo không?".
+            - Chỉ khi Anh Cường hỏi một câu hỏi thông thường (query), Em mới đặt \`confirmationRequired\` là \`false\` hoặc bỏ qua.
+
+        **NGỮ CẢNH:**
+        - **Báo cáo Hiện tại:** Dữ liệu JSON của sổ kế toán mà Anh Cường đang xem.
+        - **Lịch sử Trò chuyện:** Toàn bộ cuộc hội thoại trước đó để Em hiểu ngữ cảnh.
+        - **Sao kê Gốc:** Nội dung văn bản thô của sao kê ban đầu để Em có thể đối chiếu lại nếu cần.
+        - **Nội dung Dán vào (Tùy chọn):** Anh Cường có thể dán thêm một hình ảnh hoặc văn bản.
+
+        **NHIỆM VỤ CỦA EM (DỰA TRÊN YÊU CẦU MỚI NHẤT):**
+        - **Nếu là yêu cầu sửa/thêm/hoàn tác:** Tạo đối tượng \`update\`/\`add\`/\`undo\` tương ứng, đặt \`confirmationRequired: true\`, và hỏi xác nhận trong \`responseText\`.
+        - **Nếu là câu hỏi ('query'):** Trả lời câu hỏi và đặt \`action: 'query'\`.
+
+        ---
+        **LỊCH SỬ TRÒ CHUYỆN (để Em lấy ngữ cảnh):**
+        ${JSON.stringify(history, null, 2)}
+        
+        **YÊU CẦU MỚI NHẤT TỪ ANH CƯỜNG:**
+        "${message}"
+        
+        **DỮ LIỆU BÁO CÁO HIỆN TẠI (JSON):**
+        ${JSON.stringify(report, null, 2)}
+        
+        **DỮ LIỆU SAO KÊ GỐC (VĂN BẢN THÔ):**
+        ${content}
+        ---
+
+        Hãy xử lý yêu cầu của Anh Cường và trả về một đối tượng JSON duy nhất theo đúng quy trình xác nhận.
+      `;
+
+export const CHAT_IMAGE_INTRO = "Dưới đây là hình ảnh Anh Cường vừa dán vào:";
+
+// Local models often wrap the JSON in a Markdown code fence or add a sentence around it
+export const parseJsonReply = <T>(text: string): T => {
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start === -1 || end < start) throw new Error('Phản hồi của AI không có JSON.');
+    return JSON.parse(text.slice(start, end + 1)) as T;
+};
+
+// Gemini's schema notation (Type.OBJECT, nullable) as standard JSON Schema
+export const toJsonSchema = (schema: any): any => {
+    const { type, nullable, properties, items, ...rest } = schema;
+    const jsonType = String(type).toLowerCase();
+    return {
+        ...rest,
+        type: nullable ? [jsonType, 'null'] : jsonType,
+        ...(properties && {
+            properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])),
+        }),
+        ...(items && { items: toJsonSchema(items) }),
+    };
+};
@@ -0,0 +1,95 @@
+import type { AIChatResponse, AIProviderInfo, AISettings, ChatMessage, GeminiResponse, ServerStatement } from '../types';
+import type { PageImage } from './ocrPipeline';
+
+/**
+ * Client of the local API server (src/server). The server holds the AI keys;
+ * the dev server proxies /api to it (see vite.config.ts). Every request names
+ * the AI provider and model chosen in the settings.
+ */
+
+const API_BASE = '/api';
+const POLL_INTERVAL_MS = 1000;
+const AI_SETTINGS_STORAGE_KEY = 'aiSettings';
+
+// Null until the user picks one, so the server's default applies
+export const loadAISettings = (): AISettings | null => {
+    try {
+        const stored = localStorage.getItem(AI_SETTINGS_STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as AISettings) : null;
+    } catch {
+        return null;
+    }
+};
+
+export const saveAISettings = (settings: AISettings | null) => {
+    if (settings) localStorage.setItem(AI_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    else localStorage.removeItem(AI_SETTINGS_STORAGE_KEY);
+};
+
+const aiHeaders = (): Record<string, string> => {
+    const settings = loadAISettings();
+    if (!settings) return {};
+    return { 'X-AI-Provider': settings.provider, ...(settings.model && { 'X-AI-Model': settings.model }) };
+};
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(API_BASE + path, { ...init, headers: { ...aiHeaders(), ...(init.headers as Record<string, string>) } });
+    } catch {
+        throw new Error('Không kết nối được máy chủ chuyển đổi. Hãy chạy "npm run server".');
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) throw new Error(body?.error || `Máy chủ trả về lỗi ${response.status}.`);
+    return body as T;
+};
+
+const postJson = <T>(path: string, body: unknown) =>
+    request<T>(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+export const uploadStatement = (fileName: string, file: Blob) =>
+    request<ServerStatement>('/statements', {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(fileName) },
+        body: file,
+    });
+
+export const getServerStatement = (id: string) => request<ServerStatement>(`/statements/${id}`);
+
+// Polls until the server has finished the statement; a failed conversion is thrown as its error
+export const waitForStatement = async (id: string): Promise<ServerStatement> => {
+    for (;;) {
+        const statement = await getServerStatement(id);
+        if (statement.status === 'done') return statement;
+        if (statement.status === 'failed') throw new Error(statement.error || 'Máy chủ không xử lý được sao kê.');
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+};
+
+// The app reads and OCRs documents itself, so only the reviewed text is sent for parsing
+export const parseStatementOnServer = async (fileName: string, content: string): Promise<{ data: GeminiResponse; parsedWithProfile: string | null }> => {
+    const { id } = await uploadStatement(fileName || 'sao_ke.txt', new Blob([content], { type: 'text/plain' }));
+    const { data, parsedWithProfile } = await waitForStatement(id);
+    return { data: data!, parsedWithProfile };
+};
+
+export const getAIProviders = () => request<{ providers: AIProviderInfo[]; defaults: AISettings }>('/ai/providers');
+
+export const ocrPageOnServer = async (image: PageImage): Promise<string> =>
+    (await postJson<{ text: string }>('/ai/ocr', image)).text;
+
+export const categorizeWithAI = async (
+    items: { index: number; description: string; direction: 'in' | 'out' }[],
+    categories: string[]
+): Promise<{ index: number; category: string }[]> => {
+    if (items.length === 0) return [];
+    return (await postJson<{ results: { index: number; category: string }[] }>('/ai/categorize', { items, categories })).results;
+};
+
+export const chatWithAI = (
+    message: string,
+    report: GeminiResponse,
+    history: ChatMessage[],
+    content: string,
+    image: PageImage | null
+) => postJson<AIChatResponse>('/ai/chat', { message, report, history, content, image });
@@ -0,0 +1,97 @@
+import type { Transaction } from '../types';
+import { formatCurrency } from '../utils/format';
+import { FIELD_LABELS } from './confidence';
+
+/**
+ * Localizes balance mismatches using the running balance printed on each row.
+ * Every row is checked against the previous printed balance, so a single bad
+ * row is reported on its own instead of shifting every balance after it.
+ */
+
+export type AmountField = 'debit' | 'credit' | 'fee' | 'vat';
+
+export interface BalanceFix {
+    label: string;
+    changes: Partial<Record<AmountField, number>>;
+}
+
+export interface BalanceBreak {
+    index: number;
+    expected: number; // Previous balance plus this row's movement
+    printed: number;
+    difference: number; // printed - expected
+    suggestions: BalanceFix[];
+}
+
+// Tolerance of 1 unit (e.g., 1 VND), as for the ending balance check
+const TOLERANCE = 1;
+const ZERO_FACTORS = [10, 100, 1000, 0.1, 0.01, 0.001];
+
+export const rowMovement = (tx: Transaction) => tx.debit - tx.credit - (tx.fee || 0) - (tx.vat || 0);
+
+const suggestFixes = (tx: Transaction, actualMovement: number): BalanceFix[] => {
+    const fixes: BalanceFix[] = [];
+    const matches = (changes: BalanceFix['changes']) => Math.abs(rowMovement({ ...tx, ...changes }) - actualMovement) <= TOLERANCE;
+
+    if ((tx.debit || tx.credit) && matches({ debit: tx.credit, credit: tx.debit })) {
+        fixes.push({ label: 'Đảo ngược PS Nợ và PS Có', changes: { debit: tx.credit, credit: tx.debit } });
+    }
+
+    (['debit', 'credit', 'fee', 'vat'] as AmountField[]).forEach(field => {
+        const value = tx[field] || 0;
+        if (!value) return;
+        ZERO_FACTORS.forEach(factor => {
+            const candidate = Math.round(value * factor);
+            if (!candidate || !matches({ [field]: candidate })) return;
+            const zeros = Math.round(Math.abs(Math.log10(factor)));
+            const label = factor > 1
+                ? `${FIELD_LABELS[field]} bị thiếu ${zeros} số 0: ${formatCurrency(candidate)}`
+                : `${FIELD_LABELS[field]} bị thừa ${zeros} số 0: ${formatCurrency(candidate)}`;
+            fixes.push({ label, changes: { [field]: candidate } });
+        });
+    });
+
+    // More money left the account than recorded: usually a fee (and its VAT) was not extracted
+    const shortfall = rowMovement(tx) - actualMovement;
+    if (shortfall > TOLERANCE) {
+        // Split into fee + 10% VAT only when the amount divides exactly
+        const vat = shortfall / 11;
+        if (!tx.fee && !tx.vat && Number.isInteger(vat)) {
+            fixes.push({ label: `Thiếu phí ${formatCurrency(shortfall - vat)} và VAT ${formatCurrency(vat)}`, changes: { fee: shortfall - vat, vat } });
+        }
+        fixes.push({ label: `Thiếu phí ${formatCurrency(shortfall)}`, changes: { fee: (tx.fee || 0) + shortfall } });
+    }
+
+    return fixes;
+};
+
+/**
+ * Returns the rows whose printed balance does not follow from the previous one,
+ * in table order. Rows without a printed balance are carried forward with the
+ * computed balance.
+ */
+export const findBalanceBreaks = (transactions: Transaction[], openingBalance: number): BalanceBreak[] => {
+    const breaks: BalanceBreak[] = [];
+    let previousBalance = openingBalance;
+
+    transactions.forEach((tx, index) => {
+        const expected = previousBalance + rowMovement(tx);
+        if (tx.printedBalance === undefined || tx.printedBalance === null) {
+            previousBalance = expected;
+            return;
+        }
+        const difference = tx.printedBalance - expected;
+        if (Math.abs(difference) > TOLERANCE) {
+            breaks.push({
+                index,
+                expected,
+                printed: tx.printedBalance,
+                difference,
+                suggestions: suggestFixes(tx, tx.printedBalance - previousBalance),
+            });
+        }
+        previousBalance = tx.printedBalance;
+    });
+
+    return breaks;
+};
@@ -0,0 +1,79 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { BANK_PROFILES, parseDateCell, parseStructuredStatement } from './bankParsers';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/banks/${name}`, import.meta.url), 'utf8');
+
+// One export per bank, in the layout and separators that bank uses
+const CASES = [
+    { file: 'vcb.csv', profile: 'vcb', accountNumber: '0011004455667', openingBalance: 10_000_000, endingBalance: 13_000_000, first: { debit: 5_000_000, credit: 0 } },
+    { file: 'bidv.csv', profile: 'bidv', accountNumber: '12010000998877', openingBalance: 50_000_000, endingBalance: 32_489_000, first: { debit: 12_500_000, credit: 0 } },
+    { file: 'tcb.csv', profile: 'tcb', accountNumber: '19033344455566', openingBalance: 10_000_000, endingBalance: 23_800_000, first: { debit: 0, credit: 1_200_000 } },
+    { file: 'ctg.csv', profile: 'ctg', accountNumber: '101000223344', openingBalance: 50_000_000, endingBalance: 56_250_000, first: { debit: 7_500_000, credit: 0 } },
+    { file: 'mb.csv', profile: 'mb', accountNumber: '0801234567890', openingBalance: 20_000_000, endingBalance: 23_550_000, first: { debit: 3_000_000, credit: 0 } },
+    { file: 'acb.csv', profile: 'acb', accountNumber: '24681357', openingBalance: 5_000_000, endingBalance: 7_000_000, first: { debit: 0, credit: 2_000_000 } },
+    { file: 'stb.csv', profile: 'stb', accountNumber: '060123456789', openingBalance: 50_000_000, endingBalance: 48_000_000, first: { debit: 0, credit: 8_000_000 } },
+    { file: 'vpb.csv', profile: 'vpb', accountNumber: '123456789', openingBalance: 10_000_000, endingBalance: 9_700_000, first: { debit: 0, credit: 350_000 } },
+    { file: 'agribank.csv', profile: 'agribank', accountNumber: '1500201234567', openingBalance: 100_000_000, endingBalance: 107_000_000, first: { debit: 25_000_000, credit: 0 } },
+];
+
+describe('parseStructuredStatement', () => {
+    it('has a fixture for every bank profile', () => {
+        expect(CASES.map(c => c.profile).sort()).toEqual(BANK_PROFILES.map(p => p.id).sort());
+    });
+
+    it.each(CASES)('reads $file with the $profile profile', ({ file, profile, accountNumber, openingBalance, endingBalance, first }) => {
+        const result = parseStructuredStatement(fixture(file));
+        expect(result?.profile.id).toBe(profile);
+
+        const { accountInfo, transactions } = result!.data;
+        expect(accountInfo.bankName).toBe(BANK_PROFILES.find(p => p.id === profile)!.bankName);
+        expect(accountInfo.accountNumber).toBe(accountNumber);
+        expect(result!.data.openingBalance).toBe(openingBalance);
+        expect(result!.data.endingBalance).toBe(endingBalance);
+        expect(transactions[0]).toMatchObject(first);
+
+        // Every row must chain from the opening balance to its printed balance
+        let balance = openingBalance;
+        transactions.forEach(tx => {
+            balance += tx.debit - tx.credit - (tx.fee || 0) - (tx.vat || 0);
+            expect(tx.printedBalance).toBe(balance);
+        });
+        expect(balance).toBe(endingBalance);
+    });
+
+    it('reads fees and VAT into their own fields', () => {
+        const fee = parseStructuredStatement(fixture('bidv.csv'))!.data.transactions[1];
+        expect(fee).toMatchObject({ debit: 0, credit: 0, fee: 10_000, vat: 1_000 });
+    });
+
+    it('reads date-time and ISO date cells as DD/MM/YYYY', () => {
+        expect(parseStructuredStatement(fixture('ctg.csv'))!.data.transactions[0].date).toBe('12/03/2025');
+        expect(parseStructuredStatement(fixture('tcb.csv'))!.data.transactions[0].date).toBe('10/03/2025');
+    });
+
+    it('falls back to the generic profile for an unknown bank with a balance column', () => {
+        const result = parseStructuredStatement(fixture('generic.csv'));
+        expect(result?.profile.id).toBe('generic');
+        expect(result!.data.accountInfo.currency).toBe('USD');
+        expect(result!.data.transactions.map(tx => [tx.debit, tx.credit])).toEqual([[1250.5, 0], [0, 200]]);
+        expect(result!.data.openingBalance).toBe(2000);
+    });
+
+    it('leaves comma-separated prose that names the columns to the AI', () => {
+        expect(parseStructuredStatement(fixture('prose.txt'))).toBeNull();
+    });
+});
+
+describe('parseDateCell', () => {
+    it.each([
+        ['1/3/2025', '01/03/2025'],
+        ['01-03-25', '01/03/2025'],
+        ['01.03.2025 10:00', '01/03/2025'],
+        ['2025-03-01', '01/03/2025'],
+        ['32/01/2025', null],
+        ['Số dư', null],
+    ])('%s → %s', (raw, expected) => {
+        expect(parseDateCell(raw)).toBe(expected);
+    });
+});
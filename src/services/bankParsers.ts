@@ -0,0 +1,391 @@
+import type { AccountInfo, GeminiResponse, Transaction } from '../types';
+import { normalizeText } from '../utils/text';
+import { parseVnAmount } from '../utils/amount';
+import { parseCurrencyCode } from './currency';
+
+/**
+ * Rule-based parsers for structured (Excel/CSV) statement exports.
+ * When a known column layout is recognised the statement is converted directly,
+ * without a round-trip to Gemini.
+ */
+
+type ColumnKey = 'date' | 'description' | 'moneyIn' | 'moneyOut' | 'balance' | 'transactionCode' | 'fee' | 'vat' | 'currency' | 'exchangeRate';
+
+export interface BankProfile {
+    id: string;
+    bankName: string;
+    // Normalised keywords that identify the bank anywhere in the export
+    detect: string[];
+    // Normalised header aliases for each column. moneyIn = bank "Ghi có", moneyOut = bank "Ghi nợ".
+    columns: Partial<Record<ColumnKey, string[]>>;
+}
+
+export interface StructuredParseResult {
+    profile: BankProfile;
+    data: GeminiResponse;
+}
+
+const REQUIRED_COLUMNS: ColumnKey[] = ['date', 'description', 'moneyIn', 'moneyOut'];
+
+// Foreign-currency exports of every bank add these columns
+const SHARED_COLUMNS: Partial<Record<ColumnKey, string[]>> = {
+    currency: ['loai tien', 'ma tien te', 'ngoai te', 'currency', 'ccy'],
+    exchangeRate: ['ty gia', 'exchange rate'],
+};
+
+export const BANK_PROFILES: BankProfile[] = [
+    {
+        id: 'vcb',
+        bankName: 'Vietcombank',
+        detect: ['vietcombank', 'ngan hang tmcp ngoai thuong'],
+        columns: {
+            date: ['ngay giao dich', 'ngay gd', 'ngay'],
+            transactionCode: ['so tham chieu', 'so ct'],
+            moneyOut: ['so tien ghi no', 'ghi no', 'debit'],
+            moneyIn: ['so tien ghi co', 'ghi co', 'credit'],
+            balance: ['so du', 'balance'],
+            description: ['mo ta', 'noi dung', 'description'],
+        },
+    },
+    {
+        id: 'bidv',
+        bankName: 'BIDV',
+        detect: ['bidv', 'ngan hang tmcp dau tu va phat trien'],
+        columns: {
+            date: ['ngay hieu luc', 'ngay giao dich', 'ngay gd'],
+            transactionCode: ['so ct', 'so giao dich', 'ma gd'],
+            moneyOut: ['ghi no', 'phat sinh no', 'debit'],
+            moneyIn: ['ghi co', 'phat sinh co', 'credit'],
+            balance: ['so du', 'balance'],
+            description: ['mo ta', 'noi dung giao dich', 'noi dung'],
+            fee: ['phi'],
+            vat: ['thue', 'vat'],
+        },
+    },
+    {
+        id: 'tcb',
+        bankName: 'Techcombank',
+        detect: ['techcombank', 'ngan hang tmcp ky thuong'],
+        columns: {
+            date: ['ngay giao dich', 'ngay', 'transaction date'],
+            transactionCode: ['so giao dich', 'ma giao dich', 'reference'],
+            moneyOut: ['no', 'no/debit', 'debit'],
+            moneyIn: ['co', 'co/credit', 'credit'],
+            balance: ['so du', 'so du/balance', 'balance'],
+            description: ['dien giai', 'noi dung', 'description'],
+        },
+    },
+    {
+        id: 'ctg',
+        bankName: 'VietinBank',
+        detect: ['vietinbank', 'ngan hang tmcp cong thuong'],
+        columns: {
+            date: ['ngay giao dich', 'ngay hach toan', 'ngay'],
+            transactionCode: ['so gd', 'so giao dich', 'so but toan'],
+            moneyOut: ['no', 'ghi no', 'debit'],
+            moneyIn: ['co', 'ghi co', 'credit'],
+            balance: ['so du', 'balance'],
+            description: ['mo ta giao dich', 'noi dung', 'mo ta'],
+        },
+    },
+    {
+        id: 'mb',
+        bankName: 'MB Bank',
+        detect: ['mbbank', 'mb bank', 'ngan hang tmcp quan doi'],
+        columns: {
+            date: ['ngay giao dich', 'ngay gd'],
+            transactionCode: ['so but toan', 'so tham chieu', 'ma gd'],
+            moneyOut: ['phat sinh no', 'so tien ghi no', 'ghi no'],
+            moneyIn: ['phat sinh co', 'so tien ghi co', 'ghi co'],
+            balance: ['so du'],
+            description: ['noi dung', 'dien giai'],
+        },
+    },
+    {
+        id: 'acb',
+        bankName: 'ACB',
+        detect: ['ngan hang tmcp a chau', 'acb'],
+        columns: {
+            date: ['ngay hieu luc', 'ngay giao dich', 'ngay'],
+            transactionCode: ['so gd', 'so chung tu'],
+            moneyOut: ['rut ra', 'ghi no', 'tien ra'],
+            moneyIn: ['gui vao', 'ghi co', 'tien vao'],
+            balance: ['so du'],
+            description: ['dien giai', 'noi dung giao dich', 'noi dung'],
+        },
+    },
+    {
+        id: 'stb',
+        bankName: 'Sacombank',
+        detect: ['sacombank', 'ngan hang tmcp sai gon thuong tin'],
+        columns: {
+            date: ['ngay giao dich', 'ngay'],
+            transactionCode: ['so chung tu', 'so ct'],
+            moneyOut: ['rut ra', 'ghi no', 'no'],
+            moneyIn: ['gui vao', 'ghi co', 'co'],
+            balance: ['so du'],
+            description: ['noi dung', 'dien giai'],
+        },
+    },
+    {
+        id: 'vpb',
+        bankName: 'VPBank',
+        detect: ['vpbank', 'ngan hang tmcp viet nam thinh vuong'],
+        columns: {
+            date: ['ngay giao dich', 'ngay'],
+            transactionCode: ['so tham chieu', 'ma giao dich'],
+            moneyOut: ['so tien no', 'ghi no', 'debit'],
+            moneyIn: ['so tien co', 'ghi co', 'credit'],
+            balance: ['so du', 'balance'],
+            description: ['noi dung', 'mo ta'],
+        },
+    },
+    {
+        id: 'agribank',
+        bankName: 'Agribank',
+        detect: ['agribank', 'ngan hang nong nghiep'],
+        columns: {
+            date: ['ngay giao dich', 'ngay gd', 'ngay'],
+            transactionCode: ['so but toan', 'ma gd'],
+            moneyOut: ['phat sinh no', 'ghi no', 'so tien rut'],
+            moneyIn: ['phat sinh co', 'ghi co', 'so tien gui'],
+            balance: ['so du'],
+            description: ['noi dung', 'dien giai'],
+        },
+    },
+];
+
+// Fallback profile used when no bank is detected: accepts the aliases of every known profile.
+// It also needs a balance column, so pasted prose that happens to name the columns is left to the AI.
+const GENERIC_PROFILE: BankProfile = {
+    id: 'generic',
+    bankName: '',
+    detect: [],
+    columns: BANK_PROFILES.reduce((acc, profile) => {
+        (Object.keys(profile.columns) as ColumnKey[]).forEach(key => {
+            const merged = new Set([...(acc[key] || []), ...(profile.columns[key] || [])]);
+            acc[key] = Array.from(merged);
+        });
+        return acc;
+    }, {} as Partial<Record<ColumnKey, string[]>>),
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const matchesAlias = (cell: string, alias: string) => new RegExp(`^${escapeRegExp(alias)}(?![a-z0-9])`).test(cell);
+
+/**
+ * Splits delimited text (CSV/TSV/semicolon) into rows of cells, honouring quoted fields.
+ */
+export const parseDelimitedText = (text: string): string[][] => {
+    const firstLines = text.split(/\r?\n/).slice(0, 20).join('\n');
+    const delimiter = [',', ';', '\t']
+        .map(d => ({ d, count: firstLines.split(d).length }))
+        .sort((a, b) => b.count - a.count)[0].d;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell.trim());
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell.trim());
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell.trim());
+        rows.push(row);
+    }
+    return rows;
+};
+
+/**
+ * Normalises a date cell to DD/MM/YYYY. Accepts D/M/YYYY, D-M-YYYY, D.M.YYYY
+ * and YYYY-MM-DD, optionally followed by a time. Returns null for non-dates.
+ */
+export const parseDateCell = (raw: string): string | null => {
+    const value = raw.trim();
+    const pad = (n: string) => n.padStart(2, '0');
+
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) return `${pad(iso[3])}/${pad(iso[2])}/${iso[1]}`;
+
+    const dmy = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?!\d)/);
+    if (!dmy) return null;
+    const day = parseInt(dmy[1], 10);
+    const month = parseInt(dmy[2], 10);
+    if (day < 1 || day > 31 || month < 1 || month > 12) return null;
+    const year = dmy[3].length === 2 ? `20${dmy[3]}` : dmy[3];
+    return `${pad(dmy[1])}/${pad(dmy[2])}/${year}`;
+};
+
+const findHeader = (rows: string[][], profile: BankProfile): { rowIndex: number; columns: Partial<Record<ColumnKey, number>> } | null => {
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+        const cells = rows[rowIndex].map(normalizeText);
+        const columns: Partial<Record<ColumnKey, number>> = {};
+        const used = new Set<number>();
+
+        // Required columns first so an optional alias cannot steal their cell
+        const columnAliases = { ...SHARED_COLUMNS, ...profile.columns };
+        const keys = [...REQUIRED_COLUMNS, ...(Object.keys(columnAliases) as ColumnKey[]).filter(k => !REQUIRED_COLUMNS.includes(k))];
+        for (const key of keys) {
+            const aliases = columnAliases[key] || [];
+            // Try aliases in order so the most specific one wins
+            for (const alias of aliases) {
+                const col = cells.findIndex((cell, i) => !used.has(i) && matchesAlias(cell, alias));
+                if (col !== -1) {
+                    columns[key] = col;
+                    used.add(col);
+                    break;
+                }
+            }
+        }
+
+        if (REQUIRED_COLUMNS.every(key => columns[key] !== undefined)) {
+            return { rowIndex, columns };
+        }
+    }
+    return null;
+};
+
+const findLabelledValue = (rows: string[][], labels: string[]): string => {
+    for (const row of rows) {
+        for (let i = 0; i < row.length; i++) {
+            const normalized = normalizeText(row[i]);
+            const label = labels.find(l => normalized.startsWith(l));
+            if (!label) continue;
+
+            const colonIndex = row[i].indexOf(':');
+            const inline = colonIndex !== -1 ? row[i].slice(colonIndex + 1).trim() : '';
+            if (inline) return inline;
+            const next = row.slice(i + 1).find(cell => cell.trim() !== '');
+            if (next) return next.trim();
+        }
+    }
+    return '';
+};
+
+const findLabelledAmount = (rows: string[][], labels: string[]): number | null => {
+    const value = findLabelledValue(rows, labels);
+    return value ? parseVnAmount(value) : null;
+};
+
+const detectProfiles = (rows: string[][]): BankProfile[] => {
+    const haystack = normalizeText(rows.slice(0, 30).map(r => r.join(' ')).join(' '));
+    const detected = BANK_PROFILES.filter(p => p.detect.some(keyword => new RegExp(`(^|[^a-z])${escapeRegExp(keyword)}([^a-z]|$)`).test(haystack)));
+    return [...detected, GENERIC_PROFILE];
+};
+
+/**
+ * Attempts to convert a structured statement export into a GeminiResponse.
+ * Returns null when no profile matches so the caller can fall back to the AI.
+ */
+export const parseStructuredStatement = (text: string): StructuredParseResult | null => {
+    if (!text.trim()) return null;
+    const rows = parseDelimitedText(text).filter(row => row.some(cell => cell !== ''));
+
+    for (const profile of detectProfiles(rows)) {
+        const header = findHeader(rows, profile);
+        if (!header || (profile === GENERIC_PROFILE && header.columns.balance === undefined)) continue;
+
+        const { columns } = header;
+        const cellAt = (row: string[], key: ColumnKey) => (columns[key] !== undefined ? row[columns[key]!] || '' : '');
+        const amountAt = (row: string[], key: ColumnKey) => Math.abs(parseVnAmount(cellAt(row, key)) || 0);
+
+        const transactions: Transaction[] = [];
+        const balances: (number | null)[] = [];
+
+        for (const row of rows.slice(header.rowIndex + 1)) {
+            const date = parseDateCell(cellAt(row, 'date'));
+            if (!date) continue;
+
+            const balance = columns.balance !== undefined ? parseVnAmount(cellAt(row, 'balance')) : null;
+            const currency = parseCurrencyCode(cellAt(row, 'currency'));
+            const exchangeRate = parseVnAmount(cellAt(row, 'exchangeRate'));
+            const transaction: Transaction = {
+                transactionCode: cellAt(row, 'transactionCode'),
+                date,
+                description: cellAt(row, 'description'),
+                debit: amountAt(row, 'moneyIn'),
+                credit: amountAt(row, 'moneyOut'),
+                fee: amountAt(row, 'fee'),
+                vat: amountAt(row, 'vat'),
+                ...(balance !== null && { printedBalance: balance }),
+                ...(currency && { currency }),
+                ...(exchangeRate && exchangeRate > 0 && { exchangeRate }),
+            };
+            if (transaction.debit === 0 && transaction.credit === 0 && !transaction.fee && !transaction.vat) continue;
+
+            transactions.push(transaction);
+            balances.push(balance);
+        }
+
+        if (transactions.length === 0) continue;
+
+        const preamble = rows.slice(0, header.rowIndex);
+        const trailer = rows.slice(header.rowIndex + 1);
+
+        let openingBalance = findLabelledAmount(preamble.concat(trailer), ['so du dau ky', 'so du dau', 'so du cuoi ky truoc', 'opening balance']);
+        if (openingBalance === null && balances[0] !== null) {
+            const first = transactions[0];
+            openingBalance = balances[0]! - first.debit + first.credit + (first.fee || 0) + (first.vat || 0);
+        }
+
+        let endingBalance = findLabelledAmount(trailer.concat(preamble), ['so du cuoi ky', 'so du cuoi', 'closing balance', 'ending balance']);
+        if (endingBalance === null && balances[balances.length - 1] !== null) {
+            endingBalance = balances[balances.length - 1];
+        }
+
+        const accountInfo: AccountInfo = {
+            accountName: findLabelledValue(preamble, ['ten tai khoan', 'chu tai khoan', 'ten khach hang', 'account name']),
+            accountNumber: findLabelledValue(preamble, ['so tai khoan', 'so tk', 'account number', 'account no']),
+            bankName: profile.bankName,
+            branch: findLabelledValue(preamble, ['chi nhanh', 'branch']),
+        };
+        // The account currency is printed in the heading, or else every row carries the same one
+        const rowCurrencies = new Set(transactions.map(tx => tx.currency).filter(Boolean));
+        const currency = parseCurrencyCode(findLabelledValue(preamble, ['loai tien', 'tien te', 'currency', 'don vi tien']))
+            ?? (rowCurrencies.size === 1 ? [...rowCurrencies][0]! : null);
+        if (currency) {
+            accountInfo.currency = currency;
+            // Rows in the account currency need no currency of their own
+            transactions.forEach(tx => {
+                if (tx.currency === currency) delete tx.currency;
+            });
+        }
+
+        return {
+            profile,
+            data: {
+                accountInfo,
+                transactions,
+                openingBalance: openingBalance ?? 0,
+                endingBalance: endingBalance ?? 0,
+            },
+        };
+    }
+
+    return null;
+};
@@ -0,0 +1,185 @@
+import type { LedgerEntry, Transaction } from '../types';
+import { normalizeText } from '../utils/text';
+import { descriptionSimilarity } from './duplicates';
+
+/**
+ * Compares the bank ledger built from the statement with the company's own
+ * TK 112 ledger and produces a bank reconciliation statement: entries only the
+ * books have (deposits in transit, uncleared payments), entries only the bank
+ * has (collections, payments, fees not yet booked) and amount differences.
+ */
+
+export interface ReconciledPair {
+    transactionIndex: number;
+    entryId: string;
+    includesCharges: boolean; // The book entry also covers the bank fee and VAT of the row
+}
+
+export interface AmountDifference {
+    transactionIndex: number;
+    entryId: string;
+    bankAmount: number; // Signed movement on the statement (+ in, - out)
+    bookAmount: number; // Signed movement in the books
+}
+
+export interface BankOnlyItem {
+    transactionIndex: number;
+    amount: number;
+}
+
+export interface BankReconciliation {
+    pairs: ReconciledPair[];
+    amountDifferences: AmountDifference[];
+    outstandingDeposits: LedgerEntry[]; // Thu đã ghi sổ, ngân hàng chưa ghi có
+    unclearedPayments: LedgerEntry[]; // Chi đã ghi sổ, ngân hàng chưa ghi nợ
+    bankOnlyReceipts: BankOnlyItem[];
+    bankOnlyPayments: BankOnlyItem[];
+    bankOnlyFees: BankOnlyItem[]; // Phí và VAT ngân hàng chưa hạch toán
+    bankBalance: number;
+    adjustedBankBalance: number;
+    bookBalance: number;
+    adjustedBookBalance: number;
+    unexplained: number; // Should be 0 once every item is explained
+}
+
+// Books are often dated on the voucher, a few days away from the bank value date
+const MATCH_WINDOW_DAYS = 10;
+const TOLERANCE = 1;
+// Unequal amounts are only paired when the descriptions clearly refer to the same payment
+const MIN_DIFFERENCE_SIMILARITY = 0.5;
+
+const dayNumber = (date: string): number | null => {
+    const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    return match ? Date.UTC(+match[3], +match[2] - 1, +match[1]) / 86400000 : null;
+};
+
+const dayGap = (a: string, b: string): number => {
+    const dayA = dayNumber(a);
+    const dayB = dayNumber(b);
+    return dayA === null || dayB === null ? 0 : Math.abs(dayA - dayB);
+};
+
+const charges = (tx: Transaction) => (tx.fee || 0) + (tx.vat || 0);
+const bankMovement = (tx: Transaction) => tx.debit - tx.credit;
+const bookMovement = (entry: LedgerEntry) => entry.debit - entry.credit;
+const sameAmount = (a: number, b: number) => Math.abs(a - b) <= TOLERANCE;
+
+// The bank reference quoted in the book entry, e.g. "UNC FT24123..." or "theo GD 123456"
+const quotesReference = (tx: Transaction, entry: LedgerEntry): boolean => {
+    const code = normalizeText(tx.transactionCode || '');
+    return code.length >= 4 && normalizeText(`${entry.voucher} ${entry.description}`).includes(code);
+};
+
+interface Candidate {
+    transactionIndex: number;
+    entry: LedgerEntry;
+    includesCharges: boolean;
+    score: number;
+}
+
+// Lower is better: referenced first, then closest date, then most similar description
+const scoreCandidate = (tx: Transaction, entry: LedgerEntry): number =>
+    (quotesReference(tx, entry) ? 0 : 1000) + dayGap(tx.date, entry.date) * 10 + (1 - descriptionSimilarity(tx.description, entry.description));
+
+/**
+ * Pairs each bank row with at most one book entry. Candidates are ranked
+ * globally so a close, well-described pair is never taken by an earlier row.
+ */
+export const reconcileBankLedger = (
+    transactions: Transaction[],
+    entries: LedgerEntry[],
+    bankOpeningBalance: number,
+    bookOpeningBalance: number,
+): BankReconciliation => {
+    const candidates: Candidate[] = [];
+    transactions.forEach((tx, transactionIndex) => {
+        const movement = bankMovement(tx);
+        if (!movement) return;
+        entries.forEach(entry => {
+            if (dayGap(tx.date, entry.date) > MATCH_WINDOW_DAYS) return;
+            const book = bookMovement(entry);
+            if (sameAmount(book, movement)) {
+                candidates.push({ transactionIndex, entry, includesCharges: false, score: scoreCandidate(tx, entry) });
+            } else if (charges(tx) > 0 && movement < 0 && sameAmount(book, movement - charges(tx))) {
+                // Payment booked together with its fee in one voucher
+                candidates.push({ transactionIndex, entry, includesCharges: true, score: scoreCandidate(tx, entry) });
+            }
+        });
+    });
+
+    const usedRows = new Set<number>();
+    const usedEntries = new Set<string>();
+    const pairs: ReconciledPair[] = [];
+    candidates.sort((a, b) => a.score - b.score).forEach(candidate => {
+        if (usedRows.has(candidate.transactionIndex) || usedEntries.has(candidate.entry.id)) return;
+        usedRows.add(candidate.transactionIndex);
+        usedEntries.add(candidate.entry.id);
+        pairs.push({ transactionIndex: candidate.transactionIndex, entryId: candidate.entry.id, includesCharges: candidate.includesCharges });
+    });
+
+    // Fees and VAT booked as their own entries: the combined amount first, then each part
+    const chargesCovered = new Set(pairs.filter(pair => pair.includesCharges).map(pair => pair.transactionIndex));
+    const takeEntry = (tx: Transaction, amount: number): boolean => {
+        const entry = entries
+            .filter(e => !usedEntries.has(e.id) && sameAmount(bookMovement(e), -amount) && dayGap(tx.date, e.date) <= MATCH_WINDOW_DAYS)
+            .sort((a, b) => dayGap(tx.date, a.date) - dayGap(tx.date, b.date))[0];
+        if (entry) usedEntries.add(entry.id);
+        return !!entry;
+    };
+    const bankOnlyFees: BankOnlyItem[] = [];
+    transactions.forEach((tx, transactionIndex) => {
+        if (charges(tx) <= 0 || chargesCovered.has(transactionIndex)) return;
+        if (takeEntry(tx, charges(tx))) return;
+        const unbooked = [tx.fee || 0, tx.vat || 0].filter(part => part > 0 && !takeEntry(tx, part)).reduce((sum, part) => sum + part, 0);
+        if (unbooked > 0) bankOnlyFees.push({ transactionIndex, amount: unbooked });
+    });
+
+    // Same payment, different amount: leftovers in the same direction that describe the same thing
+    const amountDifferences: AmountDifference[] = [];
+    transactions.forEach((tx, transactionIndex) => {
+        const movement = bankMovement(tx);
+        if (!movement || usedRows.has(transactionIndex)) return;
+        const entry = entries
+            .filter(e => !usedEntries.has(e.id) && Math.sign(bookMovement(e)) === Math.sign(movement) && dayGap(tx.date, e.date) <= MATCH_WINDOW_DAYS)
+            .filter(e => quotesReference(tx, e) || descriptionSimilarity(tx.description, e.description) >= MIN_DIFFERENCE_SIMILARITY)
+            .sort((a, b) => scoreCandidate(tx, a) - scoreCandidate(tx, b))[0];
+        if (!entry) return;
+        usedRows.add(transactionIndex);
+        usedEntries.add(entry.id);
+        amountDifferences.push({ transactionIndex, entryId: entry.id, bankAmount: movement, bookAmount: bookMovement(entry) });
+    });
+
+    const bankOnly = (direction: 1 | -1): BankOnlyItem[] => transactions
+        .map((tx, transactionIndex) => ({ transactionIndex, amount: Math.abs(bankMovement(tx)), sign: Math.sign(bankMovement(tx)) }))
+        .filter(item => item.sign === direction && !usedRows.has(item.transactionIndex))
+        .map(({ transactionIndex, amount }) => ({ transactionIndex, amount }));
+    const bankOnlyReceipts = bankOnly(1);
+    const bankOnlyPayments = bankOnly(-1);
+    const outstandingDeposits = entries.filter(entry => !usedEntries.has(entry.id) && bookMovement(entry) > 0);
+    const unclearedPayments = entries.filter(entry => !usedEntries.has(entry.id) && bookMovement(entry) < 0);
+
+    const sum = <T>(items: T[], pick: (item: T) => number) => items.reduce((acc, item) => acc + pick(item), 0);
+    const bankBalance = bankOpeningBalance + sum(transactions, tx => bankMovement(tx) - charges(tx));
+    const bookBalance = bookOpeningBalance + sum(entries, bookMovement);
+    const adjustedBankBalance = bankBalance + sum(outstandingDeposits, bookMovement) + sum(unclearedPayments, bookMovement);
+    const adjustedBookBalance = bookBalance
+        + sum(bankOnlyReceipts, item => item.amount)
+        - sum(bankOnlyPayments, item => item.amount)
+        - sum(bankOnlyFees, item => item.amount)
+        + sum(amountDifferences, item => item.bankAmount - item.bookAmount);
+
+    return {
+        pairs,
+        amountDifferences,
+        outstandingDeposits,
+        unclearedPayments,
+        bankOnlyReceipts,
+        bankOnlyPayments,
+        bankOnlyFees,
+        bankBalance,
+        adjustedBankBalance,
+        bookBalance,
+        adjustedBookBalance,
+        unexplained: adjustedBankBalance - adjustedBookBalance,
+    };
+};
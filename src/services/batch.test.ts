@@ -0,0 +1,68 @@
+import * as XLSX from 'xlsx';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { GeminiResponse } from '../types';
+import { registerLibraries } from '../core/libraries';
+import { parseDelimitedText } from './bankParsers';
+import { createStatement, type WorkspaceStatement } from './workspace';
+import { buildBatchArchive, createBatchItem, type BatchItem } from './batch';
+
+const resultFor = (accountNumber: string): GeminiResponse => ({
+    accountInfo: { accountName: 'CONG TY TNHH AN PHAT', accountNumber, bankName: 'Vietcombank', branch: '' },
+    transactions: [{ transactionCode: 'FT1', date: '01/03/2025', description: 'Thu tien hang', debit: 5_000_000, credit: 0 }],
+    openingBalance: 10_000_000,
+    endingBalance: 15_000_000,
+});
+
+const processed = (fileName: string, accountNumber: string): WorkspaceStatement => ({
+    ...createStatement(fileName, ''),
+    openingBalance: '10000000',
+    result: resultFor(accountNumber),
+});
+
+const itemFor = (fileName: string, statement: WorkspaceStatement | null, changes: Partial<BatchItem>): BatchItem => ({
+    ...createBatchItem(new File([''], fileName)),
+    statementId: statement?.id ?? null,
+    ...changes,
+});
+
+const readArchive = (bytes: Uint8Array) => {
+    const archive = XLSX.CFB.read(bytes, { type: 'array' });
+    const names = archive.FullPaths.filter(path => !path.endsWith('/')).map(path => path.replace(/^Root Entry\//, '')).filter(name => name !== 'Sh33tJ5');
+    const summary = new TextDecoder().decode(new Uint8Array(XLSX.CFB.find(archive, '/tong_hop.csv')!.content));
+    return { names, summary: parseDelimitedText(summary) };
+};
+
+describe('buildBatchArchive', () => {
+    beforeAll(() => registerLibraries({ XLSX }));
+
+    it('exports only the statements of the batch and lists the files it left out', () => {
+        const done = processed('march.pdf', '0011004455667');
+        const review = processed('april.pdf', '0011004455668');
+        const outsideBatch = processed('other.pdf', '999');
+        const waiting = createStatement('may.pdf', '');
+        const items = [
+            itemFor('march.pdf', done, { status: 'done' }),
+            itemFor('april.pdf', review, { status: 'review', reviewReasons: ['Số dư cuối kỳ không khớp'] }),
+            itemFor('may.pdf', waiting, { status: 'review', pending: { data: resultFor('0011004455667'), parsedWithProfile: null, candidates: [] } }),
+            itemFor('june.pdf', null, { status: 'failed', error: 'Không đọc được tệp' }),
+        ];
+
+        const { names, summary } = readArchive(buildBatchArchive([done, review, outsideBatch, waiting], items, 'generic'));
+        expect(names.filter(name => name.endsWith('.xlsx')).sort()).toEqual([
+            '0011004455667/01032025-01032025/so_ngan_hang.xlsx',
+            '0011004455668/01032025-01032025/so_ngan_hang.xlsx',
+        ]);
+        expect(names.some(name => name.startsWith('999/'))).toBe(false);
+
+        const [headers, ...rows] = summary;
+        const column = (name: string) => rows.map(row => row[headers.indexOf(name)]);
+        expect(column('File gốc')).toEqual(['march.pdf', 'april.pdf', 'may.pdf', 'june.pdf']);
+        expect(column('Trạng thái')).toEqual(['Đã xong', 'Cần duyệt', 'Cần duyệt', 'Lỗi']);
+        expect(column('Ghi chú')).toEqual([
+            '',
+            'Số dư cuối kỳ không khớp',
+            'Không xuất: đang chờ duyệt giao dịch trùng',
+            'Không xuất: Không đọc được tệp',
+        ]);
+    });
+});
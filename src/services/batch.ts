@@ -0,0 +1,203 @@
+import type { GeminiResponse } from '../types';
+import type { WorkspaceStatement } from './workspace';
+import { getBalanceMismatchWarning, getStatementLabel, getStatementPeriod } from './workspace';
+import type { DuplicateCandidate } from './duplicates';
+import { getFlaggedCells } from './confidence';
+import { findBalanceBreaks } from './balanceChain';
+import { buildExport } from './exportProfiles';
+import { ledgerXlsxBytes } from './xlsxExport';
+import { buildJournal, lineAmountInWords, loadPostingRules, loadPostingSettings } from './journal';
+import { convertStatement, isForeignCurrency } from './currency';
+import { toCsv } from '../utils/download';
+import { createZip, type ZipEntry } from '../utils/zip';
+
+/**
+ * Month-end batch mode: many statement files go through extraction and
+ * processing one after another, then reviewers step through the results
+ * grouped by account and export everything as one archive.
+ */
+
+export type BatchStatus = 'queued' | 'ocr' | 'parsing' | 'review' | 'done' | 'failed';
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+    queued: 'Đang chờ',
+    ocr: 'Đang đọc (OCR)',
+    parsing: 'Đang phân tích',
+    review: 'Cần duyệt',
+    done: 'Đã xong',
+    failed: 'Lỗi',
+};
+
+// Processed rows held back until the reviewer resolves likely duplicates
+export interface PendingDuplicates {
+    data: GeminiResponse;
+    parsedWithProfile: string | null;
+    candidates: DuplicateCandidate[];
+}
+
+export interface BatchItem {
+    id: string;
+    fileName: string;
+    file: File;
+    status: BatchStatus;
+    statementId: string | null;
+    reviewReasons: string[];
+    pending?: PendingDuplicates;
+    error?: string;
+}
+
+export interface BatchGroup {
+    accountNumber: string; // Empty until the statement has been processed
+    label: string;
+    items: BatchItem[];
+}
+
+export const createBatchItem = (file: File): BatchItem => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    fileName: file.name,
+    file,
+    status: 'queued',
+    statementId: null,
+    reviewReasons: [],
+});
+
+export const isBatchRunning = (items: BatchItem[]) => items.some(item => item.status === 'queued' || item.status === 'ocr' || item.status === 'parsing');
+
+/**
+ * Why a processed statement should be looked at before it is exported.
+ * An empty list means it can go straight to done.
+ */
+export const getReviewReasons = (statement: WorkspaceStatement): string[] => {
+    const reasons: string[] = [];
+    const failedPages = statement.ocrPages.filter(page => page.status === 'failed').length;
+    if (failedPages > 0) reasons.push(`${failedPages} trang chưa đọc được`);
+    if (!statement.result) return reasons;
+
+    const { transactions } = statement.result;
+    const openingBalance = parseFloat(statement.openingBalance) || 0;
+    if (transactions.length === 0) reasons.push('Không có giao dịch nào');
+    if (getBalanceMismatchWarning(statement.result, openingBalance)) reasons.push('Số dư cuối kỳ không khớp');
+    const breaks = findBalanceBreaks(transactions, openingBalance).length;
+    if (breaks > 0) reasons.push(`${breaks} chỗ đứt chuỗi số dư`);
+    const flagged = getFlaggedCells(transactions).length;
+    if (flagged > 0) reasons.push(`${flagged} ô độ tin cậy thấp`);
+    return reasons;
+};
+
+const accountNumberOf = (statement: WorkspaceStatement | undefined) =>
+    statement?.result?.accountInfo.accountNumber.replace(/\s/g, '') ?? '';
+
+// Items in upload order within each account; unprocessed files come last
+export const groupBatchByAccount = (items: BatchItem[], statements: WorkspaceStatement[]): BatchGroup[] => {
+    const byId = new Map(statements.map(statement => [statement.id, statement]));
+    const groups = new Map<string, BatchGroup>();
+    items.forEach(item => {
+        const statement = item.statementId ? byId.get(item.statementId) : undefined;
+        const accountNumber = accountNumberOf(statement);
+        if (!groups.has(accountNumber)) {
+            const accountInfo = statement?.result?.accountInfo;
+            groups.set(accountNumber, {
+                accountNumber,
+                label: accountNumber ? [accountNumber, accountInfo?.bankName].filter(Boolean).join(' · ') : 'Chưa xác định tài khoản',
+                items: [],
+            });
+        }
+        groups.get(accountNumber)!.items.push(item);
+    });
+    return [...groups.values()].sort((a, b) => (!a.accountNumber ? 1 : !b.accountNumber ? -1 : a.accountNumber.localeCompare(b.accountNumber)));
+};
+
+// The first item still waiting for a reviewer after the given one, wrapping around
+export const nextReviewItem = (items: BatchItem[], afterId: string | null): BatchItem | null => {
+    const start = items.findIndex(item => item.id === afterId) + 1;
+    const ordered = [...items.slice(start), ...items.slice(0, start)];
+    return ordered.find(item => item.status === 'review') ?? null;
+};
+
+// Folder and file names without characters that archivers or Windows reject
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'sao_ke';
+
+const SUMMARY_HEADERS = ["Tài khoản", "Ngân hàng", "Tên tài khoản", "Từ ngày", "Đến ngày", "Loại tiền", "Số dư đầu kỳ", "Phát sinh Nợ", "Phát sinh Có", "Phí", "Thuế VAT", "Số dư cuối kỳ", "Số dư trên sao kê", "Trạng thái", "Ghi chú", "File gốc"];
+
+// Why a batch file has no result to export yet
+const skippedReason = (item: BatchItem): string => {
+    if (item.status === 'failed') return `Không xuất: ${item.error || 'xử lý lỗi'}`;
+    if (item.pending) return 'Không xuất: đang chờ duyệt giao dịch trùng';
+    return 'Không xuất: chưa xử lý xong';
+};
+
+/**
+ * Builds the month-end archive: one folder per account holding the ledger
+ * workbook, the export in the chosen accounting format and the journal for
+ * each processed statement of the batch, plus a summary sheet listing every
+ * file of the batch, with the reason when it was left out.
+ */
+export const buildBatchArchive = (statements: WorkspaceStatement[], items: BatchItem[], profileId: string): Uint8Array => {
+    const rules = loadPostingRules();
+    const settings = loadPostingSettings();
+    const byId = new Map(statements.map(statement => [statement.id, statement]));
+    const entries: ZipEntry[] = [];
+    const summaryRows: (string | number)[][] = [];
+    const usedNames = new Set<string>();
+
+    items.forEach(item => {
+        const statement = item.statementId ? byId.get(item.statementId) : undefined;
+        const result = statement?.result;
+        if (!statement || !result) {
+            summaryRows.push(['', '', '', '', '', '', '', '', '', '', '', '', '', BATCH_STATUS_LABELS[item.status], skippedReason(item), item.fileName]);
+            return;
+        }
+        const { accountInfo, transactions } = result;
+        const openingBalance = parseFloat(statement.openingBalance) || 0;
+        const conversion = isForeignCurrency(accountInfo.currency)
+            ? convertStatement(transactions, accountInfo.currency, openingBalance, statement.exchangeRates,
+                parseFloat(statement.openingExchangeRate) || undefined, parseFloat(statement.closingExchangeRate) || undefined)
+            : null;
+        const input = { accountInfo, transactions, openingBalance, conversion };
+        const period = getStatementPeriod(transactions);
+
+        const folder = safeName(accountNumberOf(statement) || getStatementLabel(statement).title);
+        const baseName = safeName(period ? `${period.from}-${period.to}`.replace(/\//g, '') : statement.fileName);
+        let name = `${folder}/${baseName}`;
+        for (let n = 2; usedNames.has(name); n++) name = `${folder}/${baseName}_${n}`;
+        usedNames.add(name);
+
+        const { profile, table } = buildExport(profileId, input);
+        const journal = buildJournal(transactions, rules, settings, conversion).flatMap(entry => entry.lines.map(line => [
+            entry.date, entry.documentNumber, line.description, line.debitAccount, line.creditAccount, line.amount, line.objectCode || '', lineAmountInWords(entry, line),
+        ]));
+        entries.push(
+            { name: `${name}/so_ngan_hang.xlsx`, data: ledgerXlsxBytes(input, result.endingBalance) },
+            { name: `${name}/${profile.fileName}`, data: '\uFEFF' + toCsv(table.headers, table.rows) },
+            { name: `${name}/but_toan.csv`, data: '\uFEFF' + toCsv(["Ngày", "Số CT", "Diễn giải", "TK Nợ", "TK Có", "Số tiền", "Đối tượng", "Số tiền bằng chữ"], journal) },
+        );
+
+        const totals = transactions.reduce((acc, tx) => ({
+            debit: acc.debit + tx.debit,
+            credit: acc.credit + tx.credit,
+            fee: acc.fee + (tx.fee || 0),
+            vat: acc.vat + (tx.vat || 0),
+        }), { debit: 0, credit: 0, fee: 0, vat: 0 });
+        summaryRows.push([
+            accountInfo.accountNumber,
+            accountInfo.bankName,
+            accountInfo.accountName,
+            period?.from ?? '',
+            period?.to ?? '',
+            accountInfo.currency || 'VND',
+            openingBalance,
+            totals.debit,
+            totals.credit,
+            totals.fee,
+            totals.vat,
+            openingBalance + totals.debit - totals.credit - totals.fee - totals.vat,
+            result.endingBalance,
+            BATCH_STATUS_LABELS[item.status],
+            item.status === 'review' ? item.reviewReasons.join('; ') : '',
+            statement.fileName,
+        ]);
+    });
+
+    entries.unshift({ name: 'tong_hop.csv', data: '\uFEFF' + toCsv(SUMMARY_HEADERS, summaryRows) });
+    return createZip(entries);
+};
@@ -0,0 +1,163 @@
+import type { CategoryRule, Transaction } from '../types';
+import { normalizeText } from '../utils/text';
+
+/**
+ * Categorizes transactions by business type. Sources are tried in order:
+ * categories learned from the user's own corrections, then the user-defined
+ * keyword/regex rules. Whatever is left can be sent to Gemini separately.
+ * Manual categories are never overwritten.
+ */
+
+export const UNCATEGORIZED = 'Chưa phân loại';
+
+export const DEFAULT_CATEGORIES = [
+    'Thu tiền khách hàng',
+    'Thanh toán nhà cung cấp',
+    'Lương',
+    'Bảo hiểm',
+    'Nộp thuế',
+    'Trả nợ vay',
+    'Lãi vay',
+    'Lãi tiền gửi',
+    'Phí ngân hàng',
+    'Tiền mặt',
+    'Chuyển nội bộ',
+    'Khác',
+];
+
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+    { id: 'cat-salary', category: 'Lương', pattern: 'luong, salary, thuong tet', isRegex: false, direction: 'out' },
+    { id: 'cat-insurance', category: 'Bảo hiểm', pattern: 'bhxh, bhyt, bao hiem xa hoi', isRegex: false, direction: 'out' },
+    { id: 'cat-tax', category: 'Nộp thuế', pattern: 'nop thue, nsnn, ngan sach nha nuoc, thue tncn, thue gtgt, thue tndn', isRegex: false, direction: 'out' },
+    { id: 'cat-loan-interest', category: 'Lãi vay', pattern: 'lai vay, thu lai', isRegex: false, direction: 'out' },
+    { id: 'cat-loan', category: 'Trả nợ vay', pattern: 'tra no goc, thu no goc, tra goc vay', isRegex: false, direction: 'out' },
+    { id: 'cat-deposit-interest', category: 'Lãi tiền gửi', pattern: 'lai tien gui, tra lai tk, interest', isRegex: false, direction: 'in' },
+    { id: 'cat-bank-fee', category: 'Phí ngân hàng', pattern: '^(thu )?phi\\b|phi (sms|quan ly|duy tri|chuyen tien)', isRegex: true, direction: 'out' },
+    { id: 'cat-cash', category: 'Tiền mặt', pattern: 'rut tien mat, nop tien mat, rut tm, nop tm, atm', isRegex: false, direction: 'any' },
+];
+
+const RULES_STORAGE_KEY = 'categoryRules';
+const LEARNED_STORAGE_KEY = 'learnedCategories';
+
+// Learned corrections: description signature -> category
+export type LearnedCategories = Record<string, string>;
+
+export const loadCategoryRules = (): CategoryRule[] => {
+    try {
+        const stored = localStorage.getItem(RULES_STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as CategoryRule[]) : DEFAULT_CATEGORY_RULES;
+    } catch {
+        return DEFAULT_CATEGORY_RULES;
+    }
+};
+
+export const saveCategoryRules = (rules: CategoryRule[]) => {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const loadLearnedCategories = (): LearnedCategories => {
+    try {
+        const stored = localStorage.getItem(LEARNED_STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as LearnedCategories) : {};
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Reduces a description to the words that identify the kind of payment,
+ * dropping amounts, dates and reference numbers that change every month.
+ */
+export const descriptionSignature = (description: string): string =>
+    normalizeText(description)
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length >= 2 && !/\d/.test(token))
+        .slice(0, 8)
+        .join(' ');
+
+export const learnCategory = (description: string, category: string) => {
+    const signature = descriptionSignature(description);
+    if (!signature) return;
+    const learned = loadLearnedCategories();
+    learned[signature] = category;
+    localStorage.setItem(LEARNED_STORAGE_KEY, JSON.stringify(learned));
+};
+
+const direction = (tx: Transaction) => (tx.debit > 0 ? 'in' : 'out');
+
+export const matchesCategoryRule = (tx: Transaction, rule: CategoryRule): boolean => {
+    if (rule.direction !== 'any' && rule.direction !== direction(tx)) return false;
+    const description = normalizeText(tx.description);
+    if (rule.isRegex) {
+        try {
+            return new RegExp(rule.pattern, 'i').test(description);
+        } catch {
+            return false; // An invalid pattern typed in the editor simply never matches
+        }
+    }
+    return rule.pattern.split(',').some(keyword => keyword.trim() && description.includes(normalizeText(keyword)));
+};
+
+const MIN_LEARNED_OVERLAP = 0.75;
+
+// Exact signature first, then the closest learned signature by shared words
+const findLearnedCategory = (tx: Transaction, learned: LearnedCategories): string | null => {
+    const signature = descriptionSignature(tx.description);
+    if (!signature) return null;
+    if (learned[signature]) return learned[signature];
+
+    const tokens = new Set(signature.split(' '));
+    let best: string | null = null;
+    let bestOverlap = MIN_LEARNED_OVERLAP;
+    Object.entries(learned).forEach(([learnedSignature, category]) => {
+        const learnedTokens = learnedSignature.split(' ');
+        const shared = learnedTokens.filter(token => tokens.has(token)).length;
+        const overlap = shared / (tokens.size + learnedTokens.length - shared);
+        if (overlap >= bestOverlap) {
+            best = category;
+            bestOverlap = overlap;
+        }
+    });
+    return best;
+};
+
+export const categorizeTransaction = (tx: Transaction, rules: CategoryRule[], learned: LearnedCategories): Transaction => {
+    if (tx.categorySource === 'manual') return tx;
+
+    const learnedCategory = findLearnedCategory(tx, learned);
+    if (learnedCategory) return { ...tx, category: learnedCategory, categorySource: 'learned' };
+
+    const rule = rules.find(r => matchesCategoryRule(tx, r));
+    if (rule) return { ...tx, category: rule.category, categorySource: 'rule' };
+
+    // Keep an earlier AI answer when no local source knows better
+    if (tx.categorySource === 'ai') return tx;
+    const { category, categorySource, ...rest } = tx;
+    return rest;
+};
+
+export const categorizeTransactions = (transactions: Transaction[], rules = loadCategoryRules(), learned = loadLearnedCategories()): Transaction[] =>
+    transactions.map(tx => categorizeTransaction(tx, rules, learned));
+
+export const getCategories = (rules: CategoryRule[], transactions: Transaction[] = []): string[] =>
+    [...new Set([...DEFAULT_CATEGORIES, ...rules.map(rule => rule.category), ...transactions.map(tx => tx.category).filter((c): c is string => !!c)])];
+
+export interface CategoryTotal {
+    category: string;
+    count: number;
+    moneyIn: number;
+    moneyOut: number; // Includes fee and VAT
+}
+
+export const summarizeByCategory = (transactions: Transaction[]): CategoryTotal[] => {
+    const totals = new Map<string, CategoryTotal>();
+    transactions.forEach(tx => {
+        const category = tx.category || UNCATEGORIZED;
+        const total = totals.get(category) || { category, count: 0, moneyIn: 0, moneyOut: 0 };
+        total.count++;
+        total.moneyIn += tx.debit;
+        total.moneyOut += tx.credit + (tx.fee || 0) + (tx.vat || 0);
+        totals.set(category, total);
+    });
+    return [...totals.values()].sort((a, b) => (b.moneyIn + b.moneyOut) - (a.moneyIn + a.moneyOut));
+};
@@ -0,0 +1,145 @@
+import type { ChangeRecord, ChangeSource, EditableField, Transaction, TransactionOperation, TransactionPatch } from '../types';
+import { FIELD_LABELS } from './confidence';
+import { formatCurrency } from '../utils/format';
+
+/**
+ * Patch-based undo/redo. Each change stores only the rows it replaced, so a
+ * keystroke costs one row instead of a copy of the whole report, and any
+ * single change can be reverted later as long as its rows are still there.
+ */
+
+// Keystrokes in the same cell within this window become one change
+const COALESCE_MS = 1500;
+
+const ARROW = ' → ';
+
+const sameRow = (a: Transaction, b: Transaction) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The smallest contiguous block of rows that differs between the two lists,
+ * or null when nothing changed.
+ */
+export const diffTransactions = (before: Transaction[], after: Transaction[]): TransactionPatch | null => {
+    let start = 0;
+    while (start < before.length && start < after.length && sameRow(before[start], after[start])) start++;
+    if (start === before.length && start === after.length) return null;
+
+    let endBefore = before.length;
+    let endAfter = after.length;
+    while (endBefore > start && endAfter > start && sameRow(before[endBefore - 1], after[endAfter - 1])) {
+        endBefore--;
+        endAfter--;
+    }
+    return { start, before: before.slice(start, endBefore), after: after.slice(start, endAfter) };
+};
+
+export const applyPatch = (transactions: Transaction[], patch: TransactionPatch): Transaction[] => {
+    const result = [...transactions];
+    result.splice(patch.start, patch.before.length, ...patch.after);
+    return result;
+};
+
+export const revertPatch = (transactions: Transaction[], patch: TransactionPatch): Transaction[] => {
+    const result = [...transactions];
+    result.splice(patch.start, patch.after.length, ...patch.before);
+    return result;
+};
+
+/**
+ * Finds where the rows written by a patch are now, after later changes may
+ * have shifted them. Returns null when they were edited again or removed.
+ */
+const locatePatch = (transactions: Transaction[], patch: TransactionPatch): number | null => {
+    const matchesAt = (start: number) =>
+        start >= 0 && start + patch.after.length <= transactions.length && patch.after.every((row, i) => sameRow(row, transactions[start + i]));
+
+    // Removed rows have nothing to find; they go back at their old position
+    if (patch.after.length === 0) return Math.min(patch.start, transactions.length);
+    // Closest position to where the change was made
+    for (let distance = 0; distance <= transactions.length; distance++) {
+        if (matchesAt(patch.start - distance)) return patch.start - distance;
+        if (distance > 0 && matchesAt(patch.start + distance)) return patch.start + distance;
+    }
+    return null;
+};
+
+/**
+ * Undoes one specific change on the current rows, or returns null when later
+ * edits touched the same rows (those must be undone first).
+ */
+export const revertChange = (transactions: Transaction[], change: ChangeRecord): Transaction[] | null => {
+    const start = locatePatch(transactions, change.patch);
+    return start === null ? null : revertPatch(transactions, { ...change.patch, start });
+};
+
+export const EDITABLE_LABELS: Record<EditableField, string> = {
+    ...FIELD_LABELS,
+    transactionCode: 'Mã GD',
+    description: 'Nội dung',
+    category: 'Nhóm',
+    exchangeRate: 'Tỷ giá',
+};
+
+const formatValue = (field: EditableField, value: unknown) =>
+    typeof value === 'number' && field !== 'date' ? formatCurrency(value) : `"${value ?? ''}"`;
+
+// A short Vietnamese description of an operation, for the change log
+export const describeOperation = (operation: TransactionOperation, transactions: Transaction[]): string => {
+    switch (operation.type) {
+        case 'update': {
+            const fields = Object.keys(operation.changes) as EditableField[];
+            const tx = transactions[operation.index];
+            if (fields.length === 1 && tx) {
+                const [field] = fields;
+                return `Dòng ${operation.index + 1}: ${EDITABLE_LABELS[field]} ${formatValue(field, tx[field])}${ARROW}${formatValue(field, operation.changes[field])}`;
+            }
+            return `Dòng ${operation.index + 1}: sửa ${fields.map(field => EDITABLE_LABELS[field]).join(', ')}`;
+        }
+        case 'verify':
+            return `Dòng ${operation.index + 1}: xác nhận ${FIELD_LABELS[operation.field]}`;
+        case 'insert':
+            return `Chèn dòng ${operation.index + 1}`;
+        case 'delete':
+            return `Xóa dòng ${operation.index + 1}${transactions[operation.index] ? ` (${transactions[operation.index].description})` : ''}`;
+        case 'move':
+            return `Chuyển dòng ${operation.from + 1} đến vị trí ${operation.to + 1}`;
+        case 'split':
+            return `Tách dòng ${operation.index + 1} thành ${operation.parts.length} dòng`;
+        case 'merge':
+            return `Gộp dòng ${operation.index + 1}–${operation.index + operation.count}`;
+    }
+};
+
+// Only single-cell updates are merged, so typing "120000" is one change rather than six
+export const coalesceKeyFor = (operation: TransactionOperation, source: ChangeSource): string | undefined =>
+    operation.type === 'update' && Object.keys(operation.changes).length === 1
+        ? `${source}:${operation.index}:${Object.keys(operation.changes)[0]}`
+        : undefined;
+
+/**
+ * Appends a change to the log, merging it into the previous one when both
+ * are keystrokes in the same cell. A merge that ends where it started drops
+ * the record entirely.
+ */
+export const recordChange = (changes: ChangeRecord[], patch: TransactionPatch, details: Pick<ChangeRecord, 'source' | 'label' | 'coalesceKey' | 'reverts'>): ChangeRecord[] => {
+    const now = Date.now();
+    const last = changes[changes.length - 1];
+    if (
+        last && details.coalesceKey && last.coalesceKey === details.coalesceKey && now - last.timestamp < COALESCE_MS
+        && last.patch.start === patch.start && last.patch.after.length === patch.before.length
+    ) {
+        const merged: TransactionPatch = { start: patch.start, before: last.patch.before, after: patch.after };
+        const rest = changes.slice(0, -1);
+        if (diffTransactions(merged.before, merged.after) === null) return rest;
+        // "Dòng 3: PS Nợ 0 → 1" + "Dòng 3: PS Nợ 1 → 12" reads "Dòng 3: PS Nợ 0 → 12"
+        const from = last.label.indexOf(ARROW);
+        const to = details.label.lastIndexOf(ARROW);
+        const label = from !== -1 && to !== -1 ? last.label.slice(0, from) + details.label.slice(to) : details.label;
+        return [...rest, { ...last, ...details, label, timestamp: now, patch: merged }];
+    }
+    return [...changes, { id: `chg-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`, timestamp: now, ...details, patch }];
+};
+
+// The rows as they were before any recorded change
+export const originalTransactions = (transactions: Transaction[], changes: ChangeRecord[]): Transaction[] =>
+    changes.reduceRight((rows, change) => revertPatch(rows, change.patch), transactions);
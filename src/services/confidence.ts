@@ -0,0 +1,43 @@
+import type { ConfidenceField, Transaction } from '../types';
+
+/**
+ * Helpers for the per-field confidence the AI attaches to each transaction.
+ * Fields without a score (manual entries, rule-based parsing) count as certain.
+ */
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+export const CONFIDENCE_FIELDS: ConfidenceField[] = ['date', 'debit', 'credit', 'fee', 'vat'];
+
+export const FIELD_LABELS: Record<ConfidenceField, string> = {
+    date: 'Ngày',
+    debit: 'PS Nợ',
+    credit: 'PS Có',
+    fee: 'Phí',
+    vat: 'Thuế VAT',
+};
+
+export interface FlaggedCell {
+    index: number;
+    field: ConfidenceField;
+    confidence: number;
+}
+
+export const isLowConfidence = (tx: Transaction, field: ConfidenceField, threshold = LOW_CONFIDENCE_THRESHOLD): boolean => {
+    const score = tx.confidence?.[field];
+    return score !== undefined && score < threshold;
+};
+
+/**
+ * Lists the low-confidence cells in table order, for the review queue.
+ */
+export const getFlaggedCells = (transactions: Transaction[], threshold = LOW_CONFIDENCE_THRESHOLD): FlaggedCell[] =>
+    transactions.flatMap((tx, index) =>
+        CONFIDENCE_FIELDS
+            .filter(field => isLowConfidence(tx, field, threshold))
+            .map(field => ({ index, field, confidence: tx.confidence![field]! }))
+    );
+
+// A value the user has entered or confirmed is certain from then on
+export const markFieldVerified = (tx: Transaction, field: ConfidenceField): Transaction =>
+    tx.confidence?.[field] === undefined ? tx : { ...tx, confidence: { ...tx.confidence, [field]: 1 } };
@@ -0,0 +1,195 @@
+import type { Counterparty, CounterpartyEntry, Transaction } from '../types';
+import { normalizeText } from '../utils/text';
+
+/**
+ * Pulls the counterparty (name, account number, bank) out of Vietnamese
+ * transfer descriptions, and keeps a local directory that maps counterparties
+ * to customer/supplier codes on the 131/331 subledgers.
+ */
+
+const BANK_CODES: Record<string, string> = {
+    VCB: 'Vietcombank', VIETCOMBANK: 'Vietcombank',
+    BIDV: 'BIDV',
+    TCB: 'Techcombank', TECHCOMBANK: 'Techcombank',
+    CTG: 'VietinBank', VIETINBANK: 'VietinBank', ICB: 'VietinBank',
+    MB: 'MB Bank', MBB: 'MB Bank', MBBANK: 'MB Bank',
+    ACB: 'ACB',
+    STB: 'Sacombank', SACOMBANK: 'Sacombank',
+    VPB: 'VPBank', VPBANK: 'VPBank',
+    AGRIBANK: 'Agribank', VBA: 'Agribank',
+    TPB: 'TPBank', TPBANK: 'TPBank',
+    VIB: 'VIB',
+    HDB: 'HDBank', HDBANK: 'HDBank',
+    SHB: 'SHB',
+    OCB: 'OCB',
+    MSB: 'MSB',
+    EIB: 'Eximbank', EXIMBANK: 'Eximbank',
+    SEAB: 'SeABank', SEABANK: 'SeABank',
+    LPB: 'LPBank', LPBANK: 'LPBank',
+    NAB: 'Nam A Bank', NAMABANK: 'Nam A Bank',
+    PVCOMBANK: 'PVcomBank',
+    ABBANK: 'ABBANK',
+    KLB: 'KienlongBank',
+    BAB: 'Bac A Bank',
+    SCB: 'SCB',
+};
+
+// Words introducing the sender (money in) or the receiver (money out)
+const SENDER_KEYWORDS = ['NGUOI CHUYEN', 'NGUOI GUI', 'BEN CHUYEN', 'FROM', 'TU'];
+const RECEIVER_KEYWORDS = ['NGUOI NHAN', 'NGUOI HUONG', 'BEN NHAN', 'BEN HUONG', 'DEN', 'TOI', 'CHO'];
+
+// Words that end a name: account labels, payment wording, bank codes.
+// "TU" is left out because it is also a common given name.
+const STOP_WORDS = new Set([
+    'TK', 'STK', 'TAI', 'KHOAN', 'ND', 'NOI', 'DUNG', 'CK', 'CHUYEN', 'TIEN', 'THANH', 'TOAN', 'TT', 'GD', 'MA', 'SO',
+    'REF', 'TRACE', 'FT', 'IBFT', 'NAPAS', 'GUI', 'NOP', 'TRA', 'HOAN', 'PHI', 'VND', 'QUA', 'VIA', 'LUC', 'NGAY',
+    ...SENDER_KEYWORDS.filter(keyword => keyword !== 'TU'), ...RECEIVER_KEYWORDS,
+    ...Object.keys(BANK_CODES),
+]);
+
+const MIN_ACCOUNT_DIGITS = 6;
+const MAX_ACCOUNT_DIGITS = 19;
+
+// Strips diacritics one character at a time so indices still line up with the original text
+const fold = (text: string): string =>
+    text.split('').map(ch => {
+        const folded = ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toUpperCase();
+        return folded.length === 1 ? folded : ch;
+    }).join('');
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+const findAccount = (folded: string): string => {
+    const match = folded.match(/\b(?:STK|SO TK|TK|TAI KHOAN|ACC(?:OUNT)?(?: NO)?)\s*[:.]?\s*(\d[\d .-]{4,24}\d)/);
+    const digits = match ? digitsOnly(match[1]) : '';
+    return digits.length >= MIN_ACCOUNT_DIGITS && digits.length <= MAX_ACCOUNT_DIGITS ? digits : '';
+};
+
+const findBank = (folded: string): string => {
+    const tokens = folded.split(/[^A-Z0-9]+/);
+    // The last bank code is usually the counterparty's (the statement's own bank often comes first, e.g. "MBVCB")
+    for (let i = tokens.length - 1; i >= 0; i--) {
+        if (BANK_CODES[tokens[i]]) return BANK_CODES[tokens[i]];
+    }
+    return '';
+};
+
+/**
+ * Reads a name starting at `start`: consecutive alphabetic words that are not
+ * stop words, ended by punctuation. Names need at least two words (Vietnamese
+ * personal and company names always have them).
+ */
+const readName = (original: string, folded: string, start: number): { name: string; end: number } | null => {
+    const wordPattern = /\s*([A-Z]+)(?=\s|[,.;:/-]|$)/y;
+    wordPattern.lastIndex = start;
+    let first = -1;
+    let last = -1;
+    let count = 0;
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(folded)) !== null && !STOP_WORDS.has(match[1])) {
+        last = wordPattern.lastIndex;
+        if (first === -1) first = last - match[1].length;
+        count++;
+        if (folded[last] !== ' ') break;
+    }
+    return count >= 2 ? { name: original.slice(first, last).replace(/\s+/g, ' '), end: last } : null;
+};
+
+const findNameAfterKeywords = (original: string, folded: string, keywords: string[]): { name: string; account: string; start: number } | null => {
+    const pattern = new RegExp(`\\b(?:${keywords.join('|')})\\b\\s*[:.-]?\\s*`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(folded)) !== null) {
+        let position = match.index + match[0].length;
+        // Some banks put the account right after the keyword: "tu 0011001234567 NGUYEN VAN A"
+        const accountMatch = folded.slice(position).match(/^(?:TK\s*)?(\d{6,19})\s+/);
+        if (accountMatch) position += accountMatch[0].length;
+        const found = readName(original, folded, position);
+        if (found) return { name: found.name, account: accountMatch ? accountMatch[1] : '', start: match.index };
+    }
+    return null;
+};
+
+/**
+ * Extracts the counterparty from a description. `direction` decides whether the
+ * sender (money in) or the receiver (money out) is the counterparty. Returns
+ * null when neither a name nor an account number is found.
+ */
+export const parseCounterparty = (description: string, direction: 'in' | 'out'): Counterparty | null => {
+    const folded = fold(description).replace(/\s/g, ' ');
+    const keywords = direction === 'in' ? SENDER_KEYWORDS : RECEIVER_KEYWORDS;
+
+    let found = findNameAfterKeywords(description, folded, keywords);
+    if (!found) {
+        // "NGUYEN VAN A chuyen tien ..." - the name opens the description
+        const leading = readName(description, folded, 0);
+        if (leading && /^\s*(CHUYEN|CK|TT|THANH TOAN|GUI|NOP)\b/.test(folded.slice(leading.end))) {
+            found = { name: leading.name, account: '', start: 0 };
+        }
+    }
+
+    const name = found?.name || '';
+    // Only look for a labelled account after the counterparty keyword, so our own account is not picked up
+    const account = found?.account || findAccount(folded.slice(found?.start ?? 0));
+    if (!name && !account) return null;
+    return { name, account, bank: findBank(folded) };
+};
+
+const DIRECTORY_STORAGE_KEY = 'counterpartyDirectory';
+
+export const loadCounterpartyDirectory = (): CounterpartyEntry[] => {
+    try {
+        const stored = localStorage.getItem(DIRECTORY_STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as CounterpartyEntry[]) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveCounterpartyDirectory = (entries: CounterpartyEntry[]) => {
+    localStorage.setItem(DIRECTORY_STORAGE_KEY, JSON.stringify(entries));
+};
+
+/**
+ * Finds the directory entry for a counterparty: the account number decides
+ * when both sides have one, otherwise the name (ignoring case and diacritics).
+ */
+export const findDirectoryEntry = (counterparty: Counterparty, directory: CounterpartyEntry[]): CounterpartyEntry | null => {
+    if (counterparty.account) {
+        const byAccount = directory.find(entry => entry.account && digitsOnly(entry.account) === counterparty.account);
+        if (byAccount) return byAccount;
+    }
+    if (!counterparty.name) return null;
+    const name = normalizeText(counterparty.name);
+    return directory.find(entry => normalizeText(entry.name) === name) ?? null;
+};
+
+// Next free code with the given prefix: KH0001, KH0002... or NCC0001...
+export const nextCounterpartyCode = (directory: CounterpartyEntry[], prefix: string): string => {
+    const used = directory
+        .map(entry => entry.code.match(new RegExp(`^${prefix}(\\d+)$`)))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map(match => parseInt(match[1], 10));
+    return `${prefix}${String(Math.max(0, ...used) + 1).padStart(4, '0')}`;
+};
+
+export const createDirectoryEntry = (counterparty: Counterparty, direction: 'in' | 'out', directory: CounterpartyEntry[]): CounterpartyEntry => ({
+    id: `cp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: counterparty.name,
+    account: counterparty.account,
+    bank: counterparty.bank,
+    code: nextCounterpartyCode(directory, direction === 'in' ? 'KH' : 'NCC'),
+    ledgerAccount: direction === 'in' ? '131' : '331',
+});
+
+/**
+ * Parses the counterparty of every transaction (once) and attaches the code
+ * and subledger account from the directory.
+ */
+export const assignCounterparties = (transactions: Transaction[], directory = loadCounterpartyDirectory()): Transaction[] =>
+    transactions.map(tx => {
+        const parsed = tx.counterparty ?? parseCounterparty(tx.description, tx.debit > 0 ? 'in' : 'out');
+        if (!parsed) return tx;
+        const { code, ledgerAccount, ...details } = parsed;
+        const entry = findDirectoryEntry(details, directory);
+        return { ...tx, counterparty: entry ? { ...details, code: entry.code, ledgerAccount: entry.ledgerAccount } : details };
+    });
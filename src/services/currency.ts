@@ -0,0 +1,120 @@
+import type { ExchangeRate, Transaction } from '../types';
+import { normalizeText } from '../utils/text';
+
+/**
+ * Foreign-currency statements. Amounts stay in the account currency; each row
+ * is converted to VND at its own rate (printed on the statement, typed in, or
+ * looked up in an imported rate table) and the closing balance is revalued at
+ * the period-end rate, the difference being an exchange gain (515) or loss (635).
+ */
+
+export const BASE_CURRENCY = 'VND';
+
+export const CURRENCIES = ['VND', 'USD', 'EUR', 'JPY', 'CNY', 'GBP', 'AUD', 'SGD', 'KRW', 'HKD', 'CAD', 'CHF', 'THB'];
+
+// Currency names as they appear on Vietnamese statements, matched without diacritics
+const CURRENCY_NAMES: [string, string][] = [
+    ['do la my', 'USD'],
+    ['euro', 'EUR'],
+    ['yen', 'JPY'],
+    ['nhan dan te', 'CNY'],
+    ['bang anh', 'GBP'],
+    ['vnd', 'VND'],
+    ['dong', 'VND'],
+];
+
+export interface VndConversion {
+    currency: string;
+    rates: (number | null)[]; // Per row, VND per unit; null when no rate is known
+    missingRates: number[]; // Indexes of rows without a rate
+    openingRate: number | null;
+    closingRate: number | null;
+    closingBalance: number; // In the account currency
+    openingBalanceVnd: number;
+    bookBalanceVnd: number; // Opening balance plus every row at its own rate
+    revaluedBalanceVnd: number; // Closing balance at the closing rate
+    exchangeDifference: number; // Revalued minus book: > 0 is a gain, < 0 a loss
+    revaluationDate: string;
+}
+
+export const parseCurrencyCode = (raw: string): string | null => {
+    const code = raw.toUpperCase().match(/\b[A-Z]{3}\b/g)?.find(candidate => CURRENCIES.includes(candidate));
+    if (code) return code;
+    const text = normalizeText(raw);
+    return CURRENCY_NAMES.find(([name]) => text.includes(name))?.[1] ?? null;
+};
+
+export const isForeignCurrency = (currency?: string): currency is string => !!currency && currency !== BASE_CURRENCY;
+
+export const rowCurrency = (tx: Transaction, accountCurrency?: string): string => tx.currency || accountCurrency || BASE_CURRENCY;
+
+// Each journal line is rounded on its own so the lines and the ledger agree to the đồng
+export const toVnd = (amount: number, rate: number | null): number => Math.round(amount * (rate ?? 0));
+
+const dayNumber = (date: string): number | null => {
+    const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    return match ? Date.UTC(+match[3], +match[2] - 1, +match[1]) / 86400000 : null;
+};
+
+/**
+ * The latest rate on or before the date. A table that starts after the date
+ * has no rate for it.
+ */
+export const findRate = (rates: ExchangeRate[], currency: string, date: string): number | null => {
+    if (currency === BASE_CURRENCY) return 1;
+    const day = dayNumber(date);
+    const candidates = rates
+        .filter(rate => rate.currency === currency)
+        .map(rate => ({ rate: rate.rate, day: dayNumber(rate.date) ?? 0 }))
+        .sort((a, b) => a.day - b.day);
+    if (candidates.length === 0) return null;
+    if (day === null) return candidates[candidates.length - 1].rate;
+    const onOrBefore = candidates.filter(candidate => candidate.day <= day);
+    return onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1].rate : null;
+};
+
+// A rate on the row wins over the table
+export const rateForRow = (tx: Transaction, accountCurrency: string | undefined, rates: ExchangeRate[]): number | null =>
+    tx.exchangeRate || findRate(rates, rowCurrency(tx, accountCurrency), tx.date);
+
+const netMovementVnd = (tx: Transaction, rate: number | null) =>
+    toVnd(tx.debit, rate) - toVnd(tx.credit, rate) - toVnd(tx.fee || 0, rate) - toVnd(tx.vat || 0, rate);
+
+/**
+ * Converts a foreign-currency statement to VND. The opening and closing rates
+ * default to the table rates on the first and last transaction dates.
+ */
+export const convertStatement = (
+    transactions: Transaction[],
+    currency: string,
+    openingBalance: number,
+    rates: ExchangeRate[],
+    openingRate?: number,
+    closingRate?: number,
+): VndConversion => {
+    const rowRates = transactions.map(tx => rateForRow(tx, currency, rates));
+    const firstDate = transactions[0]?.date ?? '';
+    const revaluationDate = transactions[transactions.length - 1]?.date ?? '';
+    const opening = openingRate || findRate(rates, currency, firstDate);
+    const closing = closingRate || findRate(rates, currency, revaluationDate);
+
+    const closingBalance = transactions.reduce((sum, tx) => sum + tx.debit - tx.credit - (tx.fee || 0) - (tx.vat || 0), openingBalance);
+    const openingBalanceVnd = toVnd(openingBalance, opening);
+    const bookBalanceVnd = transactions.reduce((sum, tx, i) => sum + netMovementVnd(tx, rowRates[i]), openingBalanceVnd);
+    const revaluedBalanceVnd = toVnd(closingBalance, closing);
+
+    return {
+        currency,
+        rates: rowRates,
+        missingRates: rowRates.flatMap((rate, i) => (rate ? [] : [i])),
+        openingRate: opening,
+        closingRate: closing,
+        closingBalance,
+        openingBalanceVnd,
+        bookBalanceVnd,
+        revaluedBalanceVnd,
+        // Without every rate the book value is unknown, so nothing is revalued
+        exchangeDifference: opening && closing && rowRates.every(Boolean) ? revaluedBalanceVnd - bookBalanceVnd : 0,
+        revaluationDate,
+    };
+};
@@ -0,0 +1,89 @@
+import type { Transaction } from '../types';
+import { normalizeText } from '../utils/text';
+import { dateSortValue, getStatementPeriod, type StatementPeriod } from './workspace';
+
+/**
+ * Finds transactions that were probably extracted twice: the same statement
+ * uploaded again, overlapping statement periods, or a page read twice.
+ */
+
+export interface DuplicateSource {
+    label: string;
+    transactions: Transaction[];
+}
+
+export interface DuplicateCandidate {
+    index: number; // Row in the incoming transactions
+    source: string; // Label of the statement holding the earlier copy
+    matchIndex: number;
+    match: Transaction;
+    reason: 'code' | 'content';
+    similarity: number; // Description similarity (0-1)
+}
+
+export const SAME_STATEMENT = 'Cùng sao kê';
+
+const MIN_SIMILARITY = 0.6;
+
+const descriptionTokens = (description: string) =>
+    new Set(normalizeText(description).split(/[^a-z0-9]+/).filter(token => token.length >= 2));
+
+// Jaccard similarity of the description words, so OCR noise and truncation still match
+export const descriptionSimilarity = (a: string, b: string): number => {
+    const tokensA = descriptionTokens(a);
+    const tokensB = descriptionTokens(b);
+    if (tokensA.size === 0 && tokensB.size === 0) return 1;
+    const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+    return shared / (tokensA.size + tokensB.size - shared);
+};
+
+const sameAmounts = (a: Transaction, b: Transaction) =>
+    a.debit === b.debit && a.credit === b.credit && (a.fee || 0) === (b.fee || 0) && (a.vat || 0) === (b.vat || 0);
+
+export const periodsOverlap = (a: StatementPeriod, b: StatementPeriod): boolean =>
+    dateSortValue(a.from) <= dateSortValue(b.to) && dateSortValue(b.from) <= dateSortValue(a.to);
+
+const matchTransactions = (tx: Transaction, other: Transaction): Pick<DuplicateCandidate, 'reason' | 'similarity'> | null => {
+    const similarity = descriptionSimilarity(tx.description, other.description);
+    const code = tx.transactionCode?.trim();
+    if (code && code.length >= 4 && code === other.transactionCode?.trim() && sameAmounts(tx, other)) {
+        return { reason: 'code', similarity };
+    }
+    if (tx.date === other.date && sameAmounts(tx, other) && similarity >= MIN_SIMILARITY) {
+        return { reason: 'content', similarity };
+    }
+    return null;
+};
+
+/**
+ * Compares incoming transactions with earlier rows of the same list and with
+ * other statements of the same account. Sources whose period does not overlap
+ * the incoming one are skipped. Each incoming row is reported at most once.
+ */
+export const findDuplicates = (incoming: Transaction[], sources: DuplicateSource[]): DuplicateCandidate[] => {
+    const period = getStatementPeriod(incoming);
+    const overlapping = sources.filter(source => {
+        const sourcePeriod = getStatementPeriod(source.transactions);
+        return period && sourcePeriod && periodsOverlap(period, sourcePeriod);
+    });
+
+    const candidates: DuplicateCandidate[] = [];
+    incoming.forEach((tx, index) => {
+        for (const source of overlapping) {
+            const matchIndex = source.transactions.findIndex(other => matchTransactions(tx, other));
+            if (matchIndex !== -1) {
+                candidates.push({ index, source: source.label, matchIndex, match: source.transactions[matchIndex], ...matchTransactions(tx, source.transactions[matchIndex])! });
+                return;
+            }
+        }
+        // A match earlier in the same list means the row was read twice (e.g. a repeated page)
+        for (let i = 0; i < index; i++) {
+            const found = matchTransactions(tx, incoming[i]);
+            if (found) {
+                candidates.push({ index, source: SAME_STATEMENT, matchIndex: i, match: incoming[i], ...found });
+                return;
+            }
+        }
+    });
+    return candidates;
+};
@@ -0,0 +1,59 @@
+import type { ExchangeRate } from '../types';
+import { normalizeText } from '../utils/text';
+import { parseVnAmount } from '../utils/amount';
+import { parseDateCell, parseDelimitedText } from './bankParsers';
+import { parseCurrencyCode } from './currency';
+import { getXLSX } from '../core/libraries';
+
+/**
+ * Reads an exchange rate table (e.g. the bank's daily rates or the company's
+ * booking rates) from CSV or Excel.
+ */
+
+type RateColumn = 'date' | 'currency' | 'rate';
+
+const RATE_COLUMN_ALIASES: Record<RateColumn, string[]> = {
+    date: ['ngay', 'date'],
+    currency: ['loai tien', 'ma ngoai te', 'ngoai te', 'ma tien te', 'currency'],
+    rate: ['ty gia ghi so', 'ty gia', 'rate', 'exchange rate'],
+};
+
+/**
+ * Reads a rate table with columns Ngày, Loại tiền and Tỷ giá. Tables without a
+ * currency column are taken to be rates of `defaultCurrency`.
+ */
+export const parseExchangeRateTable = (text: string, defaultCurrency: string): ExchangeRate[] => {
+    const rows = parseDelimitedText(text).filter(row => row.some(cell => cell !== ''));
+    for (let rowIndex = 0; rowIndex < Math.min(rows.length, 30); rowIndex++) {
+        const cells = rows[rowIndex].map(normalizeText);
+        const columnOf = (key: RateColumn) => {
+            for (const alias of RATE_COLUMN_ALIASES[key]) {
+                const col = cells.findIndex(cell => cell.startsWith(alias));
+                if (col !== -1) return col;
+            }
+            return -1;
+        };
+        const dateColumn = columnOf('date');
+        const rateColumn = columnOf('rate');
+        if (dateColumn === -1 || rateColumn === -1) continue;
+        const currencyColumn = columnOf('currency');
+
+        return rows.slice(rowIndex + 1).flatMap(row => {
+            const date = parseDateCell(row[dateColumn] || '');
+            const rate = parseVnAmount(row[rateColumn] || '');
+            const currency = currencyColumn !== -1 ? parseCurrencyCode(row[currencyColumn] || '') : defaultCurrency;
+            return date && rate && rate > 0 && currency ? [{ date, currency, rate }] : [];
+        });
+    }
+    throw new Error('Không tìm thấy các cột "Ngày" và "Tỷ giá" trong bảng tỷ giá.');
+};
+
+export const importExchangeRateFile = async (file: File, defaultCurrency: string): Promise<ExchangeRate[]> => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+        const XLSX = getXLSX();
+        const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+        return parseExchangeRateTable(XLSX.utils.sheet_to_csv(workbook.Sheets[workbook.SheetNames[0]]), defaultCurrency);
+    }
+    return parseExchangeRateTable(await file.text(), defaultCurrency);
+};
@@ -0,0 +1,87 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import type { AccountInfo, Transaction } from '../types';
+import { toCsv } from '../utils/download';
+import { EXPORT_PROFILES, formatDate, type ExportContext, type ExportInput } from './exportProfiles';
+import { DEFAULT_RULES, DEFAULT_SETTINGS } from './journal';
+import { convertStatement } from './currency';
+
+const golden = (name: string) => readFileSync(new URL(`./__fixtures__/exports/${name}`, import.meta.url), 'utf8');
+
+const context: ExportContext = { rules: DEFAULT_RULES, settings: DEFAULT_SETTINGS.TT200 };
+
+const accountInfo: AccountInfo = {
+    accountName: 'CONG TY TNHH AN PHAT',
+    accountNumber: '0011004455667',
+    bankName: 'Vietcombank',
+    branch: 'Ba Đình',
+};
+
+// A receipt from a known customer, a rule-matched payment, a fee-only row and a plain payment.
+// The 12/03 date tells day and month apart; the comma and quotes exercise CSV escaping.
+const transactions: Transaction[] = [
+    {
+        transactionCode: 'FT1', date: '01/03/2025', description: 'CTY MINH KHANG TT HD 0012, dot 1', debit: 5_000_000, credit: 0,
+        counterparty: { name: 'CTY MINH KHANG', account: '', bank: '', code: 'KH001', ledgerAccount: '131' },
+    },
+    { transactionCode: 'FT2', date: '05/03/2025', description: 'Tra luong thang 2', debit: 0, credit: 30_000_000 },
+    { transactionCode: 'FT3', date: '06/03/2025', description: 'Phi chuyen tien', debit: 0, credit: 0, fee: 10_000, vat: 1_000 },
+    { transactionCode: 'FT4', date: '12/03/2025', description: 'Thanh toan "HD 45" cho NCC', debit: 0, credit: 2_000_000 },
+];
+
+const vndInput: ExportInput = { accountInfo, transactions, openingBalance: 40_000_000 };
+
+const usdTransactions: Transaction[] = [
+    { transactionCode: 'INV-1', date: '28/03/2025', description: 'Payment from customer', debit: 1250.5, credit: 0 },
+    { transactionCode: 'INV-2', date: '29/03/2025', description: 'Freight charge', debit: 0, credit: 200 },
+];
+const usdRates = [
+    { date: '28/03/2025', currency: 'USD', rate: 25_000 },
+    { date: '29/03/2025', currency: 'USD', rate: 25_200 },
+];
+const usdInput: ExportInput = {
+    accountInfo: { ...accountInfo, accountNumber: '0011370001234', currency: 'USD' },
+    transactions: usdTransactions,
+    openingBalance: 2000,
+    conversion: convertStatement(usdTransactions, 'USD', 2000, usdRates, 24_900, 25_500),
+};
+
+const render = (profileId: string, input: ExportInput) => {
+    const profile = EXPORT_PROFILES.find(p => p.id === profileId)!;
+    const table = profile.build(input, context);
+    return { table, csv: toCsv(table.headers, table.rows) + '\n' };
+};
+
+describe('export profiles', () => {
+    it.each(EXPORT_PROFILES.map(profile => profile.id))('%s matches its golden file', profileId => {
+        expect(render(profileId, vndInput).csv).toBe(golden(`${profileId}.csv`));
+    });
+
+    it.each(['misa', 'fast', 'bravo'])('%s matches its golden file for a USD statement with revaluation', profileId => {
+        expect(render(profileId, usdInput).csv).toBe(golden(`${profileId}_usd.csv`));
+    });
+
+    it('writes dates the way each program reads them', () => {
+        // Last row: the 12/03/2025 payment
+        const lastDate = (profileId: string, column: number) => render(profileId, vndInput).table.rows.at(-1)![column];
+        expect(lastDate('misa', 1)).toBe('12/03/2025');
+        expect(lastDate('fast', 1)).toBe('03/12/2025');
+        expect(lastDate('bravo', 0)).toBe('2025-03-12');
+    });
+
+    it('numbers MISA receipts, payments and the revaluation with their own voucher types', () => {
+        const rows = render('misa', usdInput).table.rows;
+        expect(rows.map(row => [row[0], row[3]])).toEqual([
+            ['Thu tiền gửi', 'NTTK00001'],
+            ['Chi tiền gửi', 'UNC00001'],
+            ['Chứng từ nghiệp vụ khác', 'NVK00001'],
+        ]);
+    });
+});
+
+describe('formatDate', () => {
+    it('leaves dates it cannot read unchanged', () => {
+        expect(formatDate('1/3/2025', 'yyyy-MM-dd')).toBe('2025-03-01');
+        expect(formatDate('March 1', 'yyyy-MM-dd')).toBe('March 1');
+    });
+});
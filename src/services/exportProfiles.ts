@@ -0,0 +1,235 @@
+import type { AccountInfo, Transaction, PostingRule, PostingSettings } from '../types';
+import { buildJournal, loadPostingRules, loadPostingSettings } from './journal';
+import { BASE_CURRENCY, toVnd, type VndConversion } from './currency';
+
+/**
+ * Export profiles: each one produces the exact import template (column order,
+ * headers, date format, document numbers, account codes) expected by a
+ * particular accounting program.
+ */
+
+export interface ExportInput {
+    accountInfo: AccountInfo;
+    transactions: Transaction[];
+    openingBalance: number;
+    conversion?: VndConversion | null; // Set for foreign-currency statements
+}
+
+export interface ExportTable {
+    headers: string[];
+    rows: (string | number)[][];
+}
+
+export interface ExportContext {
+    rules: PostingRule[];
+    settings: PostingSettings;
+}
+
+export interface ExportProfile {
+    id: string;
+    name: string;
+    fileName: string;
+    build: (input: ExportInput, context: ExportContext) => ExportTable;
+}
+
+/**
+ * Reformats a DD/MM/YYYY date using a pattern made of dd, MM and yyyy.
+ * Dates that cannot be read are returned unchanged.
+ */
+export const formatDate = (date: string, pattern: string): string => {
+    const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (!match) return date;
+    return pattern
+        .replace('dd', match[1].padStart(2, '0'))
+        .replace('MM', match[2].padStart(2, '0'))
+        .replace('yyyy', match[3]);
+};
+
+/**
+ * The bank ledger as shown in ResultTable: opening balance row, one row per
+ * transaction with a running balance, and a totals row. Foreign-currency
+ * statements get the same amounts converted to VND in extra columns, and a
+ * revaluation row when the closing rate changes the VND balance.
+ */
+export const buildLedgerTable = ({ accountInfo, transactions, openingBalance, conversion }: ExportInput): ExportTable => {
+    const headers = ["Tên tài khoản", "Số tài khoản", "Tên ngân hàng", "Chi nhánh", "Mã GD", "Ngày giá trị", "Nội dung thanh toán", "Phát Sinh Nợ", "Phát Sinh Có", "Phí", "Thuế VAT", "Số dư"];
+    if (conversion) {
+        headers.push("Loại tiền", "Tỷ giá", "Phát Sinh Nợ (VND)", "Phát Sinh Có (VND)", "Phí (VND)", "Thuế VAT (VND)", "Số dư (VND)");
+    }
+    let runningBalance = openingBalance;
+    let runningBalanceVnd = conversion?.openingBalanceVnd ?? 0;
+    const totals = { debit: 0, credit: 0, fee: 0, vat: 0 };
+    const totalsVnd = { debit: 0, credit: 0, fee: 0, vat: 0 };
+
+    const rows = transactions.map((tx, i) => {
+        runningBalance = runningBalance + tx.debit - tx.credit - (tx.fee || 0) - (tx.vat || 0);
+        totals.debit += tx.debit;
+        totals.credit += tx.credit;
+        totals.fee += tx.fee || 0;
+        totals.vat += tx.vat || 0;
+        const vndColumns: (string | number)[] = [];
+        if (conversion) {
+            const rate = conversion.rates[i];
+            const [debit, credit, fee, vat] = [tx.debit, tx.credit, tx.fee || 0, tx.vat || 0].map(amount => toVnd(amount, rate));
+            runningBalanceVnd += debit - credit - fee - vat;
+            totalsVnd.debit += debit;
+            totalsVnd.credit += credit;
+            totalsVnd.fee += fee;
+            totalsVnd.vat += vat;
+            vndColumns.push(tx.currency || conversion.currency, rate ?? '', debit, credit, fee, vat, runningBalanceVnd);
+        }
+        return [
+            accountInfo.accountName,
+            accountInfo.accountNumber,
+            accountInfo.bankName,
+            accountInfo.branch,
+            tx.transactionCode || '',
+            tx.date,
+            tx.description,
+            tx.debit,
+            tx.credit,
+            tx.fee || 0,
+            tx.vat || 0,
+            runningBalance,
+            ...vndColumns,
+        ];
+    });
+
+    const initialRow = [
+        accountInfo.accountName,
+        accountInfo.accountNumber,
+        accountInfo.bankName,
+        accountInfo.branch,
+        '', '', 'Số dư đầu kỳ', '', '', '', '', openingBalance,
+        ...(conversion ? [conversion.currency, conversion.openingRate ?? '', '', '', '', '', conversion.openingBalanceVnd] : []),
+    ];
+
+    const totalRow = [
+        '', '', '', '', '', '', 'Cộng phát sinh', totals.debit, totals.credit, totals.fee, totals.vat, runningBalance,
+        ...(conversion ? ['', '', totalsVnd.debit, totalsVnd.credit, totalsVnd.fee, totalsVnd.vat, runningBalanceVnd] : []),
+    ];
+
+    if (!conversion?.exchangeDifference) return { headers, rows: [initialRow, ...rows, totalRow] };
+
+    const revaluationRow = [
+        '', '', '', '', '', conversion.revaluationDate,
+        `Chênh lệch đánh giá lại theo tỷ giá cuối kỳ (${conversion.exchangeDifference > 0 ? 'lãi - TK 515' : 'lỗ - TK 635'})`,
+        '', '', '', '', runningBalance,
+        conversion.currency, conversion.closingRate ?? '', '', '', '', '', conversion.revaluedBalanceVnd,
+    ];
+    return { headers, rows: [initialRow, ...rows, totalRow, revaluationRow] };
+};
+
+// MISA numbers bank receipts as NTTK (nộp tiền vào tài khoản), payments as UNC (ủy nhiệm chi)
+// and the exchange revaluation as NVK (nghiệp vụ khác)
+const MISA_PREFIXES: Record<string, [string, string]> = {
+    BC: ['Thu tiền gửi', 'NTTK'],
+    BN: ['Chi tiền gửi', 'UNC'],
+    DG: ['Chứng từ nghiệp vụ khác', 'NVK'],
+};
+
+// Any other document is booked as a generic voucher, like FAST's PK1 below
+const misaPrefix = (documentNumber: string) => MISA_PREFIXES[documentNumber.slice(0, 2)] ?? MISA_PREFIXES.DG;
+
+const misaDocumentType = (documentNumber: string) => misaPrefix(documentNumber)[0];
+
+const misaDocumentNumber = (documentNumber: string) =>
+    `${misaPrefix(documentNumber)[1]}${documentNumber.replace(/^\D+/, '').padStart(5, '0')}`;
+
+// FAST: BC1/BN1 bank vouchers, PK1 (phiếu kế toán) for the revaluation
+const fastDocumentType = (documentNumber: string) => ({ BC: 'BC1', BN: 'BN1' } as Record<string, string>)[documentNumber.slice(0, 2)] ?? 'PK1';
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+    {
+        id: 'generic',
+        name: 'CSV chung (sổ ngân hàng)',
+        fileName: 'so_ke_ke_toan.csv',
+        build: input => buildLedgerTable(input),
+    },
+    {
+        id: 'misa',
+        name: 'MISA SME (Thu/Chi tiền gửi)',
+        fileName: 'misa_chung_tu_tien_gui.csv',
+        build: ({ accountInfo, transactions, conversion }, { rules, settings }) => ({
+            headers: [
+                "Loại chứng từ", "Ngày hạch toán (*)", "Ngày chứng từ (*)", "Số chứng từ (*)", "Tài khoản ngân hàng",
+                "Tên ngân hàng", "Diễn giải lý do", "Loại tiền", "Tỷ giá", "Diễn giải (*)", "TK Nợ (*)", "TK Có (*)", "Số tiền", "Số tiền quy đổi",
+                "Mã đối tượng",
+            ],
+            rows: buildJournal(transactions, rules, settings, conversion).flatMap(entry => entry.lines.map(line => {
+                const date = formatDate(entry.date, 'dd/MM/yyyy');
+                return [
+                    misaDocumentType(entry.documentNumber),
+                    date,
+                    date,
+                    misaDocumentNumber(entry.documentNumber),
+                    accountInfo.accountNumber,
+                    accountInfo.bankName,
+                    entry.description,
+                    entry.currency || BASE_CURRENCY,
+                    entry.exchangeRate ?? 1,
+                    line.description,
+                    line.debitAccount,
+                    line.creditAccount,
+                    line.foreignAmount ?? line.amount,
+                    line.amount,
+                    line.objectCode || '',
+                ];
+            })),
+        }),
+    },
+    {
+        id: 'fast',
+        name: 'FAST Accounting (Báo có/Báo nợ)',
+        fileName: 'fast_bao_co_bao_no.csv',
+        build: ({ transactions, conversion }, { rules, settings }) => ({
+            headers: ["Ma_ct", "Ngay_ct", "So_ct", "Dien_giai", "Tk_no", "Tk_co", "Ma_nt", "Ty_gia", "Tien_nt", "Tien", "Ma_kh"],
+            rows: buildJournal(transactions, rules, settings, conversion).flatMap(entry => entry.lines.map(line => [
+                fastDocumentType(entry.documentNumber),
+                formatDate(entry.date, 'MM/dd/yyyy'),
+                entry.documentNumber,
+                line.description,
+                line.debitAccount,
+                line.creditAccount,
+                entry.currency || BASE_CURRENCY,
+                entry.exchangeRate ?? 1,
+                line.foreignAmount ?? line.amount,
+                line.amount,
+                line.objectCode || '',
+            ])),
+        }),
+    },
+    {
+        id: 'bravo',
+        name: 'Bravo (chứng từ ngân hàng)',
+        fileName: 'bravo_chung_tu_ngan_hang.csv',
+        build: ({ transactions, conversion }, { rules, settings }) => ({
+            headers: ["DocDate", "DocNo", "Description", "DebitAccount", "CreditAccount", "CurrencyCode", "ExchangeRate", "OriginalAmount", "Amount", "CustomerCode"],
+            rows: buildJournal(transactions, rules, settings, conversion).flatMap(entry => entry.lines.map(line => [
+                formatDate(entry.date, 'yyyy-MM-dd'),
+                entry.documentNumber,
+                line.description,
+                line.debitAccount,
+                line.creditAccount,
+                entry.currency || BASE_CURRENCY,
+                entry.exchangeRate ?? 1,
+                line.foreignAmount ?? line.amount,
+                line.amount,
+                line.objectCode || '',
+            ])),
+        }),
+    },
+];
+
+export const getExportProfile = (id: string): ExportProfile =>
+    EXPORT_PROFILES.find(profile => profile.id === id) ?? EXPORT_PROFILES[0];
+
+/**
+ * Builds the export table for a profile using the posting rules the user saved
+ * in the journal view.
+ */
+export const buildExport = (profileId: string, input: ExportInput): { profile: ExportProfile; table: ExportTable } => {
+    const profile = getExportProfile(profileId);
+    const table = profile.build(input, { rules: loadPostingRules(), settings: loadPostingSettings() });
+    return { profile, table };
+};
@@ -0,0 +1,129 @@
+import type { Invoice, InvoiceKind } from '../types';
+import { normalizeText } from '../utils/text';
+import { parseDateCell, parseDelimitedText } from './bankParsers';
+import { parseVnAmount } from '../utils/amount';
+import { getXLSX } from '../core/libraries';
+
+/**
+ * Reads invoice lists: CSV/XLSX exports from e-invoice portals and e-invoice
+ * XML files (Circular 78 layout, one or many <HDon> per file).
+ */
+
+type InvoiceColumn = 'series' | 'number' | 'date' | 'partyName' | 'taxCode' | 'amount';
+
+// Normalised header aliases, most specific first
+const COLUMN_ALIASES: Record<InvoiceColumn, string[]> = {
+    series: ['ky hieu hoa don', 'ky hieu', 'khhdon', 'series'],
+    number: ['so hoa don', 'so hd', 'shdon', 'invoice no', 'invoice number'],
+    date: ['ngay hoa don', 'ngay lap', 'ngay hd', 'nlap', 'invoice date', 'ngay'],
+    partyName: ['ten don vi', 'ten khach hang', 'ten nha cung cap', 'ten doanh nghiep', 'customer', 'supplier'],
+    taxCode: ['ma so thue', 'mst', 'tax code'],
+    amount: ['tong tien thanh toan', 'tong thanh toan', 'tong cong', 'tong tien', 'thanh tien', 'total amount', 'amount'],
+};
+
+// Portal exports list both parties; the counterparty is the buyer on sales and the seller on purchases
+const PARTY_ALIASES: Record<InvoiceKind, Pick<Record<InvoiceColumn, string[]>, 'partyName' | 'taxCode'>> = {
+    sales: { partyName: ['ten nguoi mua'], taxCode: ['mst nguoi mua'] },
+    purchase: { partyName: ['ten nguoi ban'], taxCode: ['mst nguoi ban'] },
+};
+
+const REQUIRED_COLUMNS: InvoiceColumn[] = ['number', 'amount'];
+
+const createId = () => `inv-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const findColumns = (rows: string[][], kind: InvoiceKind): { rowIndex: number; columns: Partial<Record<InvoiceColumn, number>> } | null => {
+    const aliases: Record<InvoiceColumn, string[]> = {
+        ...COLUMN_ALIASES,
+        partyName: [...PARTY_ALIASES[kind].partyName, ...COLUMN_ALIASES.partyName],
+        taxCode: [...PARTY_ALIASES[kind].taxCode, ...COLUMN_ALIASES.taxCode],
+    };
+    for (let rowIndex = 0; rowIndex < Math.min(rows.length, 30); rowIndex++) {
+        const cells = rows[rowIndex].map(normalizeText);
+        const columns: Partial<Record<InvoiceColumn, number>> = {};
+        const taken = new Set<number>();
+        (Object.keys(aliases) as InvoiceColumn[]).forEach(key => {
+            for (const alias of aliases[key]) {
+                const col = cells.findIndex((cell, i) => !taken.has(i) && cell.startsWith(alias));
+                if (col !== -1) {
+                    columns[key] = col;
+                    taken.add(col);
+                    break;
+                }
+            }
+        });
+        if (REQUIRED_COLUMNS.every(key => columns[key] !== undefined)) return { rowIndex, columns };
+    }
+    return null;
+};
+
+export const parseInvoiceTable = (text: string, kind: InvoiceKind): Invoice[] => {
+    const rows = parseDelimitedText(text).filter(row => row.some(cell => cell !== ''));
+    const header = findColumns(rows, kind);
+    if (!header) throw new Error('Không tìm thấy cột "Số hóa đơn" và "Tổng tiền thanh toán" trong file.');
+
+    const cellAt = (row: string[], key: InvoiceColumn) => (header.columns[key] !== undefined ? row[header.columns[key]!] || '' : '');
+    return rows.slice(header.rowIndex + 1).flatMap(row => {
+        const number = cellAt(row, 'number').trim();
+        const amount = parseVnAmount(cellAt(row, 'amount'));
+        if (!number || !amount) return [];
+        return [{
+            id: createId(),
+            kind,
+            series: cellAt(row, 'series').trim(),
+            number,
+            date: parseDateCell(cellAt(row, 'date')) || '',
+            partyName: cellAt(row, 'partyName').trim(),
+            taxCode: cellAt(row, 'taxCode').replace(/\s/g, ''),
+            amount: Math.abs(amount),
+        }];
+    });
+};
+
+const childText = (parent: Element | null | undefined, tag: string): string =>
+    parent?.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+
+/**
+ * Reads e-invoice XML. The counterparty is the buyer (NMua) of a sales invoice
+ * and the seller (NBan) of a purchase invoice.
+ */
+export const parseInvoiceXml = (xml: string, kind: InvoiceKind): Invoice[] => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('File XML hóa đơn không hợp lệ.');
+
+    return Array.from(doc.getElementsByTagName('HDon')).flatMap(invoice => {
+        const general = invoice.getElementsByTagName('TTChung')[0];
+        const party = invoice.getElementsByTagName(kind === 'sales' ? 'NMua' : 'NBan')[0];
+        const amount = parseFloat(childText(invoice.getElementsByTagName('TToan')[0], 'TgTTTBSo'));
+        const number = childText(general, 'SHDon');
+        if (!number || isNaN(amount)) return [];
+        return [{
+            id: createId(),
+            kind,
+            series: childText(general, 'KHHDon'),
+            number,
+            date: parseDateCell(childText(general, 'NLap')) || '',
+            partyName: childText(party, 'Ten'),
+            taxCode: childText(party, 'MST'),
+            amount,
+        }];
+    });
+};
+
+export const importInvoiceFile = async (file: File, kind: InvoiceKind): Promise<Invoice[]> => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.xml')) {
+        return parseInvoiceXml(await file.text(), kind);
+    }
+    if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+        const XLSX = getXLSX();
+        const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+        return workbook.SheetNames.flatMap((sheetName: string) => {
+            try {
+                return parseInvoiceTable(XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName]), kind);
+            } catch {
+                return []; // Sheets without an invoice table (cover pages, notes) are skipped
+            }
+        });
+    }
+    return parseInvoiceTable(await file.text(), kind);
+};
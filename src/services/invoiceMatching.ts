@@ -0,0 +1,144 @@
+import type { Invoice, InvoiceAllocation, InvoiceMatch, Transaction } from '../types';
+import { normalizeText } from '../utils/text';
+
+/**
+ * Matches bank receipts against sales invoices and payments against purchase
+ * invoices. A payment may settle part of an invoice, one invoice may be paid
+ * in several transfers, and one transfer may settle several invoices.
+ */
+
+export interface InvoiceMatchResult {
+    matches: InvoiceMatch[];
+    paid: Record<string, number>; // Amount allocated to each invoice
+    unmatchedTransactions: number[];
+    unmatchedInvoices: Invoice[]; // Nothing paid yet
+    partiallyPaidInvoices: Invoice[];
+}
+
+// Payments may come a little before the invoice (deposits) and up to a quarter after
+const DAYS_BEFORE_INVOICE = 7;
+const DAYS_AFTER_INVOICE = 90;
+const TOLERANCE = 1;
+const MAX_COMBINATION_SIZE = 4;
+const MAX_COMBINATION_CANDIDATES = 12;
+
+const dayNumber = (date: string): number | null => {
+    const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    return match ? Date.UTC(+match[3], +match[2] - 1, +match[1]) / 86400000 : null;
+};
+
+const stripZeros = (value: string) => value.replace(/^0+/, '');
+
+/**
+ * True when the description quotes the invoice number ("HD 123", "hoa don so 0000123")
+ * or, for numbers of five digits or more, contains it as a standalone number.
+ */
+const quotesInvoiceNumber = (description: string, invoice: Invoice): boolean => {
+    const number = stripZeros(invoice.number.replace(/\D/g, ''));
+    if (!number) return false;
+    if (new RegExp(`(?:hd|hoa don|inv|invoice|so)\\s*[:.#-]?\\s*(?:so\\s*)?0*${number}(?!\\d)`).test(description)) return true;
+    return number.length >= 5 && description.split(/\D+/).some(token => stripZeros(token) === number);
+};
+
+const quotesTaxCode = (description: string, invoice: Invoice): boolean => {
+    const taxCode = invoice.taxCode.replace(/\D/g, '');
+    return taxCode.length >= 10 && description.replace(/[\s-]/g, '').includes(taxCode);
+};
+
+const isSameParty = (tx: Transaction, invoice: Invoice): boolean => {
+    const name = tx.counterparty?.name ? normalizeText(tx.counterparty.name) : '';
+    const party = normalizeText(invoice.partyName);
+    return !!name && !!party && (party.includes(name) || name.includes(party));
+};
+
+// Smallest group of open invoices whose remaining amounts add up to the payment
+const findCombination = (candidates: Invoice[], remaining: Map<string, number>, amount: number): Invoice[] | null => {
+    const pool = candidates.slice(0, MAX_COMBINATION_CANDIDATES);
+    const search = (start: number, size: number, chosen: Invoice[], sum: number): Invoice[] | null => {
+        if (chosen.length === size) return Math.abs(sum - amount) <= TOLERANCE ? chosen : null;
+        for (let i = start; i < pool.length; i++) {
+            const value = remaining.get(pool[i].id)!;
+            if (sum + value > amount + TOLERANCE) continue;
+            const found = search(i + 1, size, [...chosen, pool[i]], sum + value);
+            if (found) return found;
+        }
+        return null;
+    };
+    for (let size = 2; size <= MAX_COMBINATION_SIZE; size++) {
+        const found = search(0, size, [], 0);
+        if (found) return found;
+    }
+    return null;
+};
+
+export const matchInvoices = (transactions: Transaction[], invoices: Invoice[]): InvoiceMatchResult => {
+    const remaining = new Map(invoices.map(invoice => [invoice.id, invoice.amount]));
+    const matches: InvoiceMatch[] = [];
+
+    // Oldest payments first so instalments settle invoices in order
+    const ordered = transactions
+        .map((tx, index) => ({ tx, index, day: dayNumber(tx.date) }))
+        .sort((a, b) => (a.day ?? 0) - (b.day ?? 0));
+
+    ordered.forEach(({ tx, index, day }) => {
+        const amount = tx.debit > 0 ? tx.debit : tx.credit;
+        if (!amount) return;
+        const kind = tx.debit > 0 ? 'sales' : 'purchase';
+        const description = normalizeText(tx.description);
+
+        const open = invoices
+            .filter(invoice => invoice.kind === kind && remaining.get(invoice.id)! > TOLERANCE)
+            .filter(invoice => {
+                const invoiceDay = dayNumber(invoice.date);
+                return day === null || invoiceDay === null || (day >= invoiceDay - DAYS_BEFORE_INVOICE && day <= invoiceDay + DAYS_AFTER_INVOICE);
+            })
+            .sort((a, b) => (dayNumber(a.date) ?? 0) - (dayNumber(b.date) ?? 0));
+
+        let chosen: Invoice[] = open.filter(invoice => quotesInvoiceNumber(description, invoice));
+        let method: InvoiceMatch['method'] = 'reference';
+
+        if (chosen.length === 0) {
+            const partyInvoices = open.filter(invoice => quotesTaxCode(description, invoice) || isSameParty(tx, invoice));
+            const exact = (partyInvoices.length > 0 ? partyInvoices : open).filter(invoice => Math.abs(remaining.get(invoice.id)! - amount) <= TOLERANCE);
+            const byDistance = (invoice: Invoice) => Math.abs((dayNumber(invoice.date) ?? day ?? 0) - (day ?? 0));
+
+            if (exact.length > 0) {
+                chosen = [exact.sort((a, b) => byDistance(a) - byDistance(b))[0]];
+                method = partyInvoices.length > 0 ? 'party' : 'amount';
+            } else if (partyInvoices.length > 0) {
+                // A known party: settle whole invoices if they add up, otherwise pay the oldest first
+                chosen = findCombination(partyInvoices, remaining, amount) ?? partyInvoices;
+                method = 'party';
+            } else {
+                const nearest = [...open].sort((a, b) => byDistance(a) - byDistance(b));
+                chosen = findCombination(nearest, remaining, amount) ?? [];
+                method = 'amount';
+            }
+        }
+
+        let left = amount;
+        const allocations: InvoiceAllocation[] = [];
+        chosen.forEach(invoice => {
+            const allocated = Math.min(left, remaining.get(invoice.id)!);
+            if (allocated <= 0) return;
+            allocations.push({ invoiceId: invoice.id, amount: allocated });
+            remaining.set(invoice.id, remaining.get(invoice.id)! - allocated);
+            left -= allocated;
+        });
+        if (allocations.length > 0) {
+            matches.push({ transactionIndex: index, allocations, method, unallocated: left });
+        }
+    });
+
+    const matchedIndexes = new Set(matches.map(match => match.transactionIndex));
+    const paid = Object.fromEntries(invoices.map(invoice => [invoice.id, invoice.amount - remaining.get(invoice.id)!]));
+    return {
+        matches: matches.sort((a, b) => a.transactionIndex - b.transactionIndex),
+        paid,
+        unmatchedTransactions: transactions
+            .map((tx, index) => ((tx.debit > 0 || tx.credit > 0) && !matchedIndexes.has(index) ? index : -1))
+            .filter(index => index !== -1),
+        unmatchedInvoices: invoices.filter(invoice => paid[invoice.id] <= TOLERANCE),
+        partiallyPaidInvoices: invoices.filter(invoice => paid[invoice.id] > TOLERANCE && invoice.amount - paid[invoice.id] > TOLERANCE),
+    };
+};
@@ -0,0 +1,59 @@
+/**
+ * Small promise job queue with bounded concurrency and exponential backoff.
+ * Results are returned in input order regardless of completion order.
+ */
+
+export type JobResult<R> =
+    | { status: 'done'; value: R; attempts: number }
+    | { status: 'failed'; error: string; attempts: number };
+
+export interface QueueOptions {
+    concurrency?: number;
+    maxRetries?: number;
+    baseDelayMs?: number;
+    onProgress?: (completed: number, total: number, index: number) => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a task, retrying failures with exponential backoff (base, 2×base, 4×base…)
+ * plus a little jitter so parallel retries do not hit the API at the same moment.
+ */
+export const runWithRetry = async <R>(task: () => Promise<R>, maxRetries = 3, baseDelayMs = 1000): Promise<JobResult<R>> => {
+    let attempts = 0;
+    for (;;) {
+        attempts++;
+        try {
+            return { status: 'done', value: await task(), attempts };
+        } catch (error) {
+            if (attempts > maxRetries) {
+                return { status: 'failed', error: error instanceof Error ? error.message : String(error), attempts };
+            }
+            const delay = baseDelayMs * 2 ** (attempts - 1);
+            await sleep(delay + Math.random() * delay * 0.2);
+        }
+    }
+};
+
+export const runQueue = async <T, R>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<R>,
+    { concurrency = 3, maxRetries = 3, baseDelayMs = 1000, onProgress }: QueueOptions = {}
+): Promise<JobResult<R>[]> => {
+    const results: JobResult<R>[] = new Array(items.length);
+    let nextIndex = 0;
+    let completed = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await runWithRetry(() => worker(items[index], index), maxRetries, baseDelayMs);
+            completed++;
+            onProgress?.(completed, items.length, index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runNext));
+    return results;
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { JournalEntry, Transaction } from '../types';
+import { buildJournal, DEFAULT_RULES, DEFAULT_SETTINGS, lineAmountInWords } from './journal';
+import { convertStatement, toVnd } from './currency';
+
+const wordsOf = (transactions: Transaction[], conversion?: ReturnType<typeof convertStatement>) =>
+    buildJournal(transactions, DEFAULT_RULES, DEFAULT_SETTINGS.TT200, conversion)
+        .flatMap(entry => entry.lines.map(line => [entry.documentNumber, lineAmountInWords(entry, line)]));
+
+describe('lineAmountInWords', () => {
+    it('writes each voucher line of a VND statement in đồng', () => {
+        expect(wordsOf([
+            { transactionCode: '', date: '01/03/2025', description: 'Thu tien hang', debit: 3_200_000, credit: 0 },
+            { transactionCode: '', date: '02/03/2025', description: 'Chuyen tien', debit: 0, credit: 1_234_567, fee: 11_000 },
+        ])).toEqual([
+            ['BC0001', 'Ba triệu hai trăm nghìn đồng chẵn'],
+            ['BN0001', 'Một triệu hai trăm ba mươi tư nghìn năm trăm sáu mươi bảy đồng'],
+            ['BN0001', 'Mười một nghìn đồng chẵn'],
+        ]);
+    });
+
+    it('writes foreign-currency lines in their currency and the revaluation in đồng', () => {
+        const transactions: Transaction[] = [{ transactionCode: '', date: '28/03/2025', description: 'Payment', debit: 1250.5, credit: 0 }];
+        const conversion = convertStatement(transactions, 'USD', 0, [{ date: '28/03/2025', currency: 'USD', rate: 25_000 }], undefined, 25_400);
+        expect(wordsOf(transactions, conversion)).toEqual([
+            ['BC0001', 'Một nghìn hai trăm năm mươi đô la Mỹ và năm mươi xu'],
+            ['DG0001', 'Năm trăm nghìn hai trăm đồng'],
+        ]);
+    });
+});
+
+const settings = DEFAULT_SETTINGS.TT200;
+
+const receipt: Transaction = { transactionCode: 'FT1', date: '01/03/2025', description: 'CTY MINH KHANG TT HD 0012', debit: 5_000_000, credit: 0 };
+const payment: Transaction = { transactionCode: 'FT2', date: '05/03/2025', description: 'Tra luong thang 2', debit: 0, credit: 30_000_000 };
+const feeWithVat: Transaction = { transactionCode: 'FT3', date: '06/03/2025', description: 'Phi chuyen tien', debit: 0, credit: 0, fee: 10_000, vat: 1_000 };
+const paymentWithFee: Transaction = { transactionCode: 'FT4', date: '12/03/2025', description: 'Thanh toan NCC', debit: 0, credit: 2_000_000, fee: 22_000, vat: 2_200 };
+const empty: Transaction = { transactionCode: 'FT5', date: '13/03/2025', description: 'Dong trong', debit: 0, credit: 0 };
+
+// Debit minus credit per account; in a balanced entry the accounts net to zero
+const netByAccount = (entry: JournalEntry) => {
+    const net: Record<string, number> = {};
+    entry.lines.forEach(line => {
+        net[line.debitAccount] = (net[line.debitAccount] || 0) + line.amount;
+        net[line.creditAccount] = (net[line.creditAccount] || 0) - line.amount;
+    });
+    return net;
+};
+const isBalanced = (entry: JournalEntry) => Object.values(netByAccount(entry)).reduce((sum, value) => sum + value, 0) === 0;
+
+describe('buildJournal', () => {
+    it.each<[string, Transaction, number]>([
+        ['a receipt', receipt, 5_000_000],
+        ['a payment', payment, -30_000_000],
+        ['a fee with VAT', feeWithVat, -11_000],
+        ['a payment with fee and VAT', paymentWithFee, -2_024_200],
+    ])('balances %s and moves the bank account by the row amount', (_label, transaction, movement) => {
+        const [entry] = buildJournal([transaction], DEFAULT_RULES, settings);
+        expect(isBalanced(entry)).toBe(true);
+        expect(netByAccount(entry)[settings.bankAccount]).toBe(movement);
+    });
+
+    it('posts fee and VAT on their own lines against the bank account', () => {
+        const [entry] = buildJournal([paymentWithFee], DEFAULT_RULES, settings);
+        expect(entry.lines.map(line => [line.debitAccount, line.creditAccount, line.amount])).toEqual([
+            ['331', '1121', 2_000_000],
+            ['6425', '1121', 22_000],
+            ['1331', '1121', 2_200],
+        ]);
+    });
+
+    it('balances foreign-currency rows in VND and keeps the original amounts', () => {
+        const transactions: Transaction[] = [
+            { transactionCode: 'INV-1', date: '28/03/2025', description: 'Payment from customer', debit: 1250.5, credit: 0 },
+            { transactionCode: 'INV-2', date: '29/03/2025', description: 'Freight charge', debit: 0, credit: 200, fee: 5, vat: 0.5 },
+        ];
+        const rates = [{ date: '28/03/2025', currency: 'USD', rate: 25_000 }, { date: '29/03/2025', currency: 'USD', rate: 25_200 }];
+        const conversion = convertStatement(transactions, 'USD', 2000, rates, 24_900, 25_500);
+        const entries = buildJournal(transactions, DEFAULT_RULES, settings, conversion);
+
+        expect(entries.map(entry => entry.documentNumber)).toEqual(['BC0001', 'BN0001', 'DG0001']);
+        entries.forEach(entry => expect(isBalanced(entry)).toBe(true));
+        expect(netByAccount(entries[0])[settings.foreignBankAccount]).toBe(toVnd(1250.5, 25_000));
+        expect(netByAccount(entries[1])[settings.foreignBankAccount]).toBe(-(toVnd(200, 25_200) + toVnd(5, 25_200) + toVnd(0.5, 25_200)));
+        expect(entries[1].lines.map(line => line.foreignAmount)).toEqual([200, 5, 0.5]);
+        expect(entries[1]).toMatchObject({ currency: 'USD', exchangeRate: 25_200 });
+    });
+
+    it('numbers receipts and payments continuously, skipping rows that post nothing', () => {
+        const entries = buildJournal([empty, receipt, payment, empty, feeWithVat, receipt, paymentWithFee], DEFAULT_RULES, settings);
+        expect(entries.map(entry => [entry.documentNumber, entry.transactionIndex])).toEqual([
+            ['BC0001', 1],
+            ['BN0001', 2],
+            ['BN0002', 4],
+            ['BC0002', 5],
+            ['BN0003', 6],
+        ]);
+    });
+});
@@ -0,0 +1,213 @@
+import type { AccountingRegime, JournalEntry, JournalLine, PostingRule, PostingSettings, Transaction } from '../types';
+import { normalizeText } from '../utils/text';
+import { formatCurrency } from '../utils/format';
+import { numberToVietnameseWords } from '../utils/amount';
+import { toVnd, type VndConversion } from './currency';
+
+/**
+ * Posting engine: turns bank transactions into balanced double-entry journal
+ * lines (TK Nợ / TK Có) using the Circular 200/133 chart of accounts.
+ */
+
+export const DEFAULT_SETTINGS: Record<AccountingRegime, PostingSettings> = {
+    TT200: {
+        regime: 'TT200',
+        bankAccount: '1121',
+        feeAccount: '6425',
+        vatAccount: '1331',
+        defaultReceiptAccount: '131',
+        defaultPaymentAccount: '331',
+        foreignBankAccount: '1122',
+        exchangeGainAccount: '515',
+        exchangeLossAccount: '635',
+    },
+    TT133: {
+        regime: 'TT133',
+        bankAccount: '1121',
+        feeAccount: '6422',
+        vatAccount: '1331',
+        defaultReceiptAccount: '131',
+        defaultPaymentAccount: '331',
+        foreignBankAccount: '1122',
+        exchangeGainAccount: '515',
+        exchangeLossAccount: '635',
+    },
+};
+
+export const DEFAULT_RULES: PostingRule[] = [
+    { id: 'interest-income', name: 'Lãi tiền gửi', keywords: ['lai tien gui', 'tra lai tk', 'interest'], direction: 'in', contraAccount: '515' },
+    { id: 'loan-interest', name: 'Trả lãi vay', keywords: ['lai vay', 'thu lai'], direction: 'out', contraAccount: '635' },
+    { id: 'loan-repayment', name: 'Trả nợ gốc vay', keywords: ['tra no goc', 'thu no goc', 'tra goc vay'], direction: 'out', contraAccount: '341' },
+    { id: 'loan-disbursement', name: 'Giải ngân khoản vay', keywords: ['giai ngan'], direction: 'in', contraAccount: '341' },
+    { id: 'salary', name: 'Trả lương', keywords: ['luong', 'salary'], direction: 'out', contraAccount: '334' },
+    { id: 'social-insurance', name: 'Nộp BHXH', keywords: ['bhxh', 'bao hiem xa hoi'], direction: 'out', contraAccount: '3383' },
+    { id: 'tax-payment', name: 'Nộp thuế', keywords: ['nop thue', 'nsnn', 'ngan sach nha nuoc', 'thue tncn', 'thue gtgt'], direction: 'out', contraAccount: '3331' },
+    { id: 'cash-withdrawal', name: 'Rút tiền mặt', keywords: ['rut tien mat', 'rut tm'], direction: 'out', contraAccount: '1111' },
+    { id: 'cash-deposit', name: 'Nộp tiền mặt', keywords: ['nop tien mat', 'nop tm'], direction: 'in', contraAccount: '1111' },
+];
+
+const RULES_STORAGE_KEY = 'postingRules';
+const SETTINGS_STORAGE_KEY = 'postingSettings';
+
+export const loadPostingRules = (): PostingRule[] => {
+    try {
+        const stored = localStorage.getItem(RULES_STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as PostingRule[]) : DEFAULT_RULES;
+    } catch {
+        return DEFAULT_RULES;
+    }
+};
+
+export const savePostingRules = (rules: PostingRule[]) => {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const loadPostingSettings = (): PostingSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_SETTINGS.TT200, ...(JSON.parse(stored) as PostingSettings) } : DEFAULT_SETTINGS.TT200;
+    } catch {
+        return DEFAULT_SETTINGS.TT200;
+    }
+};
+
+export const savePostingSettings = (settings: PostingSettings) => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Returns the first rule whose keywords appear in the description and whose
+ * direction fits the transaction, or null when none applies.
+ */
+export const findPostingRule = (transaction: Transaction, rules: PostingRule[]): PostingRule | null => {
+    const description = normalizeText(transaction.description);
+    const direction = transaction.debit > 0 ? 'in' : 'out';
+    return rules.find(rule =>
+        (rule.direction === 'any' || rule.direction === direction) &&
+        rule.keywords.some(keyword => keyword.trim() && description.includes(normalizeText(keyword)))
+    ) ?? null;
+};
+
+// Rate of a row of a foreign-currency statement; a null rate posts 0 VND until one is entered
+export interface ForeignPosting {
+    currency: string;
+    rate: number | null;
+}
+
+/**
+ * Builds the journal entry for one transaction. Money in is posted as
+ * Nợ TK ngân hàng / Có TK đối ứng, money out as Nợ TK đối ứng / Có TK ngân hàng,
+ * and fee and VAT each get their own line against the bank account.
+ * Foreign-currency rows post to the foreign bank account in VND and keep the
+ * original amount on each line.
+ */
+export const postTransaction = (
+    transaction: Transaction,
+    transactionIndex: number,
+    documentNumber: string,
+    rules: PostingRule[],
+    settings: PostingSettings,
+    foreign?: ForeignPosting
+): JournalEntry => {
+    const rule = findPostingRule(transaction, rules);
+    const bankAccount = foreign ? settings.foreignBankAccount : settings.bankAccount;
+    // Known counterparties post to their own subledger account (131/331) when no rule applies
+    const counterpartyAccount = transaction.counterparty?.ledgerAccount;
+    const objectCode = transaction.counterparty?.code;
+    const lines: JournalLine[] = [];
+
+    if (transaction.debit > 0) {
+        lines.push({
+            debitAccount: bankAccount,
+            creditAccount: rule?.contraAccount || counterpartyAccount || settings.defaultReceiptAccount,
+            amount: transaction.debit,
+            description: transaction.description,
+            ...(objectCode && { objectCode }),
+        });
+    }
+    if (transaction.credit > 0) {
+        lines.push({
+            debitAccount: rule?.contraAccount || counterpartyAccount || settings.defaultPaymentAccount,
+            creditAccount: bankAccount,
+            amount: transaction.credit,
+            description: transaction.description,
+            ...(objectCode && { objectCode }),
+        });
+    }
+    if ((transaction.fee || 0) > 0) {
+        lines.push({
+            debitAccount: settings.feeAccount,
+            creditAccount: bankAccount,
+            amount: transaction.fee!,
+            description: `Phí ngân hàng - ${transaction.description}`,
+        });
+    }
+    if ((transaction.vat || 0) > 0) {
+        lines.push({
+            debitAccount: settings.vatAccount,
+            creditAccount: bankAccount,
+            amount: transaction.vat!,
+            description: `Thuế GTGT phí ngân hàng - ${transaction.description}`,
+        });
+    }
+
+    return {
+        transactionIndex,
+        documentNumber,
+        date: transaction.date,
+        description: transaction.description,
+        lines: foreign ? lines.map(line => ({ ...line, amount: toVnd(line.amount, foreign.rate), foreignAmount: line.amount })) : lines,
+        ...(foreign && { currency: foreign.currency, exchangeRate: foreign.rate ?? 0 }),
+    };
+};
+
+/**
+ * Revalues the foreign-currency balance at the closing rate: a gain is posted
+ * Nợ TK ngoại tệ / Có 515, a loss Nợ 635 / Có TK ngoại tệ.
+ */
+export const postRevaluation = (conversion: VndConversion, settings: PostingSettings): JournalEntry | null => {
+    const difference = conversion.exchangeDifference;
+    if (!difference) return null;
+    const description = `Đánh giá lại số dư ${conversion.currency} theo tỷ giá ${formatCurrency(conversion.closingRate ?? 0)}`;
+    return {
+        transactionIndex: -1,
+        documentNumber: 'DG0001',
+        date: conversion.revaluationDate,
+        description,
+        lines: [{
+            debitAccount: difference > 0 ? settings.foreignBankAccount : settings.exchangeLossAccount,
+            creditAccount: difference > 0 ? settings.exchangeGainAccount : settings.foreignBankAccount,
+            amount: Math.abs(difference),
+            description,
+            foreignAmount: 0,
+        }],
+        currency: conversion.currency,
+        exchangeRate: conversion.closingRate ?? 0,
+    };
+};
+
+/**
+ * Posts every transaction. Receipts are numbered BC0001.. (giấy báo Có) and
+ * payments BN0001.. (giấy báo Nợ). With a conversion the rows are posted in VND
+ * and the revaluation entry (DG0001) comes last.
+ */
+export const buildJournal = (transactions: Transaction[], rules: PostingRule[], settings: PostingSettings, conversion?: VndConversion | null): JournalEntry[] => {
+    let receiptCount = 0;
+    let paymentCount = 0;
+
+    // Rows without any amount post nothing, so they are dropped before numbering to keep BC/BN continuous
+    const entries = transactions.map((transaction, index) => {
+        const foreign = conversion ? { currency: transaction.currency || conversion.currency, rate: conversion.rates[index] } : undefined;
+        return postTransaction(transaction, index, '', rules, settings, foreign);
+    }).filter(entry => entry.lines.length > 0).map(entry => {
+        const isReceipt = transactions[entry.transactionIndex].debit > 0;
+        const sequence = isReceipt ? ++receiptCount : ++paymentCount;
+        return { ...entry, documentNumber: `${isReceipt ? 'BC' : 'BN'}${String(sequence).padStart(4, '0')}` };
+    });
+    const revaluation = conversion ? postRevaluation(conversion, settings) : null;
+    return revaluation ? [...entries, revaluation] : entries;
+};
+
+// "Số tiền bằng chữ" of a voucher line: the original amount in its currency; lines with none (the revaluation) in VND
+export const lineAmountInWords = (entry: JournalEntry, line: JournalLine): string =>
+    line.foreignAmount ? numberToVietnameseWords(line.foreignAmount, entry.currency) : numberToVietnameseWords(line.amount);
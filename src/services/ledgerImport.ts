@@ -0,0 +1,111 @@
+import type { LedgerEntry } from '../types';
+import { normalizeText } from '../utils/text';
+import { parseDateCell, parseDelimitedText } from './bankParsers';
+import { parseVnAmount } from '../utils/amount';
+import { getXLSX } from '../core/libraries';
+
+/**
+ * Reads the company's bank ledger (sổ tiền gửi ngân hàng, TK 112) as exported
+ * from MISA, FAST, Bravo or a plain spreadsheet.
+ */
+
+export interface LedgerImportResult {
+    entries: LedgerEntry[];
+    openingBalance: number | null; // From the "Số dư đầu kỳ" row when the export has one
+}
+
+type LedgerColumn = 'date' | 'voucher' | 'description' | 'debit' | 'credit' | 'balance';
+
+// Normalised header aliases, most specific first
+const COLUMN_ALIASES: Record<LedgerColumn, string[]> = {
+    date: ['ngay hach toan', 'ngay ghi so', 'ngay chung tu', 'ngay ct', 'ngay', 'date'],
+    voucher: ['so chung tu', 'so ct', 'chung tu', 'voucher'],
+    description: ['dien giai', 'noi dung', 'description'],
+    debit: ['phat sinh no', 'ps no', 'so tien thu', 'thu', 'gui vao', 'no', 'debit'],
+    credit: ['phat sinh co', 'ps co', 'so tien chi', 'chi', 'rut ra', 'co', 'credit'],
+    balance: ['so ton', 'ton', 'so du', 'balance'],
+};
+
+const REQUIRED_COLUMNS: LedgerColumn[] = ['date', 'description', 'debit', 'credit'];
+
+const createId = () => `gl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Single words ("thu", "no") only match a whole cell or one followed by a unit, so "Thứ tự" is not read as "Thu"
+const matchesAlias = (cell: string, alias: string): boolean => {
+    if (!cell.startsWith(alias)) return false;
+    const rest = cell.slice(alias.length);
+    return rest === '' || /^\s?\(/.test(rest) || (alias.includes(' ') && rest.startsWith(' '));
+};
+
+const findColumns = (rows: string[][]): { rowIndex: number; columns: Partial<Record<LedgerColumn, number>> } | null => {
+    for (let rowIndex = 0; rowIndex < Math.min(rows.length, 30); rowIndex++) {
+        const cells = rows[rowIndex].map(normalizeText);
+        const columns: Partial<Record<LedgerColumn, number>> = {};
+        const taken = new Set<number>();
+        (Object.keys(COLUMN_ALIASES) as LedgerColumn[]).forEach(key => {
+            for (const alias of COLUMN_ALIASES[key]) {
+                const col = cells.findIndex((cell, i) => !taken.has(i) && matchesAlias(cell, alias));
+                if (col !== -1) {
+                    columns[key] = col;
+                    taken.add(col);
+                    break;
+                }
+            }
+        });
+        if (REQUIRED_COLUMNS.every(key => columns[key] !== undefined)) return { rowIndex, columns };
+    }
+    return null;
+};
+
+export const parseLedgerTable = (text: string): LedgerImportResult => {
+    const rows = parseDelimitedText(text).filter(row => row.some(cell => cell !== ''));
+    const header = findColumns(rows);
+    if (!header) throw new Error('Không tìm thấy các cột "Ngày", "Diễn giải", "Phát sinh Nợ", "Phát sinh Có" trong sổ TK 112.');
+
+    const cellAt = (row: string[], key: LedgerColumn) => (header.columns[key] !== undefined ? row[header.columns[key]!] || '' : '');
+    let openingBalance: number | null = null;
+    const entries: LedgerEntry[] = [];
+
+    rows.slice(header.rowIndex + 1).forEach(row => {
+        const debit = parseVnAmount(cellAt(row, 'debit')) || 0;
+        const credit = parseVnAmount(cellAt(row, 'credit')) || 0;
+        const date = parseDateCell(cellAt(row, 'date'));
+
+        if (!date) {
+            // Undated rows are headings and totals; only the opening balance is kept
+            if (openingBalance === null && row.some(cell => normalizeText(cell).startsWith('so du dau ky'))) {
+                const balance = parseVnAmount(cellAt(row, 'balance'));
+                openingBalance = balance ?? debit - credit;
+            }
+            return;
+        }
+        if (!debit && !credit) return;
+        entries.push({
+            id: createId(),
+            date,
+            voucher: cellAt(row, 'voucher').trim(),
+            description: cellAt(row, 'description').trim(),
+            debit,
+            credit,
+        });
+    });
+    return { entries, openingBalance };
+};
+
+export const importLedgerFile = async (file: File): Promise<LedgerImportResult> => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+        const XLSX = getXLSX();
+        const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+        // The ledger is the first sheet that has the expected columns
+        for (const sheetName of workbook.SheetNames as string[]) {
+            try {
+                return parseLedgerTable(XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName]));
+            } catch {
+                continue;
+            }
+        }
+        throw new Error('Không tìm thấy sổ TK 112 trong file Excel.');
+    }
+    return parseLedgerTable(await file.text());
+};
@@ -0,0 +1,73 @@
+import { runQueue, runWithRetry } from './jobQueue';
+
+/**
+ * Per-page OCR: every page image is sent in its own request so one slow or
+ * failing page no longer sinks the whole statement.
+ */
+
+export interface PageImage {
+    mimeType: string;
+    data: string;
+}
+
+export interface OcrPage {
+    pageNumber: number;
+    image: PageImage;
+    status: 'done' | 'failed';
+    text: string;
+    error?: string;
+}
+
+const OCR_CONCURRENCY = 3;
+const OCR_MAX_RETRIES = 3;
+const OCR_BASE_DELAY_MS = 1500;
+
+// Reads the text of one page image: Gemini directly on the server, the API server in the browser
+export type PageOcr = (image: PageImage) => Promise<string>;
+
+export const ocrPages = async (
+    images: PageImage[],
+    ocr: PageOcr,
+    onProgress?: (completed: number, total: number) => void
+): Promise<OcrPage[]> => {
+    const results = await runQueue(images, ocr, {
+        concurrency: OCR_CONCURRENCY,
+        maxRetries: OCR_MAX_RETRIES,
+        baseDelayMs: OCR_BASE_DELAY_MS,
+        onProgress: (completed, total) => onProgress?.(completed, total),
+    });
+
+    return results.map((result, i) => ({
+        pageNumber: i + 1,
+        image: images[i],
+        status: result.status,
+        text: result.status === 'done' ? result.value : '',
+        ...(result.status === 'failed' && { error: result.error }),
+    }));
+};
+
+export const retryOcrPage = async (page: OcrPage, ocr: PageOcr): Promise<OcrPage> => {
+    const result = await runWithRetry(() => ocr(page.image), OCR_MAX_RETRIES, OCR_BASE_DELAY_MS);
+    return result.status === 'done'
+        ? { ...page, status: 'done', text: result.value, error: undefined }
+        : { ...page, status: 'failed', error: result.error };
+};
+
+export const pageMarker = (page: OcrPage) => `[Trang ${page.pageNumber}: chưa đọc được - ${page.error || 'lỗi OCR'}]`;
+
+/**
+ * Joins page texts back together in page order. Failed pages leave a visible
+ * marker so the gap is not mistaken for a complete statement.
+ */
+export const stitchPages = (pages: OcrPage[]): string =>
+    [...pages]
+        .sort((a, b) => a.pageNumber - b.pageNumber)
+        .map(page => (page.status === 'done' ? page.text : pageMarker(page)))
+        .join('\n\n');
+
+/**
+ * Swaps the marker of a failed page for its newly read text, leaving any manual
+ * edits elsewhere in the content untouched.
+ */
+export const replacePageMarker = (content: string, failedPage: OcrPage, retriedPage: OcrPage): string =>
+    content.replace(pageMarker(failedPage), retriedPage.status === 'done' ? retriedPage.text : pageMarker(retriedPage));
@@ -0,0 +1,77 @@
+import type { AIChatResponse, GeminiResponse } from '../types';
+import type { AIProvider } from '../core/ai';
+import type { PageImage } from './ocrPipeline';
+import {
+    OCR_PROMPT,
+    CHAT_IMAGE_INTRO,
+    buildStatementPrompt,
+    buildCategoryPrompt,
+    buildChatPrompt,
+    statementResponseSchema,
+    categoryResponseSchema,
+    chatResponseSchema,
+    parseJsonReply,
+    toJsonSchema,
+    type CategoryAnswer,
+} from './aiPrompts';
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+    apiKey?: string; // Local servers usually need none
+    model: string;
+}
+
+type MessagePart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+const imagePart = (image: PageImage): MessagePart => ({
+    type: 'image_url',
+    image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+});
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself,
+ * Ollama, llama.cpp, vLLM... OCR needs a vision model. JSON answers are
+ * requested with a JSON schema, which most local servers enforce.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, model }: OpenAICompatibleOptions): AIProvider => {
+    const complete = async (parts: MessagePart[], temperature: number, schema?: { name: string; schema: unknown }): Promise<string> => {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey && { Authorization: `Bearer ${apiKey}` }) },
+            body: JSON.stringify({
+                model,
+                temperature,
+                messages: [{ role: 'user', content: parts }],
+                ...(schema && { response_format: { type: 'json_schema', json_schema: schema } }),
+            }),
+        });
+        if (!response.ok) throw new Error(`${response.status} ${await response.text()}`);
+        const body = await response.json();
+        return body.choices?.[0]?.message?.content ?? '';
+    };
+
+    return {
+        name: `openai-compatible (${model})`,
+
+        extractText: image => complete([{ type: 'text', text: OCR_PROMPT }, imagePart(image)], 0),
+
+        parseStatement: async text => parseJsonReply<GeminiResponse>(await complete(
+            [{ type: 'text', text: buildStatementPrompt(text) }],
+            0,
+            { name: 'statement', schema: toJsonSchema(statementResponseSchema) }
+        )),
+
+        // JSON schema answers must be objects, so the list is wrapped
+        categorize: async (items, categories) => parseJsonReply<{ results: CategoryAnswer[] }>(await complete(
+            [{ type: 'text', text: buildCategoryPrompt(items, categories) + '\n    Trả về đối tượng JSON { "results": [...] }.' }],
+            0,
+            { name: 'categories', schema: { type: 'object', properties: { results: toJsonSchema(categoryResponseSchema) }, required: ['results'] } }
+        )).results,
+
+        chat: async ({ message, report, history, content, image }) => {
+            const parts: MessagePart[] = [{ type: 'text', text: buildChatPrompt(message, report, history, content) }];
+            if (image) parts.push({ type: 'text', text: CHAT_IMAGE_INTRO }, imagePart(image));
+            return parseJsonReply<AIChatResponse>(await complete(parts, 0.1, { name: 'chat', schema: toJsonSchema(chatResponseSchema) }));
+        },
+    };
+};
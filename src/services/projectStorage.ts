@@ -0,0 +1,90 @@
+import type { WorkspaceStatement } from './workspace';
+
+/**
+ * Local project storage backed by IndexedDB. A project is a saved workspace:
+ * original file blobs, OCR text, processed reports, change history and chat log.
+ */
+export interface StoredProject {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    activeId: string | null;
+    statements: WorkspaceStatement[];
+}
+
+export type ProjectSummary = Pick<StoredProject, 'id' | 'name' | 'createdAt' | 'updatedAt'> & { statementCount: number };
+
+const DB_NAME = 'bank-statement-converter';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+                    db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(PROJECT_STORE, mode);
+        const request = action(transaction.objectStore(PROJECT_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+const newProjectId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const projects = await runRequest<StoredProject[]>('readonly', store => store.getAll());
+    return projects
+        .map(({ id, name, createdAt, updatedAt, statements }) => ({ id, name, createdAt, updatedAt, statementCount: statements.length }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<StoredProject | null> => {
+    const project = await runRequest<StoredProject | undefined>('readonly', store => store.get(id));
+    return project ?? null;
+};
+
+export const saveProject = async (project: Omit<StoredProject, 'id' | 'createdAt' | 'updatedAt'> & { id?: string; createdAt?: number }): Promise<StoredProject> => {
+    const now = Date.now();
+    const stored: StoredProject = {
+        ...project,
+        id: project.id ?? newProjectId(),
+        createdAt: project.createdAt ?? now,
+        updatedAt: now,
+    };
+    await runRequest('readwrite', store => store.put(stored));
+    return stored;
+};
+
+export const duplicateProject = async (id: string): Promise<StoredProject | null> => {
+    const project = await getProject(id);
+    if (!project) return null;
+    const { id: _id, createdAt: _createdAt, ...rest } = project;
+    return saveProject({ ...rest, name: `${project.name} (bản sao)` });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id));
+};
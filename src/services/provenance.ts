@@ -0,0 +1,79 @@
+import type { Transaction, TransactionSource } from '../types';
+import { normalizeText } from '../utils/text';
+
+/**
+ * Records where each transaction was read from: the page and line of the
+ * original statement text that best matches its date, amount, code and
+ * description.
+ */
+
+const MIN_SCORE = 3;
+
+const dateVariants = (date: string): string[] => {
+    const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (!match) return [date];
+    const [, d, m, y] = match;
+    const dd = d.padStart(2, '0');
+    const mm = m.padStart(2, '0');
+    return [`${dd}/${mm}/${y}`, `${dd}-${mm}-${y}`, `${dd}.${mm}.${y}`, `${y}-${mm}-${dd}`, `${dd}/${mm}/${y.slice(2)}`, `${parseInt(d, 10)}/${parseInt(m, 10)}/${y}`];
+};
+
+const amountVariants = (amount: number): string[] => {
+    if (!amount) return [];
+    const rounded = Math.round(amount);
+    const grouped = String(rounded).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    return [grouped, grouped.replace(/,/g, '.'), grouped.replace(/,/g, ' '), String(rounded)];
+};
+
+const containsNumber = (line: string, value: string) =>
+    // Not part of a longer number: no digit before, and no digit or further thousands group after
+    new RegExp(`(^|[^\\d.,])${value.replace(/[.]/g, '\\.')}(?!\\d|[.,]\\d{3})`).test(line);
+
+const scoreLine = (line: string, normalizedLine: string, tx: Transaction): number => {
+    let score = 0;
+    if (dateVariants(tx.date).some(variant => line.includes(variant))) score += 2;
+    const mainAmount = tx.debit || tx.credit || (tx.fee || 0) + (tx.vat || 0);
+    if (amountVariants(mainAmount).some(variant => containsNumber(line, variant))) score += 3;
+    if (tx.transactionCode && tx.transactionCode.length >= 4 && line.includes(tx.transactionCode)) score += 4;
+
+    const tokens = normalizeText(tx.description).split(/[^a-z0-9]+/).filter(token => token.length >= 3);
+    const matched = tokens.filter(token => normalizedLine.includes(token)).length;
+    score += Math.min(matched, 3);
+    return score;
+};
+
+/**
+ * Finds the source line for every transaction. Matches are searched from the
+ * previous match onwards first, since statements list transactions in order.
+ */
+export const locateTransactionSources = (transactions: Transaction[], pages: string[]): (TransactionSource | undefined)[] => {
+    const lines = pages.flatMap((pageText, pageIndex) =>
+        pageText.split(/\r?\n/).map((text, lineIndex) => ({ page: pageIndex + 1, line: lineIndex + 1, text, normalized: normalizeText(text) }))
+    );
+    let cursor = 0;
+
+    return transactions.map(tx => {
+        let best = -1;
+        let bestScore = MIN_SCORE - 1;
+        const scan = (from: number, to: number) => {
+            for (let i = from; i < to; i++) {
+                const score = scoreLine(lines[i].text, lines[i].normalized, tx);
+                if (score > bestScore) {
+                    best = i;
+                    bestScore = score;
+                }
+            }
+        };
+        scan(cursor, lines.length);
+        scan(0, cursor);
+
+        if (best === -1) return undefined;
+        cursor = best + 1;
+        return { page: lines[best].page, line: lines[best].line };
+    });
+};
+
+export const withSources = (transactions: Transaction[], pages: string[]): Transaction[] => {
+    const sources = locateTransactionSources(transactions, pages);
+    return transactions.map((tx, i) => (sources[i] ? { ...tx, source: sources[i] } : tx));
+};
@@ -0,0 +1,134 @@
+import type { EditableField, Transaction } from '../types';
+
+/**
+ * Compares the transactions the AI first extracted with the edited report.
+ * Identical rows are aligned with a longest common subsequence; the rows left
+ * between two aligned rows are paired up in order as edited rows, and any
+ * surplus on either side is an added or removed row.
+ */
+
+export type RowDiffKind = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface RowDiff {
+    kind: RowDiffKind;
+    original?: Transaction;
+    current?: Transaction;
+    originalIndex?: number;
+    currentIndex?: number;
+    changedFields: EditableField[];
+}
+
+export interface ReportDiffSummary {
+    changed: number;
+    added: number;
+    removed: number;
+    // Net change of each amount column, current minus original
+    debit: number;
+    credit: number;
+    fee: number;
+    vat: number;
+}
+
+export const DIFF_FIELDS: EditableField[] = ['transactionCode', 'date', 'description', 'debit', 'credit', 'fee', 'vat', 'category', 'exchangeRate'];
+
+const AMOUNT_FIELDS = ['debit', 'credit', 'fee', 'vat'] as const;
+
+// Missing fee/VAT and an explicit 0 are the same amount
+const fieldValue = (tx: Transaction, field: EditableField) => {
+    const value = tx[field];
+    return (AMOUNT_FIELDS as readonly string[]).includes(field) ? Number(value) || 0 : value || '';
+};
+
+// Confirming a low-confidence cell or re-parsing the counterparty is not an adjustment
+export const changedFields = (original: Transaction, current: Transaction): EditableField[] =>
+    DIFF_FIELDS.filter(field => fieldValue(original, field) !== fieldValue(current, field));
+
+const sameContent = (a: Transaction, b: Transaction) => changedFields(a, b).length === 0;
+
+// Index pairs of rows with identical content, in order
+const alignRows = (original: Transaction[], current: Transaction[]): [number, number][] => {
+    const n = original.length;
+    const m = current.length;
+    // lengths[i][j] = LCS of original[i..] and current[j..]
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i][j] = sameContent(original[i], current[j])
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const pairs: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (sameContent(original[i], current[j])) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+};
+
+export const diffReports = (original: Transaction[], current: Transaction[]): RowDiff[] => {
+    const rows: RowDiff[] = [];
+    // Rows between two aligned pairs: edited in place where both sides have one, otherwise added or removed
+    const addGap = (fromOriginal: number, toOriginal: number, fromCurrent: number, toCurrent: number) => {
+        const paired = Math.min(toOriginal - fromOriginal, toCurrent - fromCurrent);
+        for (let k = 0; k < paired; k++) {
+            const originalIndex = fromOriginal + k;
+            const currentIndex = fromCurrent + k;
+            rows.push({
+                kind: 'changed',
+                original: original[originalIndex],
+                current: current[currentIndex],
+                originalIndex,
+                currentIndex,
+                changedFields: changedFields(original[originalIndex], current[currentIndex]),
+            });
+        }
+        for (let originalIndex = fromOriginal + paired; originalIndex < toOriginal; originalIndex++) {
+            rows.push({ kind: 'removed', original: original[originalIndex], originalIndex, changedFields: [] });
+        }
+        for (let currentIndex = fromCurrent + paired; currentIndex < toCurrent; currentIndex++) {
+            rows.push({ kind: 'added', current: current[currentIndex], currentIndex, changedFields: [] });
+        }
+    };
+
+    let nextOriginal = 0;
+    let nextCurrent = 0;
+    alignRows(original, current).forEach(([originalIndex, currentIndex]) => {
+        addGap(nextOriginal, originalIndex, nextCurrent, currentIndex);
+        rows.push({
+            kind: 'unchanged',
+            original: original[originalIndex],
+            current: current[currentIndex],
+            originalIndex,
+            currentIndex,
+            changedFields: [],
+        });
+        nextOriginal = originalIndex + 1;
+        nextCurrent = currentIndex + 1;
+    });
+    addGap(nextOriginal, original.length, nextCurrent, current.length);
+    return rows;
+};
+
+export const summarizeDiff = (rows: RowDiff[]): ReportDiffSummary => {
+    const total = (field: typeof AMOUNT_FIELDS[number], side: 'original' | 'current') =>
+        rows.reduce((sum, row) => sum + (row[side]?.[field] || 0), 0);
+    return {
+        changed: rows.filter(row => row.kind === 'changed').length,
+        added: rows.filter(row => row.kind === 'added').length,
+        removed: rows.filter(row => row.kind === 'removed').length,
+        debit: total('debit', 'current') - total('debit', 'original'),
+        credit: total('credit', 'current') - total('credit', 'original'),
+        fee: total('fee', 'current') - total('fee', 'original'),
+        vat: total('vat', 'current') - total('vat', 'original'),
+    };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction, TransactionOperation } from '../types';
+import { applyOperation, createTransaction, validateOperation } from './transactionEdits';
+
+const transactions: Transaction[] = [
+    { transactionCode: 'FT1', date: '01/03/2025', description: 'CTY MINH KHANG TT HD 0012', debit: 5_000_000, credit: 0 },
+    { transactionCode: 'FT2', date: '05/03/2025', description: 'Tra luong thang 2', debit: 0, credit: 3_000_000, fee: 10_000, vat: 1_000 },
+];
+
+describe('validateOperation', () => {
+    it.each<[string, TransactionOperation]>([
+        ['a negative amount', { type: 'update', index: 0, changes: { debit: -5 } }],
+        ['a NaN fee', { type: 'update', index: 1, changes: { fee: NaN } }],
+        ['a negative exchange rate', { type: 'update', index: 0, changes: { exchangeRate: -25_000 } }],
+        ['a date that is not a date', { type: 'update', index: 0, changes: { date: 'not a date' } }],
+        ['an impossible date', { type: 'update', index: 0, changes: { date: '32/01/2025' } }],
+        ['an inserted row with a negative amount', { type: 'insert', index: 2, transaction: createTransaction({ date: '06/03/2025', credit: -1 }) }],
+        ['an inserted row without a readable date', { type: 'insert', index: 2, transaction: createTransaction({ date: 'hôm qua' }) }],
+        ['split parts with a negative amount', { type: 'split', index: 0, parts: [{ debit: 6_000_000 }, { debit: -1_000_000 }] }],
+    ])('rejects %s', (_label, operation) => {
+        expect(validateOperation(transactions, operation)).toEqual(expect.any(String));
+        expect(() => applyOperation(transactions, operation)).toThrow();
+    });
+
+    it.each<[string, TransactionOperation]>([
+        ['a new amount', { type: 'update', index: 0, changes: { debit: 4_500_000 } }],
+        ['a cleared exchange rate', { type: 'update', index: 0, changes: { exchangeRate: 0 } }],
+        ['a DD/MM/YYYY date', { type: 'update', index: 0, changes: { date: '02/03/2025' } }],
+        ['a new row', { type: 'insert', index: 2, transaction: createTransaction({ date: '06/03/2025', credit: 200_000 }) }],
+        ['a split that keeps the total', { type: 'split', index: 0, parts: [{ debit: 3_000_000 }, { debit: 2_000_000 }] }],
+    ])('accepts %s', (_label, operation) => {
+        expect(validateOperation(transactions, operation)).toBeNull();
+    });
+
+    it('names the row that does not exist', () => {
+        expect(validateOperation(transactions, { type: 'update', index: 5, changes: { debit: 1 } })).toBe('Không có dòng 6.');
+    });
+});
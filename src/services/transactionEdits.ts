@@ -0,0 +1,172 @@
+import type { ConfidenceField, SplitPart, Transaction, TransactionChanges, TransactionOperation } from '../types';
+import { CONFIDENCE_FIELDS, markFieldVerified } from './confidence';
+import { EDITABLE_LABELS } from './changeHistory';
+import { parseDateCell } from './bankParsers';
+
+/**
+ * The single reducer for editing a statement's transactions. The table, the
+ * chat assistant and undo/redo all describe changes as TransactionOperations
+ * and apply them here.
+ */
+
+const AMOUNT_FIELDS = ['debit', 'credit', 'fee', 'vat'] as const;
+
+// Split parts must add up to the original row
+const TOLERANCE = 1;
+
+const amountTotals = (items: Partial<Pick<Transaction, typeof AMOUNT_FIELDS[number]>>[]) =>
+    AMOUNT_FIELDS.map(field => items.reduce((sum, item) => sum + (item[field] || 0), 0));
+
+// The column says which way the money went, so no amount is negative; a rate of 0 clears it
+const NUMBER_FIELDS = [...AMOUNT_FIELDS, 'exchangeRate'] as const;
+
+/**
+ * Returns why these field values cannot be stored, or null when they are
+ * valid. The journal skips rows with unreadable dates or amounts, so they are
+ * rejected here for every caller.
+ */
+export const validateChanges = (changes: TransactionChanges): string | null => {
+    const badNumber = NUMBER_FIELDS.find(field => changes[field] !== undefined && !(Number.isFinite(changes[field]) && changes[field]! >= 0));
+    if (badNumber) return `${EDITABLE_LABELS[badNumber]} phải là số không âm.`;
+    if (changes.date !== undefined && parseDateCell(changes.date) === null) return `Ngày không hợp lệ: "${changes.date}" (cần dạng DD/MM/YYYY).`;
+    return null;
+};
+
+/**
+ * Returns why an operation cannot be applied to these transactions, or null
+ * when it is valid.
+ */
+export const validateOperation = (transactions: Transaction[], operation: TransactionOperation): string | null => {
+    const inRange = (index: number) => Number.isInteger(index) && index >= 0 && index < transactions.length;
+    switch (operation.type) {
+        case 'update':
+            return inRange(operation.index) ? validateChanges(operation.changes) : `Không có dòng ${operation.index + 1}.`;
+        case 'verify':
+        case 'delete':
+            return inRange(operation.index) ? null : `Không có dòng ${operation.index + 1}.`;
+        case 'insert':
+            return Number.isInteger(operation.index) && operation.index >= 0 && operation.index <= transactions.length
+                ? validateChanges(operation.transaction)
+                : `Không thể chèn tại vị trí ${operation.index + 1}.`;
+        case 'move':
+            return inRange(operation.from) && inRange(operation.to) ? null : 'Vị trí di chuyển không hợp lệ.';
+        case 'split': {
+            if (!inRange(operation.index)) return `Không có dòng ${operation.index + 1}.`;
+            if (operation.parts.length < 2) return 'Cần ít nhất 2 dòng để tách.';
+            const badPart = operation.parts.map(validateChanges).find(Boolean);
+            if (badPart) return badPart;
+            const original = amountTotals([transactions[operation.index]]);
+            const split = amountTotals(operation.parts);
+            return original.every((total, i) => Math.abs(total - split[i]) <= TOLERANCE)
+                ? null
+                : 'Tổng số tiền các dòng tách phải bằng số tiền của dòng gốc.';
+        }
+        case 'merge':
+            return operation.count >= 2 && inRange(operation.index) && inRange(operation.index + operation.count - 1)
+                ? null
+                : 'Cần chọn ít nhất 2 dòng liền nhau để gộp.';
+    }
+};
+
+const applyChanges = (tx: Transaction, changes: TransactionChanges): Transaction => {
+    let updated: Transaction = { ...tx, ...changes };
+    // A new description means a new counterparty; it is parsed again afterwards
+    if (changes.description !== undefined && changes.description !== tx.description) {
+        const { counterparty: _counterparty, ...rest } = updated;
+        updated = rest;
+    }
+    if (changes.category !== undefined) {
+        const { category, categorySource: _source, ...rest } = updated;
+        updated = category ? { ...rest, category, categorySource: 'manual' } : rest;
+    }
+    // Clearing the rate falls back to the imported rate table
+    if (changes.exchangeRate !== undefined && !changes.exchangeRate) {
+        const { exchangeRate: _rate, ...rest } = updated;
+        updated = rest;
+    }
+    // Values typed by the user are certain
+    return (Object.keys(changes) as string[])
+        .filter((field): field is ConfidenceField => (CONFIDENCE_FIELDS as string[]).includes(field))
+        .reduce(markFieldVerified, updated);
+};
+
+// Parts keep the date, code and source of the original; the printed balance only belongs after the last part
+const splitTransaction = (tx: Transaction, parts: SplitPart[]): Transaction[] => {
+    const { printedBalance, counterparty: _counterparty, ...base } = tx;
+    return parts.map((part, i) => ({
+        ...base,
+        description: part.description || tx.description,
+        debit: part.debit || 0,
+        credit: part.credit || 0,
+        fee: part.fee || 0,
+        vat: part.vat || 0,
+        ...(i === parts.length - 1 && printedBalance !== undefined ? { printedBalance } : {}),
+    }));
+};
+
+const mergeTransactions = (rows: Transaction[]): Transaction => {
+    const [first] = rows;
+    const last = rows[rows.length - 1];
+    const [debit, credit, fee, vat] = amountTotals(rows);
+    const codes = [...new Set(rows.map(tx => tx.transactionCode).filter(Boolean))];
+    const { printedBalance: _balance, counterparty: _counterparty, ...base } = first;
+    return {
+        ...base,
+        transactionCode: codes.join(', '),
+        description: [...new Set(rows.map(tx => tx.description))].join(' | '),
+        debit,
+        credit,
+        fee,
+        vat,
+        ...(last.printedBalance !== undefined ? { printedBalance: last.printedBalance } : {}),
+    };
+};
+
+/**
+ * Applies one operation and returns the new transaction list. Throws when the
+ * operation is invalid; callers that take user input should check
+ * validateOperation first.
+ */
+export const applyOperation = (transactions: Transaction[], operation: TransactionOperation): Transaction[] => {
+    const problem = validateOperation(transactions, operation);
+    if (problem) throw new Error(problem);
+
+    const result = [...transactions];
+    switch (operation.type) {
+        case 'update':
+            result[operation.index] = applyChanges(result[operation.index], operation.changes);
+            break;
+        case 'verify':
+            result[operation.index] = markFieldVerified(result[operation.index], operation.field);
+            break;
+        case 'insert':
+            result.splice(operation.index, 0, operation.transaction);
+            break;
+        case 'delete':
+            result.splice(operation.index, 1);
+            break;
+        case 'move': {
+            const [moved] = result.splice(operation.from, 1);
+            result.splice(operation.to, 0, moved);
+            break;
+        }
+        case 'split':
+            result.splice(operation.index, 1, ...splitTransaction(result[operation.index], operation.parts));
+            break;
+        case 'merge':
+            result.splice(operation.index, operation.count, mergeTransactions(result.slice(operation.index, operation.index + operation.count)));
+            break;
+    }
+    return result;
+};
+
+// A blank row for manual entry, filled with whatever the caller already knows
+export const createTransaction = (values: Partial<Transaction> = {}): Transaction => ({
+    transactionCode: values.transactionCode || '',
+    date: values.date || new Date().toLocaleDateString('vi-VN'),
+    description: values.description || 'Giao dịch mới',
+    debit: values.debit || 0,
+    credit: values.credit || 0,
+    fee: values.fee || 0,
+    vat: values.vat || 0,
+});
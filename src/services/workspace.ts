@@ -0,0 +1,141 @@
+import type { ChangeRecord, ChatMessage, ExchangeRate, GeminiResponse, Invoice, LedgerEntry, Transaction } from '../types';
+import { formatCurrency } from '../utils/format';
+import type { OcrPage } from './ocrPipeline';
+
+export interface SourceFile {
+    name: string;
+    type: string;
+    blob: Blob;
+}
+
+/**
+ * A single bank statement inside the workspace. Each statement keeps its own
+ * source files and text, processed report, change history and chat log so
+ * different accounts are never mixed into one ledger.
+ */
+export interface WorkspaceStatement {
+    id: string;
+    fileName: string;
+    files: SourceFile[];
+    ocrPages: OcrPage[];
+    content: string;
+    openingBalance: string;
+    result: GeminiResponse | null;
+    changes: ChangeRecord[]; // Applied changes, oldest first
+    redoStack: ChangeRecord[]; // Undone changes, most recently undone last
+    parsedWithProfile: string | null;
+    chatMessages: ChatMessage[];
+    invoices: Invoice[];
+    ledgerEntries: LedgerEntry[]; // The company's TK 112 ledger for the same account
+    bookOpeningBalance: string;
+    exchangeRates: ExchangeRate[]; // Imported rate table for foreign-currency statements
+    openingExchangeRate: string; // Overrides the table rate for the opening balance
+    closingExchangeRate: string; // Overrides the table rate used to revalue the closing balance
+}
+
+const WELCOME_MESSAGE: ChatMessage = {
+    role: 'model',
+    content: 'Chào Anh Cường, Em là trợ lý kế toán ảo. Em có thể giúp gì cho Anh trong việc đối chiếu và chỉnh sửa báo cáo này ạ?',
+};
+
+export interface StatementPeriod {
+    from: string;
+    to: string;
+}
+
+export const createStatement = (fileName: string, content: string, files: SourceFile[] = [], ocrPages: OcrPage[] = []): WorkspaceStatement => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    fileName,
+    files,
+    ocrPages,
+    content,
+    openingBalance: '',
+    result: null,
+    changes: [],
+    redoStack: [],
+    parsedWithProfile: null,
+    chatMessages: [WELCOME_MESSAGE],
+    invoices: [],
+    ledgerEntries: [],
+    bookOpeningBalance: '',
+    exchangeRates: [],
+    openingExchangeRate: '',
+    closingExchangeRate: '',
+});
+
+// Converts DD/MM/YYYY to a sortable YYYYMMDD number (0 when the date is unreadable)
+export const dateSortValue = (date: string): number => {
+    const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (!match) return 0;
+    return parseInt(match[3], 10) * 10000 + parseInt(match[2], 10) * 100 + parseInt(match[1], 10);
+};
+
+export const getStatementPeriod = (transactions: Transaction[]): StatementPeriod | null => {
+    const dated = transactions.filter(tx => dateSortValue(tx.date) > 0);
+    if (dated.length === 0) return null;
+
+    const sorted = [...dated].sort((a, b) => dateSortValue(a.date) - dateSortValue(b.date));
+    return { from: sorted[0].date, to: sorted[sorted.length - 1].date };
+};
+
+/**
+ * Identity of a processed statement: account number plus the period it covers.
+ * Returns null until the statement has been processed.
+ */
+export const getStatementKey = (statement: WorkspaceStatement): string | null => {
+    if (!statement.result) return null;
+    const period = getStatementPeriod(statement.result.transactions);
+    const accountNumber = statement.result.accountInfo.accountNumber.replace(/\s/g, '');
+    return `${accountNumber}|${period ? `${period.from}-${period.to}` : ''}`;
+};
+
+export const getStatementLabel = (statement: WorkspaceStatement): { title: string; subtitle: string } => {
+    if (!statement.result) {
+        return { title: statement.fileName || 'Sao kê chưa xử lý', subtitle: 'Chưa xử lý' };
+    }
+    const { accountInfo, transactions } = statement.result;
+    const period = getStatementPeriod(transactions);
+    return {
+        title: accountInfo.accountNumber || accountInfo.accountName || statement.fileName,
+        subtitle: [accountInfo.bankName, period ? `${period.from} – ${period.to}` : ''].filter(Boolean).join(' · '),
+    };
+};
+
+/**
+ * Compares the computed ending balance with the one printed on the statement.
+ * Returns a warning message, or null when they agree (or no ending balance was found).
+ */
+export const getBalanceMismatchWarning = (result: GeminiResponse, openingBalance: number): string | null => {
+    const { endingBalance: extractedEndingBalance, transactions } = result;
+    if (extractedEndingBalance === undefined || extractedEndingBalance === 0) return null;
+
+    const { totalDebit, totalCredit, totalFee, totalVat } = transactions.reduce((acc, tx) => {
+        acc.totalDebit += tx.debit;
+        acc.totalCredit += tx.credit;
+        acc.totalFee += tx.fee || 0;
+        acc.totalVat += tx.vat || 0;
+        return acc;
+    }, { totalDebit: 0, totalCredit: 0, totalFee: 0, totalVat: 0 });
+
+    const calculatedEndingBalance = openingBalance + totalDebit - totalCredit - totalFee - totalVat;
+
+    // Tolerance of 1 unit (e.g., 1 VND) for floating point comparison
+    if (Math.abs(calculatedEndingBalance - extractedEndingBalance) > 1) {
+        return `Số dư cuối kỳ tính toán (${formatCurrency(calculatedEndingBalance)}) không khớp với số dư trên sao kê (${formatCurrency(extractedEndingBalance)}). Chênh lệch: ${formatCurrency(calculatedEndingBalance - extractedEndingBalance)}. Vui lòng rà soát lại các giao dịch.`;
+    }
+    return null;
+};
+
+export interface SourcePage {
+    text: string;
+    image?: { mimeType: string; data: string };
+}
+
+/**
+ * The original statement split into pages: the OCR'd page images with their
+ * text, or the extracted text as a single page for text-based files.
+ */
+export const getSourcePages = (statement: WorkspaceStatement): SourcePage[] =>
+    statement.ocrPages.length > 0
+        ? statement.ocrPages.map(page => ({ text: page.text, image: page.image }))
+        : [{ text: statement.content }];
@@ -0,0 +1,82 @@
+import * as XLSX from 'xlsx';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { registerLibraries } from '../core/libraries';
+import { ledgerXlsxBytes } from './xlsxExport';
+import type { ExportInput } from './exportProfiles';
+import { convertStatement } from './currency';
+
+const input: ExportInput = {
+    accountInfo: { accountName: 'CONG TY TNHH AN PHAT', accountNumber: '0011004455667', bankName: 'Vietcombank', branch: '' },
+    transactions: [
+        { transactionCode: 'FT1', date: '01/03/2025', description: 'Thu tien hang', debit: 5_000_000, credit: 0 },
+        { transactionCode: 'FT2', date: '02/03/2025', description: 'Tra NCC', debit: 0, credit: 2_000_000, fee: 10_000 },
+    ],
+    openingBalance: 10_000_000,
+};
+
+const usdTransactions = [
+    { transactionCode: 'INV-1', date: '28/03/2025', description: 'Payment from customer', debit: 1250.5, credit: 0 },
+    { transactionCode: 'INV-2', date: '29/03/2025', description: 'Freight charge', debit: 0, credit: 200 },
+];
+const usdRates = [
+    { date: '28/03/2025', currency: 'USD', rate: 25_000 },
+    { date: '29/03/2025', currency: 'USD', rate: 25_200 },
+];
+const usdInput: ExportInput = {
+    accountInfo: { ...input.accountInfo, accountNumber: '0011370001234', currency: 'USD' },
+    transactions: usdTransactions,
+    openingBalance: 2000,
+    conversion: convertStatement(usdTransactions, 'USD', 2000, usdRates, 24_900, 25_500),
+};
+
+const readBack = (bytes: Uint8Array) => XLSX.read(bytes, { type: 'array', cellNF: true });
+
+const sheetXml = (bytes: Uint8Array, path: string) =>
+    new TextDecoder().decode(new Uint8Array(XLSX.CFB.find(XLSX.CFB.read(bytes, { type: 'array' }), path)!.content));
+
+describe('ledgerXlsxBytes', () => {
+    beforeAll(() => registerLibraries({ XLSX }));
+
+    it('freezes the header row of the ledger sheet only', () => {
+        const bytes = ledgerXlsxBytes(input, 12_990_000);
+        expect(sheetXml(bytes, '/xl/worksheets/sheet1.xml')).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+        expect(sheetXml(bytes, '/xl/worksheets/sheet2.xml')).not.toContain('<pane');
+    });
+
+    it('still opens as a workbook with the running balance formulas', () => {
+        const workbook = XLSX.read(ledgerXlsxBytes(input, 12_990_000), { type: 'array' });
+        expect(workbook.SheetNames).toEqual(['Sổ ngân hàng', 'Tổng hợp', 'Theo nhóm']);
+        const ledger = workbook.Sheets['Sổ ngân hàng'];
+        expect(ledger.L4).toMatchObject({ f: 'L3+H4-I4-J4-K4', v: 12_990_000 });
+        expect(workbook.Sheets['Tổng hợp'].B16.v).toBe('Khớp');
+    });
+
+    it('keeps the cents of foreign-currency amounts and writes the VND columns whole', () => {
+        const workbook = readBack(ledgerXlsxBytes(usdInput, 3050.5));
+        const ledger = workbook.Sheets['Sổ ngân hàng'];
+        ['H3', 'L2', 'L4', 'H5', 'L5'].forEach(cell => expect(ledger[cell].z).toBe('#,##0.00;[Red]-#,##0.00;"-"'));
+        ['P3', 'T4', 'T5'].forEach(cell => expect(ledger[cell].z).toBe('#,##0;[Red]-#,##0;"-"'));
+        expect(workbook.Sheets['Tổng hợp'].B13.z).toBe('#,##0.00;[Red]-#,##0.00;"-"');
+        expect(workbook.Sheets['Tổng hợp'].B22.z).toBe('#,##0;[Red]-#,##0;"-"');
+        expect(workbook.Sheets['Theo nhóm'].B2.z).toBe('#,##0.00;[Red]-#,##0.00;"-"');
+    });
+
+    it('writes VND statements in whole đồng', () => {
+        const ledger = readBack(ledgerXlsxBytes(input, 12_990_000)).Sheets['Sổ ngân hàng'];
+        ['H3', 'L2', 'L4'].forEach(cell => expect(ledger[cell].z).toBe('#,##0;[Red]-#,##0;"-"'));
+    });
+
+    it('says the closing rate is missing instead of reporting no exchange difference', () => {
+        const noClosingRate = { ...usdInput, conversion: { ...usdInput.conversion!, closingRate: null, revaluedBalanceVnd: 0, exchangeDifference: 0 } };
+        const summary = readBack(ledgerXlsxBytes(noClosingRate, 3050.5)).Sheets['Tổng hợp'];
+        expect(summary.B20).toBeUndefined();
+        expect(summary.B21).toMatchObject({ f: 'IF(ISNUMBER(B20),ROUND(B13*B20,0),"Chưa có tỷ giá cuối kỳ")', v: 'Chưa có tỷ giá cuối kỳ' });
+        expect(summary.B22).toMatchObject({ f: 'IF(ISNUMBER(B20),B21-B19,"Chưa có tỷ giá cuối kỳ")', v: 'Chưa có tỷ giá cuối kỳ' });
+    });
+
+    it('revalues the closing balance when the closing rate is known', () => {
+        const summary = readBack(ledgerXlsxBytes(usdInput, 3050.5)).Sheets['Tổng hợp'];
+        expect(summary.B20.v).toBe(25_500);
+        expect(summary.B22).toMatchObject({ t: 'n', f: 'IF(ISNUMBER(B20),B21-B19,"Chưa có tỷ giá cuối kỳ")' });
+    });
+});
@@ -0,0 +1,235 @@
+import type { Transaction } from '../types';
+import type { ExportInput } from './exportProfiles';
+import { summarizeByCategory, UNCATEGORIZED } from './categorizer';
+import { isForeignCurrency, toVnd } from './currency';
+import { getXLSX } from '../core/libraries';
+import { mimeTypeFor } from '../core/extract';
+import { downloadFile } from '../utils/download';
+
+/**
+ * Native .xlsx export built with the globally loaded SheetJS. The ledger keeps
+ * live formulas (running balance, SUM totals) so accountants can keep editing
+ * in Excel after export.
+ */
+
+const LEDGER_SHEET = 'Sổ ngân hàng';
+const SUMMARY_SHEET = 'Tổng hợp';
+const CATEGORY_SHEET = 'Theo nhóm';
+const VND_FORMAT = '#,##0;[Red]-#,##0;"-"';
+// Amounts in the statement's own currency keep their cents
+const FOREIGN_FORMAT = '#,##0.00;[Red]-#,##0.00;"-"';
+
+const LEDGER_HEADERS = ["Tên tài khoản", "Số tài khoản", "Tên ngân hàng", "Chi nhánh", "Mã GD", "Ngày giá trị", "Nội dung thanh toán", "Phát Sinh Nợ", "Phát Sinh Có", "Phí", "Thuế VAT", "Số dư", "Nhóm"];
+const COLUMN_WIDTHS = [24, 16, 18, 18, 14, 12, 48, 16, 16, 12, 12, 18, 22];
+// Foreign-currency statements: columns N-T convert each row at its rate (column O)
+const VND_HEADERS = ["Loại tiền", "Tỷ giá", "Phát Sinh Nợ (VND)", "Phát Sinh Có (VND)", "Phí (VND)", "Thuế VAT (VND)", "Số dư (VND)"];
+const VND_COLUMN_WIDTHS = [10, 12, 18, 18, 14, 14, 20];
+const RATE_FORMAT = '#,##0.####';
+const MISSING_CLOSING_RATE = 'Chưa có tỷ giá cuối kỳ';
+
+type Cell = { t: 's' | 'n'; v?: string | number; f?: string; z?: string };
+
+const text = (value: string): Cell => ({ t: 's', v: value });
+const amount = (value: number, z = VND_FORMAT): Cell => ({ t: 'n', v: value, z });
+const formula = (f: string, value: number, z = VND_FORMAT): Cell => ({ t: 'n', f, v: value, z });
+const rateCell = (value: number | null): Cell | null => (value ? { t: 'n', v: value, z: RATE_FORMAT } : null);
+
+const sheetRef = (name: string) => `'${name}'`;
+
+const buildSheet = (rows: (Cell | null)[][], columnWidths: number[]) => {
+    const XLSX = getXLSX();
+    const sheet: Record<string, any> = {};
+    rows.forEach((row, r) => {
+        row.forEach((cell, c) => {
+            if (cell) sheet[XLSX.utils.encode_cell({ r, c })] = cell;
+        });
+    });
+    const lastColumn = Math.max(...rows.map(row => row.length)) - 1;
+    sheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length - 1, c: lastColumn } });
+    sheet['!cols'] = columnWidths.map(wch => ({ wch }));
+    return sheet;
+};
+
+/**
+ * Builds the workbook: a ledger sheet with the running balance as a live
+ * formula and SUM totals, a summary sheet with account info, balances and
+ * the reconciliation against the ending balance printed on the statement, and
+ * per-category totals. Foreign-currency statements also get the VND amounts
+ * as formulas of the rate column and the closing-rate revaluation.
+ */
+export const buildLedgerWorkbook = ({ accountInfo, transactions, openingBalance, conversion }: ExportInput, statementEndingBalance: number) => {
+    const XLSX = getXLSX();
+    // Columns H-L, the summary and the category totals are in the account currency; the VND columns stay whole
+    const z = isForeignCurrency(accountInfo.currency) ? FOREIGN_FORMAT : VND_FORMAT;
+
+    // Row 1 = headers, row 2 = opening balance, then one row per transaction, then totals
+    const firstTxRow = 3;
+    const lastTxRow = firstTxRow + transactions.length - 1;
+    const totalRow = lastTxRow + 1;
+    const accountCells = [text(accountInfo.accountName), text(accountInfo.accountNumber), text(accountInfo.bankName), text(accountInfo.branch)];
+
+    let runningBalance = openingBalance;
+    let runningBalanceVnd = conversion?.openingBalanceVnd ?? 0;
+    const totals = { debit: 0, credit: 0, fee: 0, vat: 0 };
+    const totalsVnd = { debit: 0, credit: 0, fee: 0, vat: 0 };
+    const transactionRows = transactions.map((tx, i) => {
+        const row = firstTxRow + i;
+        const vndCells: (Cell | null)[] = [];
+        if (conversion) {
+            const rate = conversion.rates[i];
+            const [debit, credit, fee, vat] = [tx.debit, tx.credit, tx.fee || 0, tx.vat || 0].map(value => toVnd(value, rate));
+            runningBalanceVnd += debit - credit - fee - vat;
+            totalsVnd.debit += debit;
+            totalsVnd.credit += credit;
+            totalsVnd.fee += fee;
+            totalsVnd.vat += vat;
+            vndCells.push(
+                text(tx.currency || conversion.currency),
+                rateCell(rate),
+                formula(`ROUND(H${row}*O${row},0)`, debit),
+                formula(`ROUND(I${row}*O${row},0)`, credit),
+                formula(`ROUND(J${row}*O${row},0)`, fee),
+                formula(`ROUND(K${row}*O${row},0)`, vat),
+                formula(`T${row - 1}+P${row}-Q${row}-R${row}-S${row}`, runningBalanceVnd),
+            );
+        }
+        runningBalance += tx.debit - tx.credit - (tx.fee || 0) - (tx.vat || 0);
+        totals.debit += tx.debit;
+        totals.credit += tx.credit;
+        totals.fee += tx.fee || 0;
+        totals.vat += tx.vat || 0;
+        return [
+            ...accountCells,
+            text(tx.transactionCode || ''),
+            text(tx.date),
+            text(tx.description),
+            amount(tx.debit, z),
+            amount(tx.credit, z),
+            amount(tx.fee || 0, z),
+            amount(tx.vat || 0, z),
+            formula(`L${row - 1}+H${row}-I${row}-J${row}-K${row}`, runningBalance, z),
+            text(tx.category || UNCATEGORIZED),
+            ...vndCells,
+        ];
+    });
+
+    const sumFormula = (column: string) => (transactions.length > 0 ? `SUM(${column}${firstTxRow}:${column}${lastTxRow})` : '0');
+    const headers = conversion ? [...LEDGER_HEADERS, ...VND_HEADERS] : LEDGER_HEADERS;
+    const ledgerRows: (Cell | null)[][] = [
+        headers.map(text),
+        [
+            ...accountCells, null, null, text('Số dư đầu kỳ'), null, null, null, null, amount(openingBalance, z),
+            ...(conversion ? [null, text(conversion.currency), rateCell(conversion.openingRate), null, null, null, null, formula('ROUND(L2*O2,0)', conversion.openingBalanceVnd)] : []),
+        ],
+        ...transactionRows,
+        [
+            null, null, null, null, null, null, text('Cộng phát sinh'),
+            formula(sumFormula('H'), totals.debit, z),
+            formula(sumFormula('I'), totals.credit, z),
+            formula(sumFormula('J'), totals.fee, z),
+            formula(sumFormula('K'), totals.vat, z),
+            formula(`L${totalRow - 1}`, runningBalance, z),
+            ...(conversion ? [
+                null, null, null,
+                formula(sumFormula('P'), totalsVnd.debit),
+                formula(sumFormula('Q'), totalsVnd.credit),
+                formula(sumFormula('R'), totalsVnd.fee),
+                formula(sumFormula('S'), totalsVnd.vat),
+                formula(`T${totalRow - 1}`, runningBalanceVnd),
+            ] : []),
+        ],
+    ];
+
+    const ledgerSheet = buildSheet(ledgerRows, conversion ? [...COLUMN_WIDTHS, ...VND_COLUMN_WIDTHS] : COLUMN_WIDTHS);
+    ledgerSheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: totalRow - 2, c: headers.length - 1 } }) };
+
+    const ledger = sheetRef(LEDGER_SHEET);
+    const difference = runningBalance - statementEndingBalance;
+    const summaryRows: (Cell | null)[][] = [
+        [text('BÁO CÁO TỔNG HỢP SAO KÊ')],
+        [],
+        [text('Tên tài khoản'), text(accountInfo.accountName)],
+        [text('Số tài khoản'), text(accountInfo.accountNumber)],
+        [text('Ngân hàng'), text(accountInfo.bankName)],
+        [text('Chi nhánh'), text(accountInfo.branch)],
+        [],
+        [text('Số dư đầu kỳ'), formula(`${ledger}!L2`, openingBalance, z)],
+        [text('Cộng phát sinh Nợ'), formula(`${ledger}!H${totalRow}`, totals.debit, z)],
+        [text('Cộng phát sinh Có'), formula(`${ledger}!I${totalRow}`, totals.credit, z)],
+        [text('Cộng phí'), formula(`${ledger}!J${totalRow}`, totals.fee, z)],
+        [text('Cộng thuế VAT'), formula(`${ledger}!K${totalRow}`, totals.vat, z)],
+        [text('Số dư cuối kỳ (tính toán)'), formula(`${ledger}!L${totalRow}`, runningBalance, z)],
+        [text('Số dư cuối kỳ (trên sao kê)'), amount(statementEndingBalance, z)],
+        [text('Chênh lệch'), formula('B13-B14', difference, z)],
+        [
+            text('Kết quả đối chiếu'),
+            { t: 's', f: 'IF(ABS(B15)<=1,"Khớp","Không khớp")', v: Math.abs(difference) <= 1 ? 'Khớp' : 'Không khớp' },
+        ],
+    ];
+    if (conversion) {
+        // Until a closing rate is typed into B20 the revaluation says so, rather than reporting a gain or loss of 0
+        const revalued = (f: string, value: number): Cell => {
+            const cell = formula(`IF(ISNUMBER(B20),${f},"${MISSING_CLOSING_RATE}")`, value);
+            return conversion.closingRate ? cell : { ...cell, t: 's', v: MISSING_CLOSING_RATE };
+        };
+        // Rows 18-22: revaluation of the closing balance, gain to 515 or loss to 635
+        summaryRows.push(
+            [],
+            [text('Loại tiền'), text(conversion.currency)],
+            [text('Số dư cuối kỳ quy đổi (theo tỷ giá từng giao dịch)'), formula(`${ledger}!T${totalRow}`, runningBalanceVnd)],
+            [text('Tỷ giá cuối kỳ'), rateCell(conversion.closingRate)],
+            [text('Số dư cuối kỳ đánh giá lại'), revalued('ROUND(B13*B20,0)', conversion.revaluedBalanceVnd)],
+            [text('Chênh lệch tỷ giá (+ lãi 515, - lỗ 635)'), revalued('B21-B19', conversion.exchangeDifference)],
+        );
+    }
+    const summarySheet = buildSheet(summaryRows, [30, 30]);
+
+    // Category totals stay linked to the ledger through SUMIF
+    const categoryRange = (column: string) => `${ledger}!${column}${firstTxRow}:${column}${Math.max(lastTxRow, firstTxRow)}`;
+    const categoryRows: (Cell | null)[][] = [
+        [text('Nhóm'), text('Tiền vào'), text('Tiền ra'), text('Phí'), text('Thuế VAT')],
+        ...summarizeByCategory(transactions).map((total, i) => {
+            const sumIf = (column: string) => `SUMIF(${categoryRange('M')},A${i + 2},${categoryRange(column)})`;
+            const rows = transactions.filter(tx => (tx.category || UNCATEGORIZED) === total.category);
+            const sum = (pick: (tx: Transaction) => number) => rows.reduce((acc, tx) => acc + pick(tx), 0);
+            return [
+                text(total.category),
+                formula(sumIf('H'), sum(tx => tx.debit), z),
+                formula(sumIf('I'), sum(tx => tx.credit), z),
+                formula(sumIf('J'), sum(tx => tx.fee || 0), z),
+                formula(sumIf('K'), sum(tx => tx.vat || 0), z),
+            ];
+        }),
+    ];
+    const categorySheet = buildSheet(categoryRows, [30, 18, 18, 14, 14]);
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, ledgerSheet, LEDGER_SHEET);
+    XLSX.utils.book_append_sheet(workbook, summarySheet, SUMMARY_SHEET);
+    XLSX.utils.book_append_sheet(workbook, categorySheet, CATEGORY_SHEET);
+    return workbook;
+};
+
+// SheetJS CE ignores !freeze and !views, so the ledger's header row is frozen by editing the written sheet XML
+const FROZEN_HEADER_VIEW = '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>';
+
+const freezeLedgerHeader = (bytes: Uint8Array): Uint8Array => {
+    const { CFB } = getXLSX();
+    const archive = CFB.read(bytes, { type: 'array' });
+    // The ledger is the first sheet
+    const sheet = CFB.find(archive, '/xl/worksheets/sheet1.xml');
+    if (!sheet) return bytes;
+    const xml = new TextDecoder().decode(new Uint8Array(sheet.content));
+    sheet.content = new TextEncoder().encode(xml.replace('<sheetView workbookViewId="0"/>', FROZEN_HEADER_VIEW));
+    return new Uint8Array(CFB.write(archive, { fileType: 'zip', type: 'array' }));
+};
+
+// The workbook as file bytes, for bundling into an archive
+export const ledgerXlsxBytes = (input: ExportInput, statementEndingBalance: number): Uint8Array => {
+    const workbook = buildLedgerWorkbook(input, statementEndingBalance);
+    return freezeLedgerHeader(new Uint8Array(getXLSX().write(workbook, { bookType: 'xlsx', type: 'array', cellStyles: true })));
+};
+
+export const downloadLedgerXlsx = (input: ExportInput, statementEndingBalance: number, fileName = 'so_ke_ke_toan.xlsx') => {
+    downloadFile(fileName, ledgerXlsxBytes(input, statementEndingBalance), mimeTypeFor(fileName));
+};
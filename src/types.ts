@@ -4,6 +4,7 @@ export interface AccountInfo {
   accountNumber: string;
   bankName: string;
   branch: string;
+  currency?: string; // Mã tiền tệ ISO của tài khoản (USD, EUR...); bỏ trống là VND
 }
 
 export interface Transaction {
@@ -14,6 +15,33 @@ export interface Transaction {
   credit: number; // Phát Sinh Có (tiền ra, chưa bao gồm phí)
   fee?: number; // Phí giao dịch (tùy chọn)
   vat?: number; // Thuế GTGT (tùy chọn)
+  printedBalance?: number; // Số dư in trên sao kê sau giao dịch (nếu có)
+  source?: TransactionSource; // Vị trí dòng giao dịch trên sao kê gốc
+  confidence?: FieldConfidence; // Độ tin cậy của AI cho từng trường (0-1)
+  category?: string; // Nhóm nghiệp vụ (lương, nhà cung cấp, thuế...)
+  categorySource?: CategorySource; // Nguồn phân loại
+  counterparty?: Counterparty; // Đối tác tách từ nội dung giao dịch
+  currency?: string; // Loại tiền của dòng nếu sao kê có cột loại tiền; mặc định theo tài khoản
+  exchangeRate?: number; // Tỷ giá quy đổi sang VND in trên sao kê hoặc nhập tay
+}
+
+export interface Counterparty {
+  name: string; // Tên người chuyển/nhận
+  account: string; // Số tài khoản đối tác
+  bank: string; // Ngân hàng đối tác
+  code?: string; // Mã đối tượng trong danh bạ (khách hàng/nhà cung cấp)
+  ledgerAccount?: string; // TK công nợ: 131 (khách hàng) hoặc 331 (nhà cung cấp)
+}
+
+export type CategorySource = 'rule' | 'learned' | 'ai' | 'manual';
+
+export type ConfidenceField = 'date' | 'debit' | 'credit' | 'fee' | 'vat';
+
+export type FieldConfidence = Partial<Record<ConfidenceField, number>>;
+
+export interface TransactionSource {
+  page: number; // Trang (bắt đầu từ 1)
+  line: number; // Dòng trong trang (bắt đầu từ 1)
 }
 
 export interface GeminiResponse {
@@ -42,4 +70,176 @@ export interface AIChatResponse {
     add?: Transaction; // For adding a new transaction from pasted content
     action?: 'update' | 'undo' | 'query' | 'add';
     confirmationRequired?: boolean; // Flag to indicate if the action needs user confirmation
-}
\ No newline at end of file
+}
+
+// Typed edits on a statement's transactions; every change to the table goes through one of these
+export type EditableField = 'transactionCode' | 'date' | 'description' | 'debit' | 'credit' | 'fee' | 'vat' | 'category' | 'exchangeRate';
+
+export type TransactionChanges = Partial<Pick<Transaction, EditableField>>;
+
+// Amounts and description of one line produced by a split
+export type SplitPart = Partial<Pick<Transaction, 'description' | 'debit' | 'credit' | 'fee' | 'vat'>>;
+
+export type TransactionOperation =
+    | { type: 'update'; index: number; changes: TransactionChanges }
+    | { type: 'verify'; index: number; field: ConfidenceField } // Confirms a low-confidence value as read
+    | { type: 'insert'; index: number; transaction: Transaction } // index = transactions.length appends
+    | { type: 'delete'; index: number }
+    | { type: 'move'; from: number; to: number }
+    | { type: 'split'; index: number; parts: SplitPart[] }
+    | { type: 'merge'; index: number; count: number }; // Merges `count` consecutive rows starting at index
+
+// Types for the undo/redo change log
+export type ChangeSource = 'manual' | 'voice' | 'chat' | 'ai' | 'rules'; // 'rules': re-applied category rules or directory
+
+// Replacing `after` at `start` with `before` undoes the change; the reverse redoes it
+export interface TransactionPatch {
+    start: number;
+    before: Transaction[];
+    after: Transaction[];
+}
+
+export interface ChangeRecord {
+    id: string;
+    timestamp: number;
+    source: ChangeSource;
+    label: string; // e.g. "Dòng 3: PS Nợ 100.000 → 120.000"
+    patch: TransactionPatch;
+    coalesceKey?: string; // Consecutive keystrokes in the same cell share a key and a record
+    reverts?: string; // Id of the change this one reverted
+}
+// Types for double-entry journal posting
+export type AccountingRegime = 'TT200' | 'TT133';
+
+export interface PostingRule {
+    id: string;
+    name: string;
+    keywords: string[]; // Matched against the description (which usually carries the counterparty name)
+    direction: 'in' | 'out' | 'any';
+    contraAccount: string;
+}
+
+export interface PostingSettings {
+    regime: AccountingRegime;
+    bankAccount: string;
+    feeAccount: string;
+    vatAccount: string;
+    defaultReceiptAccount: string; // Contra account for unmatched money in
+    defaultPaymentAccount: string; // Contra account for unmatched money out
+    foreignBankAccount: string; // Used instead of bankAccount for foreign-currency statements
+    exchangeGainAccount: string;
+    exchangeLossAccount: string;
+}
+
+export interface JournalLine {
+    debitAccount: string;
+    creditAccount: string;
+    amount: number;
+    description: string;
+    objectCode?: string; // Mã đối tượng công nợ (khách hàng/nhà cung cấp)
+    foreignAmount?: number; // Số tiền nguyên tệ; amount is then the VND equivalent
+}
+
+export interface JournalEntry {
+    transactionIndex: number; // -1 for entries not tied to a row, such as the revaluation
+    documentNumber: string;
+    date: string;
+    description: string;
+    lines: JournalLine[];
+    currency?: string; // Set with exchangeRate on foreign-currency entries
+    exchangeRate?: number;
+}
+
+// Types for transaction categorization
+export interface CategoryRule {
+    id: string;
+    category: string;
+    pattern: string; // Comma-separated keywords, or a regular expression when isRegex is set (matched without diacritics)
+    isRegex: boolean;
+    direction: 'in' | 'out' | 'any';
+}
+
+// Local directory mapping counterparties to customer/supplier codes
+export interface CounterpartyEntry {
+    id: string;
+    name: string;
+    account: string;
+    bank: string;
+    code: string; // e.g. KH0001, NCC0001
+    ledgerAccount: string; // 131, 331 or a subaccount such as 1311
+}
+
+// Types for matching bank receipts/payments against invoices
+export type InvoiceKind = 'sales' | 'purchase';
+
+export interface Invoice {
+    id: string;
+    kind: InvoiceKind; // Bán ra (thu tiền) hoặc mua vào (chi tiền)
+    series: string; // Ký hiệu hóa đơn
+    number: string; // Số hóa đơn
+    date: string; // DD/MM/YYYY
+    partyName: string; // Người mua (bán ra) hoặc người bán (mua vào)
+    taxCode: string; // MST của đối tác
+    amount: number; // Tổng tiền thanh toán (gồm thuế)
+}
+
+export interface InvoiceAllocation {
+    invoiceId: string;
+    amount: number;
+}
+
+export interface InvoiceMatch {
+    transactionIndex: number;
+    allocations: InvoiceAllocation[];
+    method: 'reference' | 'amount' | 'party'; // Theo số HĐ/MST trong nội dung, theo số tiền, hoặc theo đối tác
+    unallocated: number; // Phần tiền chưa phân bổ được cho hóa đơn nào
+}
+
+// A line of the company's own bank ledger (TK 112) exported from its accounting software
+export interface LedgerEntry {
+    id: string;
+    date: string; // Ngày hạch toán, DD/MM/YYYY
+    voucher: string; // Số chứng từ
+    description: string;
+    debit: number; // Nợ 112 - tiền vào
+    credit: number; // Có 112 - tiền ra
+}
+
+// A rate from an imported exchange rate table (VND per unit of currency)
+export interface ExchangeRate {
+    date: string; // DD/MM/YYYY
+    currency: string;
+    rate: number;
+}
+
+// A statement uploaded to the local API server, as returned by GET /statements/:id
+export type ServerStatementStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface ServerStatement {
+    id: string;
+    fileName: string;
+    status: ServerStatementStatus;
+    createdAt: number;
+    error: string | null;
+    data: GeminiResponse | null; // Set once status is 'done'
+    parsedWithProfile: string | null; // Bank layout read without the AI, if any
+    openingBalance: number | null;
+    balanceWarning: string | null;
+    balanceBreaks: number; // Rows whose printed balance does not follow from the previous row
+    failedPages: number;
+}
+
+// The AI provider and model the API server uses, chosen in the app's settings
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AISettings {
+    provider: AIProviderId;
+    model: string; // Empty for the provider's default model
+}
+
+export interface AIProviderInfo {
+    id: AIProviderId;
+    label: string;
+    defaultModel: string;
+    unavailableReason: string | null; // Set when the server lacks the key or endpoint for it
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { numberToVietnameseWords, parseVnAmount, type ParseAmountOptions } from './amount';
+
+describe('parseVnAmount', () => {
+    it.each<[string, number]>([
+        ['1.234.567', 1_234_567],
+        ['1,234,567', 1_234_567],
+        ['1.234.567,50', 1_234_567.5],
+        ['1,234,567.50', 1_234_567.5],
+        ['1 234 567', 1_234_567],
+        ['1.500', 1_500],
+        ['1,500', 1_500],
+        ['12.5', 12.5],
+        ['0,5', 0.5],
+        ['0.500', 0.5],
+        ['2500', 2_500],
+    ])('reads the figures %s', (raw, expected) => {
+        expect(parseVnAmount(raw)).toBe(expected);
+    });
+
+    it.each<[string, ParseAmountOptions, number]>([
+        ['1.500', { thousandsSeparator: ',' }, 1.5],
+        ['1,500', { thousandsSeparator: '.' }, 1.5],
+        ['1.500', { thousandsSeparator: '.' }, 1_500],
+        ['12,5', { thousandsSeparator: '.' }, 12.5],
+    ])('reads %s with a known separator %o', (raw, options, expected) => {
+        expect(parseVnAmount(raw, options)).toBe(expected);
+    });
+
+    it.each<[string, number]>([
+        ['ba triệu hai trăm năm mươi nghìn', 3_250_000],
+        ['một trăm lẻ năm', 105],
+        ['hai nghìn không trăm linh tư', 2_004],
+        ['mười lăm', 15],
+        ['hai mươi mốt nghìn', 21_000],
+        ['bốn mươi tư', 44],
+        ['năm nghìn hai', 5_200],
+        ['3 triệu 250 nghìn', 3_250_000],
+        ['một tỷ hai trăm triệu', 1_200_000_000],
+        ['một nghìn tỷ', 1_000_000_000_000],
+        ['Mười hai triệu đồng chẵn', 12_000_000],
+    ])('reads the words "%s"', (raw, expected) => {
+        expect(parseVnAmount(raw)).toBe(expected);
+    });
+
+    it.each<[string, number]>([
+        ['một triệu rưỡi', 1_500_000],
+        ['hai nghìn rưỡi', 2_500],
+        ['3 tỷ rưỡi', 3_500_000_000],
+    ])('reads "rưỡi" as half the scale: %s', (raw, expected) => {
+        expect(parseVnAmount(raw)).toBe(expected);
+    });
+
+    it.each<[string, number]>([
+        ['120k', 120_000],
+        ['1tr', 1_000_000],
+        ['2tr5', 2_500_000],
+        ['1,5 tỷ', 1_500_000_000],
+        ['3 tỉ', 3_000_000_000],
+        ['500 ngàn', 500_000],
+    ])('reads the shorthand %s', (raw, expected) => {
+        expect(parseVnAmount(raw)).toBe(expected);
+    });
+
+    it.each<[string, number]>([
+        ['(12.000)', -12_000],
+        ['(12.000) VND', -12_000],
+        ['-12.000', -12_000],
+        ['12.000-', -12_000],
+        ['âm mười hai nghìn', -12_000],
+    ])('reads the negative %s', (raw, expected) => {
+        expect(parseVnAmount(raw)).toBe(expected);
+    });
+
+    it.each<[string, number]>([
+        ['50.000 VND', 50_000],
+        ['50.000vnd', 50_000],
+        ['50.000 đ', 50_000],
+        ['50.000đ', 50_000],
+        ['50.000 ₫', 50_000],
+        ['50.000 đồng', 50_000],
+    ])('ignores the currency in %s', (raw, expected) => {
+        expect(parseVnAmount(raw)).toBe(expected);
+    });
+
+    it.each(['', '   ', 'VND', 'Số dư', 'abc', 'hai ba', 'rưỡi', '12/03/2025'])('rejects %j', raw => {
+        expect(parseVnAmount(raw)).toBeNull();
+    });
+});
+
+describe('numberToVietnameseWords', () => {
+    it.each<[number, string]>([
+        [0, 'Không đồng'],
+        [10, 'Mười đồng'],
+        [14, 'Mười bốn đồng'],
+        [15, 'Mười lăm đồng'],
+        [21, 'Hai mươi mốt đồng'],
+        [24, 'Hai mươi tư đồng'],
+        [25, 'Hai mươi lăm đồng'],
+        [105, 'Một trăm lẻ năm đồng'],
+        [3_200_000, 'Ba triệu hai trăm nghìn đồng chẵn'],
+        [1_005_000, 'Một triệu không trăm lẻ năm nghìn đồng chẵn'],
+        [2_000_021, 'Hai triệu không trăm hai mươi mốt đồng'],
+        [5_030_004, 'Năm triệu không trăm ba mươi nghìn không trăm lẻ bốn đồng'],
+        [1_234_567, 'Một triệu hai trăm ba mươi tư nghìn năm trăm sáu mươi bảy đồng'],
+        [1_000_000_000, 'Một tỷ đồng chẵn'],
+        [2_500_000_001, 'Hai tỷ năm trăm triệu không trăm lẻ một đồng'],
+        [1_000_001_000, 'Một tỷ không trăm lẻ một nghìn đồng chẵn'],
+        [1_000_000_000_000, 'Một nghìn tỷ đồng chẵn'],
+        [1_234_567.6, 'Một triệu hai trăm ba mươi tư nghìn năm trăm sáu mươi tám đồng'],
+        [-50_000, 'Âm năm mươi nghìn đồng chẵn'],
+        [-0.4, 'Không đồng'],
+    ])('writes %d VND', (amount, expected) => {
+        expect(numberToVietnameseWords(amount)).toBe(expected);
+    });
+
+    it.each<[number, string, string]>([
+        [1250.5, 'USD', 'Một nghìn hai trăm năm mươi đô la Mỹ và năm mươi xu'],
+        [2000, 'EUR', 'Hai nghìn euro chẵn'],
+        [0.05, 'USD', 'Không đô la Mỹ và năm xu'],
+        [1500.4, 'JPY', 'Một nghìn năm trăm yên Nhật'],
+        [12, 'XYZ', 'Mười hai XYZ'],
+    ])('writes %d %s in that currency', (amount, currency, expected) => {
+        expect(numberToVietnameseWords(amount, currency)).toBe(expected);
+    });
+
+    it('reads back what it writes', () => {
+        [7, 105, 21_000, 1_234_567, 2_500_000_001].forEach(amount => {
+            expect(parseVnAmount(numberToVietnameseWords(amount))).toBe(amount);
+        });
+    });
+
+    it('returns an empty string for non-numbers', () => {
+        expect(numberToVietnameseWords(NaN)).toBe('');
+    });
+});
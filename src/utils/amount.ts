@@ -0,0 +1,212 @@
+import { normalizeText } from './text';
+
+/**
+ * Parses an amount however it was entered: printed on a statement
+ * ("1.234.567", "1,234,567.50", "(12.000) VND"), typed in a cell ("120k",
+ * "1,5 tỷ") or dictated ("ba triệu hai trăm năm mươi nghìn").
+ * Returns null when the text is not an amount.
+ */
+
+export interface ParseAmountOptions {
+    // Set when the grouping separator is known, e.g. for values formatted with vi-VN
+    thousandsSeparator?: '.' | ',';
+}
+
+// Words are matched without diacritics, so "mười" and "mươi" (and "năm"/"nam") are the same word
+const DIGITS: Record<string, number> = {
+    khong: 0, mot: 1, hai: 2, ba: 3, bon: 4, tu: 4, nam: 5, lam: 5, sau: 6, bay: 7, tam: 8, chin: 9,
+};
+const SCALES: Record<string, number> = {
+    k: 1e3, nghin: 1e3, ngan: 1e3, tr: 1e6, trieu: 1e6, ty: 1e9, ti: 1e9,
+};
+const CURRENCY_WORDS = new Set(['vnd', 'dong', 'd', 'chan']);
+
+const parseDigits = (raw: string, options: ParseAmountOptions): number | null => {
+    let value = raw;
+    if (!/^[\d.,]+$/.test(value) || !/\d/.test(value)) return null;
+
+    const lastDot = value.lastIndexOf('.');
+    const lastComma = value.lastIndexOf(',');
+    if (options.thousandsSeparator) {
+        const decimalSep = options.thousandsSeparator === '.' ? ',' : '.';
+        value = value.split(options.thousandsSeparator).join('').replace(decimalSep, '.');
+    } else if (lastDot !== -1 && lastComma !== -1) {
+        const decimalSep = lastDot > lastComma ? '.' : ',';
+        const thousandSep = decimalSep === '.' ? ',' : '.';
+        value = value.split(thousandSep).join('').replace(decimalSep, '.');
+    } else if (lastDot !== -1 || lastComma !== -1) {
+        // A single separator groups thousands when it repeats or is followed by exactly three digits, unless the number starts with 0
+        const sep = lastDot !== -1 ? '.' : ',';
+        const parts = value.split(sep);
+        const isThousands = parts[0] !== '0' && (parts.length > 2 || parts[parts.length - 1].length === 3);
+        value = isThousands ? parts.join('') : parts.join('.');
+    }
+
+    const num = parseFloat(value);
+    return isNaN(num) ? null : num;
+};
+
+/**
+ * Reads spelled-out numbers, optionally mixed with digits ("3 triệu 250 nghìn").
+ * Also accepts the spoken shorthand "năm nghìn hai" (5.200) and "một triệu rưỡi".
+ */
+const parseWords = (tokens: string[], options: ParseAmountOptions): number | null => {
+    let total = 0;
+    let largestScale = 0;
+    let lastScale = 0;
+    let group = 0; // Hundreds and tens of the current group, below 1000
+    let digit: number | null = null; // Last digit not yet placed
+    let groupHasPlaces = false; // "trăm", "mươi" or "lẻ" was said in this group
+
+    const closeGroup = () => {
+        const value = group + (digit ?? 0);
+        group = 0;
+        digit = null;
+        groupHasPlaces = false;
+        return value;
+    };
+
+    for (const token of tokens) {
+        if (token in DIGITS || /^[\d.,]+$/.test(token)) {
+            if (digit !== null) return null; // Two numbers in a row, e.g. "hai ba"
+            digit = token in DIGITS ? DIGITS[token] : parseDigits(token, options);
+            if (digit === null) return null;
+        } else if (token === 'muoi') {
+            group += (digit ?? 1) * 10;
+            digit = null;
+            groupHasPlaces = true;
+        } else if (token === 'tram') {
+            group += (digit ?? 1) * 100;
+            digit = null;
+            groupHasPlaces = true;
+        } else if (token === 'le' || token === 'linh') {
+            groupHasPlaces = true;
+        } else if (token in SCALES) {
+            const scale = SCALES[token];
+            const value = closeGroup();
+            // "một nghìn tỷ": a larger scale multiplies everything said so far
+            if (scale > largestScale) {
+                total = (total + (value || (total ? 0 : 1))) * scale;
+                largestScale = scale;
+            } else {
+                total += (value || 1) * scale;
+            }
+            lastScale = scale;
+        } else if (token === 'ruoi') {
+            if (!lastScale) return null;
+            total += lastScale / 2;
+        } else if (!CURRENCY_WORDS.has(token)) {
+            return null;
+        }
+    }
+
+    // A lone digit right after a scale is a fraction of it: "năm nghìn hai" = 5.200
+    if (digit !== null && group === 0 && !groupHasPlaces && lastScale >= 1000 && digit < 10 && Number.isInteger(digit)) {
+        return total + digit * (lastScale / 10);
+    }
+    return total + closeGroup();
+};
+
+export const parseVnAmount = (raw: string, options: ParseAmountOptions = {}): number | null => {
+    let value = normalizeText(raw.replace(/₫/g, ''));
+    if (!value) return null;
+
+    // "(12.000) VND", "-12.000", "12.000-" or "âm mười hai nghìn"
+    const negative = /\(.*\)/.test(value) || /^-/.test(value) || /-$/.test(value) || /^am\s/.test(value);
+    value = value.replace(/[()]/g, '').replace(/^[-+]|-$/g, '').replace(/^am\s/, '').trim();
+
+    // Separate digits from attached units: "120k", "2tr5", "50.000vnd"
+    const tokens = value
+        .replace(/(\d)([a-z])/g, '$1 $2')
+        .replace(/([a-z])(\d)/g, '$1 $2')
+        .split(/\s+/)
+        .filter(token => token && !CURRENCY_WORDS.has(token));
+    if (tokens.length === 0) return null;
+
+    // Plain figures, possibly grouped with spaces ("1 234 567")
+    const figures = tokens.join('');
+    const num = /^[\d.,]+$/.test(figures) ? parseDigits(figures, options) : parseWords(tokens, options);
+    if (num === null) return null;
+    return negative ? -num : num;
+};
+
+const DIGIT_WORDS = ['không', 'một', 'hai', 'ba', 'bốn', 'năm', 'sáu', 'bảy', 'tám', 'chín'];
+
+// Reads 0-999; `full` says "không trăm" and "lẻ" because a higher group was already read
+const readGroup = (value: number, full: boolean): string => {
+    const hundreds = Math.floor(value / 100);
+    const tens = Math.floor(value / 10) % 10;
+    const units = value % 10;
+    const words: string[] = [];
+
+    if (hundreds > 0 || full) words.push(DIGIT_WORDS[hundreds], 'trăm');
+    if (tens === 0) {
+        if (units > 0 && words.length > 0) words.push('lẻ');
+    } else if (tens === 1) {
+        words.push('mười');
+    } else {
+        words.push(DIGIT_WORDS[tens], 'mươi');
+    }
+
+    if (units === 1 && tens > 1) words.push('mốt');
+    else if (units === 4 && tens > 1) words.push('tư');
+    else if (units === 5 && tens > 0) words.push('lăm');
+    else if (units > 0) words.push(DIGIT_WORDS[units]);
+    return words.join(' ');
+};
+
+const readNumber = (value: number, full: boolean): string => {
+    // Above a billion the part before "tỷ" is read as a number of its own: "một nghìn tỷ"
+    if (value >= 1e9) {
+        const billions = Math.floor(value / 1e9);
+        const rest = value % 1e9;
+        return `${readNumber(billions, full)} tỷ${rest > 0 ? ` ${readNumber(rest, true)}` : ''}`;
+    }
+    const words: string[] = [];
+    let started = full;
+    ([[Math.floor(value / 1e6), 'triệu'], [Math.floor(value / 1e3) % 1000, 'nghìn'], [value % 1000, '']] as const).forEach(([group, scale]) => {
+        if (group === 0) return;
+        words.push(readGroup(group, started) + (scale ? ` ${scale}` : ''));
+        started = true;
+    });
+    return words.join(' ');
+};
+
+// Currency names for amounts in words; cents are read as "xu"
+const CURRENCY_UNITS: Record<string, { unit: string; minor?: string }> = {
+    VND: { unit: 'đồng' },
+    USD: { unit: 'đô la Mỹ', minor: 'xu' },
+    EUR: { unit: 'euro', minor: 'xu' },
+    JPY: { unit: 'yên Nhật' },
+    CNY: { unit: 'nhân dân tệ', minor: 'xu' },
+    GBP: { unit: 'bảng Anh', minor: 'xu' },
+    AUD: { unit: 'đô la Úc', minor: 'xu' },
+    SGD: { unit: 'đô la Singapore', minor: 'xu' },
+    KRW: { unit: 'won' },
+    HKD: { unit: 'đô la Hồng Kông', minor: 'xu' },
+    CAD: { unit: 'đô la Canada', minor: 'xu' },
+    CHF: { unit: 'franc Thụy Sĩ', minor: 'xu' },
+    THB: { unit: 'baht', minor: 'xu' },
+};
+
+/**
+ * Writes an amount in words for documents, e.g. 3.200.000 →
+ * "Ba triệu hai trăm nghìn đồng chẵn". VND is rounded to whole đồng; other
+ * currencies read their cents ("và năm mươi xu"). "chẵn" is only added to
+ * round amounts (whole thousands).
+ */
+export const numberToVietnameseWords = (amount: number, currency = 'VND'): string => {
+    if (!Number.isFinite(amount)) return '';
+    const { unit, minor } = CURRENCY_UNITS[currency] ?? { unit: currency, minor: 'xu' };
+    const cents = minor ? Math.round(Math.abs(amount) * 100) : Math.round(Math.abs(amount)) * 100;
+    const whole = Math.floor(cents / 100);
+    const fraction = cents % 100;
+    const words = [
+        amount < 0 && cents > 0 ? 'âm' : '',
+        whole === 0 ? 'không' : readNumber(whole, false),
+        unit,
+        fraction > 0 ? `và ${readNumber(fraction, false)} ${minor}` : '',
+        fraction === 0 && whole > 0 && whole % 1000 === 0 ? 'chẵn' : '',
+    ].filter(Boolean).join(' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+};
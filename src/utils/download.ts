@@ -0,0 +1,20 @@
+// Quotes every cell so descriptions containing commas or quotes survive the round-trip
+export const toCsv = (headers: string[], rows: (string | number)[][]): string =>
+    [headers.join(','), ...rows.map(row => row.map(item => `"${String(item).replace(/"/g, '""')}"`).join(','))].join('\n');
+
+export const downloadFile = (fileName: string, content: BlobPart, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// The BOM lets Excel open UTF-8 CSV files with Vietnamese text correctly
+export const downloadCsv = (fileName: string, headers: string[], rows: (string | number)[][]) => {
+    downloadFile(fileName, '\uFEFF' + toCsv(headers, rows), 'text/csv;charset=utf-8');
+};
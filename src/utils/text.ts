@@ -0,0 +1,10 @@
+// Lowercases and strips Vietnamese diacritics so keyword matching is accent-insensitive
+export const normalizeText = (value: string): string =>
+    value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/g, 'd')
+        .replace(/Đ/g, 'D')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();